@@ -8,7 +8,8 @@ const STATIC_CACHE_URLS = [
   './style.css',
   './icon-192.png',
   './icon-512.png',
-  './manifest.json'
+  './manifest.json',
+  './stores.json'
 ];
 
 // Install event - cache static assets
@@ -1,5 +1,27 @@
-import type { Alert, StoreLocation, NotificationPayload } from './types';
+import type { Alert, AlertEscalation, AlertStatus, AppSettings, StoreLocation, NotificationPayload, NotificationSchedule } from './types';
 import { generateId, calculateAlertSeverity, playNotificationSound } from './utils';
+import { getAlertMessage, getAlertTitle, localize, t, text } from './i18n';
+import { WEEKDAYS, getStoreTime, isValidTime, toMinutes } from './hours';
+
+const SEVERITY_ORDER: Alert['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+/** Alerts kept, newest first; older ones are dropped to prevent storage bloat */
+const MAX_STORED_ALERTS = 1000;
+
+type NewAlert = Partial<Alert> & {
+  storeId: string;
+  type: Alert['type'];
+  title: string;
+  message: string;
+};
+
+/**
+ * Inline SVG placeholder so test alerts work without network access
+ */
+function placeholderImage(label: string, background: string, color: string): string {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="300"><rect width="400" height="300" fill="${background}"/><text x="200" y="155" text-anchor="middle" font-family="sans-serif" font-size="20" fill="${color}">${label}</text></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
 
 /**
  * Alert Manager - Handles alert creation, storage, and notifications
@@ -7,26 +29,20 @@ import { generateId, calculateAlertSeverity, playNotificationSound } from './uti
 export class AlertManager {
   private alerts: Alert[] = [];
   private listeners: Array<(alerts: Alert[]) => void> = [];
-  private notificationQueue: Alert[] = [];
   
   constructor() {
     this.loadFromStorage();
-    this.setupNotificationQueue();
   }
 
   /**
-   * Add new alert and trigger notifications
+   * Add new alert. Push notifications are sent by AlertNotificationManager.
    */
-  addAlert(alertData: Partial<Alert> & { 
-    storeId: string; 
-    type: Alert['type']; 
-    title: string; 
-    message: string;
-  }): Alert {
+  addAlert(alertData: NewAlert): Alert {
     const alert: Alert = {
       id: generateId(),
       timestamp: new Date().toISOString(),
       read: false,
+      status: 'open',
       severity: calculateAlertSeverity(alertData.type, {
         temperature: alertData.temperature,
         fillPercent: (alertData as any).fillPercent,
@@ -39,12 +55,44 @@ export class AlertManager {
     this.saveToStorage();
     this.notifyListeners();
     
-    // Queue for push notification
-    this.queueNotification(alert);
-    
     return alert;
   }
 
+  /**
+   * Raise an alert for an incident - one alert type on one store component -
+   * or refresh the unresolved alert already open for it. Returns the alert
+   * and whether it is new, so callers only notify once per incident.
+   */
+  raise(alertData: NewAlert & { component: string }): { alert: Alert; created: boolean } {
+    const existing = this.findOpen(alertData.storeId, alertData.type, alertData.component);
+    if (!existing) {
+      return { alert: this.addAlert(alertData), created: true };
+    }
+
+    // Keep the incident's start time, and any severity an escalation raised it to
+    const { severity = existing.severity, ...updates } = alertData;
+    const escalated = existing.escalations?.[existing.escalations.length - 1]?.severity;
+    Object.assign(existing, updates, {
+      severity: escalated && SEVERITY_ORDER.indexOf(escalated) > SEVERITY_ORDER.indexOf(severity) ? escalated : severity,
+      updatedAt: new Date().toISOString()
+    });
+    this.saveToStorage();
+    this.notifyListeners();
+    return { alert: existing, created: false };
+  }
+
+  /**
+   * Find the unresolved alert of a type for a store component
+   */
+  findOpen(storeId: string, type: Alert['type'], component: string): Alert | undefined {
+    return this.alerts.find(a =>
+      a.storeId === storeId &&
+      a.type === type &&
+      a.component === component &&
+      a.status !== 'resolved'
+    );
+  }
+
   /**
    * Mark alert as read
    */
@@ -75,6 +123,106 @@ export class AlertManager {
     }
   }
 
+  /**
+   * Acknowledge an open alert
+   */
+  acknowledge(alertId: string, by: string): boolean {
+    const alert = this.alerts.find(a => a.id === alertId);
+    if (!alert || alert.status !== 'open') return false;
+
+    alert.status = 'acknowledged';
+    alert.acknowledgedAt = new Date().toISOString();
+    alert.acknowledgedBy = by;
+    alert.read = true;
+    this.saveToStorage();
+    this.notifyListeners();
+    return true;
+  }
+
+  /**
+   * Assign an unresolved alert, acknowledging it if still open
+   */
+  assign(alertId: string, assignee: string, by: string): boolean {
+    const alert = this.alerts.find(a => a.id === alertId);
+    if (!alert || alert.status === 'resolved') return false;
+
+    const now = new Date().toISOString();
+    if (alert.status === 'open') {
+      alert.status = 'acknowledged';
+      alert.acknowledgedAt = now;
+      alert.acknowledgedBy = by;
+    }
+    alert.assignedTo = assignee;
+    alert.assignedAt = now;
+    alert.read = true;
+    this.saveToStorage();
+    this.notifyListeners();
+    return true;
+  }
+
+  /**
+   * Resolve an alert
+   */
+  resolve(alertId: string, by: string, note?: string): boolean {
+    const alert = this.alerts.find(a => a.id === alertId);
+    if (!alert || alert.status === 'resolved') return false;
+
+    this.markResolved(alert, by, note);
+    this.saveToStorage();
+    this.notifyListeners();
+    return true;
+  }
+
+  /**
+   * Resolve unresolved alerts for a store component whose readings are back to normal
+   */
+  autoResolve(storeId: string, types: Alert['type'][], component: string, note: string): Alert[] {
+    const resolved = this.alerts.filter(alert =>
+      alert.storeId === storeId &&
+      alert.status !== 'resolved' &&
+      types.includes(alert.type) &&
+      (alert.component === component || alert.shelves?.includes(component))
+    );
+
+    if (resolved.length > 0) {
+      resolved.forEach(alert => this.markResolved(alert, 'system', note));
+      this.saveToStorage();
+      this.notifyListeners();
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Record an escalation step on an alert, raising its severity
+   */
+  recordEscalation(alertId: string, escalation: AlertEscalation): Alert | null {
+    const alert = this.alerts.find(a => a.id === alertId);
+    if (!alert || alert.status !== 'open') return null;
+
+    alert.escalationLevel = escalation.level;
+    alert.escalations = [...(alert.escalations || []), escalation];
+    alert.severity = escalation.severity;
+    this.saveToStorage();
+    this.notifyListeners();
+    return alert;
+  }
+
+  /**
+   * Name recorded against acknowledge/assign/resolve actions on this device
+   */
+  getOperatorName(): string | null {
+    return localStorage.getItem('pret-operator-name');
+  }
+
+  setOperatorName(name: string): void {
+    try {
+      localStorage.setItem('pret-operator-name', name.trim());
+    } catch (error) {
+      console.warn('Failed to save operator name:', error);
+    }
+  }
+
   /**
    * Delete alert
    */
@@ -103,6 +251,7 @@ export class AlertManager {
     storeId?: string;
     type?: Alert['type'];
     severity?: Alert['severity'];
+    status?: AlertStatus;
     unreadOnly?: boolean;
     limit?: number;
   }): Alert[] {
@@ -120,6 +269,10 @@ export class AlertManager {
       filtered = filtered.filter(a => a.severity === filter.severity);
     }
     
+    if (filter?.status) {
+      filtered = filtered.filter(a => a.status === filter.status);
+    }
+    
     if (filter?.unreadOnly) {
       filtered = filtered.filter(a => !a.read);
     }
@@ -158,6 +311,10 @@ export class AlertManager {
     unread: number;
     byType: Record<Alert['type'], number>;
     bySeverity: Record<Alert['severity'], number>;
+    byStatus: Record<AlertStatus, number>;
+    autoResolved: number;
+    meanTimeToAcknowledgeMs: number | null;
+    meanTimeToResolveMs: number | null;
     last24Hours: number;
   } {
     const now = new Date();
@@ -173,11 +330,25 @@ export class AlertManager {
       return acc;
     }, {} as Record<Alert['severity'], number>);
     
+    const byStatus: Record<AlertStatus, number> = { open: 0, acknowledged: 0, resolved: 0 };
+    this.alerts.forEach(alert => byStatus[alert.status]++);
+    
+    const meanDuration = (endField: 'acknowledgedAt' | 'resolvedAt'): number | null => {
+      const durations = this.alerts
+        .filter(a => a[endField])
+        .map(a => new Date(a[endField]!).getTime() - new Date(a.timestamp).getTime());
+      return durations.length > 0 ? durations.reduce((sum, d) => sum + d, 0) / durations.length : null;
+    };
+    
     return {
       total: this.alerts.length,
       unread: this.getUnreadCount(),
       byType,
       bySeverity,
+      byStatus,
+      autoResolved: this.alerts.filter(a => a.resolvedBy === 'system').length,
+      meanTimeToAcknowledgeMs: meanDuration('acknowledgedAt'),
+      meanTimeToResolveMs: meanDuration('resolvedAt'),
       last24Hours: this.alerts.filter(a => new Date(a.timestamp) > yesterday).length
     };
   }
@@ -195,39 +366,47 @@ export class AlertManager {
   /**
    * Generate test alert for development
    */
-  createTestAlert(store: StoreLocation): Alert {
+  createTestAlert(store: StoreLocation, imageUrl?: string): Alert {
+    const where = [
+      text('alert.location', { address: store.address }),
+      text('alert.time', { time: new Date().toISOString() })
+    ];
     const alertTypes = [
       {
         type: 'empty_shelf' as const,
-        title: `Empty Shelves: B-1, B-2 - ${store.name}`,
-        message: `The following shelves are empty: B-1, B-2\nLocation: ${store.address}\nTime: ${new Date().toLocaleString()}\n\nSee the attached image for review.`,
+        titleText: text('alert.emptyShelf.title', { shelf: 'B-1, B-2', store: store.name }),
+        messageText: [text('alert.emptyShelf.body', { shelf: 'B-1, B-2' }), ...where, text('alert.emptyShelf.image')],
         shelves: ['B-1', 'B-2'],
         confidence: Math.round(Math.random() * 30 + 70)
       },
       {
         type: 'temperature' as const,
-        title: `Temperature Alert - ${store.name}`,
-        message: `Temperature: 8.5°C (Threshold: 5.0°C)\nLocation: ${store.address}\nTime: ${new Date().toLocaleString()}`,
+        titleText: text('alert.test.temperature.title', { store: store.name }),
+        messageText: [text('alert.test.temperature', { value: 8.5, threshold: 5.0 }), ...where],
         temperature: 8.5,
         threshold: 5.0,
         confidence: Math.round(Math.random() * 20 + 80)
       },
       {
         type: 'equipment_failure' as const,
-        title: `Equipment Failure - ${store.name}`,
-        message: `HVAC system offline\nLocation: ${store.address}\nTime: ${new Date().toLocaleString()}`,
+        titleText: text('alert.test.equipment.title', { store: store.name }),
+        messageText: [text('alert.test.equipment.body'), ...where],
         confidence: 100
       }
     ];
 
-    const alertData = alertTypes[Math.floor(Math.random() * alertTypes.length)];
+    const { titleText, messageText, ...alertData } = alertTypes[Math.floor(Math.random() * alertTypes.length)];
     
     return this.addAlert({
       storeId: store.id,
       storeName: store.name,
       location: store.address,
-      imageUrl: 'https://via.placeholder.com/400x300/f3f4f6/6b7280?text=Raw+Camera+Image',
-      annotatedImageUrl: 'https://via.placeholder.com/400x300/fef2f2/ef4444?text=Detected+Issue',
+      title: localize(titleText),
+      message: messageText.map(localize).join('\n'),
+      titleText,
+      messageText,
+      imageUrl: imageUrl || placeholderImage(t('alert.test.rawImage'), '#f3f4f6', '#6b7280'),
+      annotatedImageUrl: imageUrl || placeholderImage(t('alert.test.detectedImage'), '#fef2f2', '#ef4444'),
       ...alertData
     });
   }
@@ -250,7 +429,7 @@ export class AlertManager {
     try {
       const data = JSON.parse(jsonData);
       if (data.alerts && Array.isArray(data.alerts)) {
-        this.alerts = data.alerts;
+        this.alerts = data.alerts.map((alert: Alert) => ({ ...alert, status: alert.status || 'open' }));
         this.saveToStorage();
         this.notifyListeners();
         return true;
@@ -262,15 +441,23 @@ export class AlertManager {
     }
   }
 
+  private markResolved(alert: Alert, by: string, note?: string): void {
+    alert.status = 'resolved';
+    alert.resolvedAt = new Date().toISOString();
+    alert.resolvedBy = by;
+    alert.resolutionNote = note;
+    alert.read = true;
+  }
+
   private notifyListeners(): void {
     this.listeners.forEach(listener => listener([...this.alerts]));
   }
 
   private saveToStorage(): void {
+    // Drop old alerts in memory too, so listeners see them go
+    this.alerts = this.alerts.slice(0, MAX_STORED_ALERTS);
     try {
-      // Keep only last 1000 alerts to prevent storage bloat
-      const alertsToSave = this.alerts.slice(0, 1000);
-      localStorage.setItem('pret-alerts', JSON.stringify(alertsToSave));
+      localStorage.setItem('pret-alerts', JSON.stringify(this.alerts));
     } catch (error) {
       console.warn('Failed to save alerts to storage:', error);
     }
@@ -285,72 +472,19 @@ export class AlertManager {
         this.alerts = this.alerts.filter(alert => 
           alert && alert.id && alert.type && alert.title && alert.message
         );
+        // Alerts saved before lifecycle tracking start out open
+        this.alerts.forEach(alert => {
+          alert.status = alert.status || 'open';
+          // Blob URLs from a previous session no longer resolve
+          if (alert.imageUrl?.startsWith('blob:')) delete alert.imageUrl;
+          if (alert.annotatedImageUrl?.startsWith('blob:')) delete alert.annotatedImageUrl;
+        });
       }
     } catch (error) {
       console.warn('Failed to load alerts from storage:', error);
       this.alerts = [];
     }
   }
-
-  private queueNotification(alert: Alert): void {
-    this.notificationQueue.push(alert);
-  }
-
-  private setupNotificationQueue(): void {
-    // Process notification queue every 2 seconds to avoid spam
-    setInterval(() => {
-      if (this.notificationQueue.length > 0) {
-        const alert = this.notificationQueue.shift()!;
-        this.sendPushNotification(alert);
-      }
-    }, 2000);
-  }
-
-  private async sendPushNotification(alert: Alert): Promise<void> {
-    if (!('serviceWorker' in navigator) || Notification.permission !== 'granted') {
-      return;
-    }
-
-    try {
-      const registration = await navigator.serviceWorker.ready;
-      
-      const payload: NotificationPayload = {
-        title: alert.title,
-        body: alert.message.split('\n')[0], // First line only for mobile
-        icon: './icon-192.png',
-        badge: './icon-192.png',
-        image: alert.imageUrl,
-        data: {
-          alertId: alert.id,
-          storeId: alert.storeId,
-          type: alert.type,
-          url: `/?alert=${alert.id}`
-        },
-        tag: `alert-${alert.type}-${alert.storeId}`,
-        requireInteraction: alert.severity === 'critical',
-        actions: [
-          {
-            action: 'view',
-            title: 'View Details'
-          },
-          {
-            action: 'dismiss',
-            title: 'Dismiss'
-          }
-        ]
-      };
-
-      await registration.showNotification(payload.title, payload);
-      
-      // Play notification sound for high priority alerts
-      if (alert.severity === 'critical' || alert.severity === 'high') {
-        playNotificationSound();
-      }
-      
-    } catch (error) {
-      console.error('Failed to send push notification:', error);
-    }
-  }
 }
 
 /**
@@ -372,6 +506,7 @@ export class SmartAlertFilter {
       fillPercent?: number;
       temperature?: number;
       confidence?: number;
+      threshold?: number;
     }
   ): boolean {
     const alertKey = `${storeId}-${type}`;
@@ -424,6 +559,7 @@ export class SmartAlertFilter {
       isBusinessHours?: boolean;
       fillPercent?: number;
       temperature?: number;
+      threshold?: number;
     }
   ): boolean {
     switch (type) {
@@ -431,8 +567,8 @@ export class SmartAlertFilter {
         // Suppress if person detected (likely restocking)
         if (context.personDetected) return true;
         
-        // Suppress if fill percentage is not critically low
-        if (context.fillPercent && context.fillPercent > 20) return true;
+        // Suppress if fill percentage is not critically low (rule threshold, if any)
+        if (context.fillPercent && context.fillPercent > (context.threshold ?? 20)) return true;
         
         // Suppress during non-business hours for minor issues
         if (!context.isBusinessHours && context.fillPercent && context.fillPercent > 10) {
@@ -441,17 +577,15 @@ export class SmartAlertFilter {
         
         break;
         
-      case 'temperature':
-        // Suppress minor temperature variations during business hours
-        if (context.isBusinessHours && context.temperature && Math.abs(context.temperature) < 3) {
-          return true;
-        }
+      case 'predicted_empty':
+        // Suppress if person detected (likely restocking)
+        if (context.personDetected) return true;
         
-        // Suppress very minor variations anytime
-        if (context.temperature && Math.abs(context.temperature) < 1) {
-          return true;
-        }
+        break;
         
+      case 'temperature':
+        // Temperature rules set their own range and minimum duration, so a
+        // reading they match is never minor: only repeats are suppressed
         break;
         
       case 'equipment_failure':
@@ -473,6 +607,7 @@ export class SmartAlertFilter {
     // Default suppression times
     const baseTimes = {
       'empty_shelf': 5 * 60 * 1000,      // 5 minutes
+      'predicted_empty': 15 * 60 * 1000, // 15 minutes
       'temperature': 10 * 60 * 1000,     // 10 minutes
       'equipment_failure': 2 * 60 * 1000  // 2 minutes
     };
@@ -490,6 +625,7 @@ export class SmartAlertFilter {
   private getMinConfidence(type: Alert['type']): number {
     const minConfidences = {
       'empty_shelf': 70,
+      'predicted_empty': 60,
       'temperature': 80,
       'equipment_failure': 90
     };
@@ -509,19 +645,69 @@ export class SmartAlertFilter {
   }
 }
 
+const NOTIFICATION_STORAGE_KEY = 'pret-notification-settings';
+const MAX_SUMMARY_TITLES = 3;
+
+/** How long "snooze all" pauses notifications */
+export const SNOOZE_DURATION_MS = 60 * 60 * 1000;
+
+const DEFAULT_SCHEDULE: NotificationSchedule = {
+  daysOff: [],
+  criticalOverride: true
+};
+
+export type QuietReason = 'snoozed' | 'quiet_hours' | 'day_off';
+
 /**
- * Alert notification manager with advanced features
+ * Alert Notification Manager - Sends push notifications for alerts, following
+ * the user's notification schedule
+ *
+ * During quiet hours, days off and snoozes, notifications are held instead of
+ * sent, except critical alerts when the user lets them through. Held alerts
+ * are sent as a single summary once notifications resume. The schedule is in
+ * this device's time and is kept per device, separate from the app settings.
  */
 export class AlertNotificationManager {
   private alertManager: AlertManager;
+  private permission: NotificationPermission = 'default';
   private isEnabled: boolean = true;
   private soundEnabled: boolean = true;
+  private schedule: NotificationSchedule = { ...DEFAULT_SCHEDULE };
+  private held: string[] = [];             // IDs of alerts waiting for the summary
+  private quietReason: QuietReason | null = null;
+  private listeners: Array<() => void> = [];
+  private checkInterval: ReturnType<typeof setInterval> | null = null;
   
   constructor(alertManager: AlertManager) {
     this.alertManager = alertManager;
     this.loadSettings();
   }
 
+  /**
+   * Ask for permission if not yet decided and register the service worker
+   * that shows notifications
+   */
+  async initialize(): Promise<void> {
+    if ('Notification' in window) {
+      this.permission = Notification.permission;
+      if (this.permission === 'default') {
+        await this.requestPermission();
+      }
+    }
+
+    if ('serviceWorker' in navigator) {
+      try {
+        await navigator.serviceWorker.register('./sw.js');
+        console.log('Service Worker registered');
+      } catch (error) {
+        console.error('Service Worker registration failed:', error);
+      }
+    }
+
+    this.quietReason = this.getQuietReason();
+    this.start();
+  }
+
   /**
    * Request notification permission
    */
@@ -531,40 +717,175 @@ export class AlertNotificationManager {
       return false;
     }
 
-    const permission = await Notification.requestPermission();
-    this.isEnabled = permission === 'granted';
-    this.saveSettings();
-    
-    return this.isEnabled;
+    this.permission = await Notification.requestPermission();
+    return this.permission === 'granted';
+  }
+
+  getPermission(): NotificationPermission | 'unsupported' {
+    return 'Notification' in window ? this.permission : 'unsupported';
   }
 
   /**
-   * Enable/disable notifications
+   * Apply the notification and sound app settings. Turning notifications
+   * off drops any held summary.
    */
-  setEnabled(enabled: boolean): void {
-    this.isEnabled = enabled;
-    this.saveSettings();
+  setPreferences(settings: Pick<AppSettings, 'notificationsEnabled' | 'soundEnabled'>): void {
+    this.isEnabled = settings.notificationsEnabled;
+    this.soundEnabled = settings.soundEnabled;
+    if (!this.isEnabled && this.held.length > 0) {
+      this.held = [];
+      this.saveSettings();
+    }
+  }
+
+  /**
+   * Check the summary and the quiet state on an interval, so the summary goes
+   * out when quiet hours end even if no new alert arrives
+   */
+  start(intervalMs: number = 60000): void {
+    this.stop();
+    this.checkInterval = setInterval(() => this.check(), intervalMs);
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  getSchedule(): NotificationSchedule {
+    return {
+      ...this.schedule,
+      ...(this.schedule.quietHours ? { quietHours: { ...this.schedule.quietHours } } : {}),
+      daysOff: [...this.schedule.daysOff]
+    };
   }
 
   /**
-   * Enable/disable notification sounds
+   * Change the schedule. Returns validation errors, empty on success.
    */
-  setSoundEnabled(enabled: boolean): void {
-    this.soundEnabled = enabled;
+  updateSchedule(updates: Partial<NotificationSchedule>): string[] {
+    const schedule = { ...this.schedule, ...updates };
+    const errors: string[] = [];
+
+    if (schedule.quietHours) {
+      const { start, end } = schedule.quietHours;
+      if (!isValidTime(start) || !isValidTime(end)) {
+        errors.push(t('quiet.error.times'));
+      } else if (start === end) {
+        errors.push(t('quiet.error.sameTime'));
+      }
+    }
+    if (schedule.daysOff.some(day => !(day in WEEKDAYS))) {
+      errors.push(t('quiet.error.daysOff'));
+    }
+    if (errors.length > 0) return errors;
+
+    if (!schedule.quietHours) delete schedule.quietHours;
+    this.schedule = schedule;
     this.saveSettings();
+    this.check();
+    return [];
+  }
+
+  /**
+   * Pause all notifications, e.g. for the next hour
+   */
+  snooze(durationMs: number = SNOOZE_DURATION_MS): void {
+    this.updateSchedule({ snoozedUntil: new Date(Date.now() + durationMs).toISOString() });
+  }
+
+  /**
+   * End a snooze early. Quiet hours and days off still apply.
+   */
+  resume(): void {
+    this.updateSchedule({ snoozedUntil: undefined });
+  }
+
+  /**
+   * Why notifications are paused right now, or null when they are not
+   */
+  getQuietReason(now: Date = new Date()): QuietReason | null {
+    const { snoozedUntil, quietHours, daysOff } = this.schedule;
+    if (snoozedUntil && new Date(snoozedUntil).getTime() > now.getTime()) {
+      return 'snoozed';
+    }
+
+    const local = getStoreTime({}, now);
+    if (quietHours) {
+      const start = toMinutes(quietHours.start);
+      const end = toMinutes(quietHours.end);
+      // Windows such as 22:00 -> 07:00 wrap past midnight
+      const quiet = start < end
+        ? local.minutes >= start && local.minutes < end
+        : local.minutes >= start || local.minutes < end;
+      if (quiet) return 'quiet_hours';
+    }
+    return daysOff.includes(local.weekday) ? 'day_off' : null;
+  }
+
+  /**
+   * Number of alerts waiting for the summary
+   */
+  getHeldCount(): number {
+    return this.held.length;
+  }
+
+  /**
+   * Notify the user of an alert now, or hold it for the summary while
+   * notifications are paused
+   */
+  async notify(alert: Alert, title: string = getAlertTitle(alert)): Promise<void> {
+    if (!this.isEnabled || this.permission !== 'granted') return;
+
+    const breaksThrough = alert.severity === 'critical' && this.schedule.criticalOverride;
+    if (this.getQuietReason() && !breaksThrough) {
+      if (!this.held.includes(alert.id)) {
+        this.held.push(alert.id);
+        this.saveSettings();
+        this.notifyListeners();
+      }
+      return;
+    }
+
+    const payload: NotificationPayload = {
+      title,
+      body: getAlertMessage(alert).split('\n')[0], // First line only for mobile
+      icon: './icon-192.png',
+      badge: './icon-192.png',
+      image: alert.imageUrl,
+      data: {
+        alertId: alert.id,
+        storeId: alert.storeId,
+        type: alert.type,
+        url: `?alert=${alert.id}`
+      },
+      tag: `alert-${alert.type}-${alert.storeId}`,
+      requireInteraction: alert.severity === 'critical',
+      actions: [
+        { action: 'view', title: t('notify.view') },
+        { action: 'dismiss', title: t('notify.dismiss') }
+      ]
+    };
+
+    // Play notification sound for high priority alerts
+    if (await this.show(payload) && this.soundEnabled && (alert.severity === 'critical' || alert.severity === 'high')) {
+      playNotificationSound();
+    }
   }
 
   /**
    * Test notification
    */
   async sendTestNotification(): Promise<void> {
-    if (!this.isEnabled) {
+    if (this.permission !== 'granted') {
       await this.requestPermission();
     }
 
-    if (this.isEnabled) {
-      new Notification('Pret Monitor Test', {
-        body: 'This is a test notification',
+    if (this.isEnabled && this.permission === 'granted') {
+      new Notification(t('notify.test.title'), {
+        body: t('notify.test.body'),
         icon: './icon-192.png',
         tag: 'test-notification'
       });
@@ -576,22 +897,90 @@ export class AlertNotificationManager {
   }
 
   /**
-   * Get notification settings
+   * Subscribe to changes in the quiet state and the held summary
    */
-  getSettings(): { enabled: boolean; soundEnabled: boolean } {
-    return {
-      enabled: this.isEnabled,
-      soundEnabled: this.soundEnabled
+  subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
     };
   }
 
+  /**
+   * Send the summary once notifications resume, and tell listeners when the
+   * quiet state changes
+   */
+  private check(): void {
+    const reason = this.getQuietReason();
+    const changed = reason !== this.quietReason;
+    this.quietReason = reason;
+
+    if (!reason && this.schedule.snoozedUntil) {
+      // Snooze is over
+      delete this.schedule.snoozedUntil;
+      this.saveSettings();
+    }
+
+    if (!reason && this.held.length > 0) {
+      this.sendSummary();
+    } else if (changed) {
+      this.notifyListeners();
+    }
+  }
+
+  /**
+   * One notification for everything held while quiet, listing the alerts
+   * that are still unresolved
+   */
+  private async sendSummary(): Promise<void> {
+    const heldIds = this.held;
+    this.held = [];
+    this.saveSettings();
+    this.notifyListeners();
+
+    const unresolved = this.alertManager.getAlerts()
+      .filter(alert => heldIds.includes(alert.id) && alert.status !== 'resolved');
+    const lines = unresolved.slice(0, MAX_SUMMARY_TITLES).map(alert => getAlertTitle(alert));
+    if (unresolved.length > MAX_SUMMARY_TITLES) {
+      lines.push(t('notify.summary.more', { count: unresolved.length - MAX_SUMMARY_TITLES }));
+    }
+
+    await this.show({
+      title: t('notify.summary.title', { count: heldIds.length }),
+      body: lines.length > 0 ? lines.join('\n') : t('notify.summary.resolved'),
+      icon: './icon-192.png',
+      badge: './icon-192.png',
+      data: { url: './' },
+      tag: 'alert-summary'
+    });
+  }
+
+  private async show(payload: NotificationPayload): Promise<boolean> {
+    if (!('serviceWorker' in navigator) || this.permission !== 'granted') {
+      return false;
+    }
+
+    try {
+      const registration = await navigator.serviceWorker.ready;
+      await registration.showNotification(payload.title, payload);
+      return true;
+    } catch (error) {
+      console.error('Failed to send push notification:', error);
+      return false;
+    }
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
   private loadSettings(): void {
     try {
-      const settings = localStorage.getItem('pret-notification-settings');
+      const settings = localStorage.getItem(NOTIFICATION_STORAGE_KEY);
       if (settings) {
         const parsed = JSON.parse(settings);
-        this.isEnabled = parsed.enabled ?? true;
-        this.soundEnabled = parsed.soundEnabled ?? true;
+        this.schedule = { ...DEFAULT_SCHEDULE, ...parsed.schedule };
+        this.held = Array.isArray(parsed.held) ? parsed.held : [];
       }
     } catch (error) {
       console.warn('Failed to load notification settings:', error);
@@ -601,12 +990,12 @@ export class AlertNotificationManager {
   private saveSettings(): void {
     try {
       const settings = {
-        enabled: this.isEnabled,
-        soundEnabled: this.soundEnabled
+        schedule: this.schedule,
+        held: this.held
       };
-      localStorage.setItem('pret-notification-settings', JSON.stringify(settings));
+      localStorage.setItem(NOTIFICATION_STORAGE_KEY, JSON.stringify(settings));
     } catch (error) {
       console.warn('Failed to save notification settings:', error);
     }
   }
-}
\ No newline at end of file
+}
@@ -1,42 +1,393 @@
 // src/camera.ts - Camera stream management
-import type { StoreLocation, CameraStream, CameraAnnotation } from './types';
+import type { Alert, StoreLocation, CameraStream, CameraAnnotation, MachineBackend, VideoQuality } from './types';
+import { t } from './i18n';
 
+/** How often the live view fetches a new frame */
+export const CAMERA_REFRESH_MS = 5000;
+
+/** Video quality presets; auto leaves the resolution to the camera */
+export const VIDEO_QUALITIES: Record<VideoQuality, { width?: number; height?: number }> = {
+  auto: {},
+  low: { width: 320, height: 240 },
+  medium: { width: 640, height: 480 },
+  high: { width: 1280, height: 720 }
+};
+
+/** Minimum confidence (percent) for a person detection to count */
+export const PERSON_MIN_CONFIDENCE = 60;
+
+/**
+ * Check whether detections put someone in front of the shelves
+ */
+export function isPersonPresent(annotations: CameraAnnotation[]): boolean {
+  return annotations.some(a => a.type === 'person' && a.confidence >= PERSON_MIN_CONFIDENCE);
+}
+
+/**
+ * Outline the shelves that have open empty or predicted-empty alerts.
+ * Alerts have no position of their own, so each is drawn over the shelf
+ * detection labelled with its region; alerts without one aren't drawn.
+ */
+export function withAlertAnnotations(annotations: CameraAnnotation[], alerts: Alert[]): CameraAnnotation[] {
+  const marked = annotations.filter(a => a.type === 'shelf').flatMap(shelf => {
+    const alert = alerts.find(a =>
+      a.status !== 'resolved' &&
+      (a.type === 'empty_shelf' || a.type === 'predicted_empty') &&
+      (a.component === shelf.label || a.shelves?.includes(shelf.label))
+    );
+    if (!alert) return [];
+
+    return [{
+      type: 'alert' as const,
+      bounds: shelf.bounds,
+      confidence: alert.confidence ?? shelf.confidence,
+      label: t(alert.type === 'empty_shelf' ? 'camera.annotation.empty' : 'camera.annotation.low', { shelf: shelf.label })
+    }];
+  });
+
+  return [...annotations, ...marked];
+}
+
+const ANNOTATION_COLORS: Record<CameraAnnotation['type'], string> = {
+  shelf: '#10b981',
+  person: '#3b82f6',
+  alert: '#ef4444'
+};
+
+/**
+ * Camera Manager - Keeps the latest frame and annotations per store
+ *
+ * Tiles show snapshots by default. Live video runs only while it is
+ * requested, the tile is visible and the store is connected; a stream that
+ * fails or ends drops the tile back to snapshots.
+ */
 export class CameraManager {
   private streams = new Map<string, CameraStream>();
-  
+  private backend: MachineBackend;
+  private inFlight = new Set<string>();
+  private videos = new Map<string, MediaStream>();
+  private videoAttempts = new Map<string, number>();
+  private listeners: Array<(stream: CameraStream) => void> = [];
+
+  constructor(backend: MachineBackend) {
+    this.backend = backend;
+  }
+
   async initializeCameraStream(store: StoreLocation): Promise<void> {
     try {
+      if (this.streams.has(store.id)) return;
+
       const stream: CameraStream = {
         storeId: store.id,
         isActive: false,
         lastFrame: undefined,
+        visible: true,
+        video: 'off',
+        videoQuality: 'auto',
         annotations: []
       };
-      
+
       this.streams.set(store.id, stream);
       console.log(`Camera stream initialized for ${store.name}`);
     } catch (error) {
       console.error(`Failed to initialize camera for ${store.name}:`, error);
     }
   }
-  
+
   getCameraStream(storeId: string): CameraStream | undefined {
     return this.streams.get(storeId);
   }
-  
+
+  /**
+   * Get the live video for a store while it is playing
+   */
+  getVideo(storeId: string): MediaStream | undefined {
+    return this.videos.get(storeId);
+  }
+
+  /**
+   * Fetch a new frame and its annotations. Skipped while paused, hidden or
+   * live, or while the previous fetch for the store is still running.
+   */
+  async refreshFrame(storeId: string): Promise<void> {
+    const stream = this.streams.get(storeId);
+    if (!stream || stream.paused || stream.visible === false || stream.video === 'live' || this.inFlight.has(storeId)) return;
+
+    this.inFlight.add(storeId);
+    try {
+      const [frame, annotations] = await Promise.all([
+        this.backend.getCameraFrame(storeId),
+        this.backend.getCameraAnnotations(storeId).catch(() => [] as CameraAnnotation[])
+      ]);
+
+      // Stream was removed or paused while the frame was in flight
+      if (this.streams.get(storeId) !== stream || stream.paused) {
+        this.revokeFrame(frame);
+        return;
+      }
+
+      if (frame) {
+        this.updateCameraFrame(storeId, frame, annotations);
+      } else {
+        this.stopCameraStream(storeId, t('camera.noFrame'));
+      }
+    } catch (error) {
+      console.error(`Failed to refresh camera for ${storeId}:`, error);
+      this.stopCameraStream(storeId, error instanceof Error ? error.message : String(error));
+    } finally {
+      this.inFlight.delete(storeId);
+    }
+  }
+
   updateCameraFrame(storeId: string, frameUrl: string, annotations?: CameraAnnotation[]): void {
     const stream = this.streams.get(storeId);
     if (stream) {
+      if (stream.lastFrame !== frameUrl) {
+        this.revokeFrame(stream.lastFrame);
+      }
       stream.lastFrame = frameUrl;
+      stream.lastFrameAt = new Date().toISOString();
       stream.annotations = annotations || [];
+      stream.lastError = undefined;
       stream.isActive = true;
+      this.notify(stream);
     }
   }
-  
-  stopCameraStream(storeId: string): void {
+
+  stopCameraStream(storeId: string, reason?: string): void {
     const stream = this.streams.get(storeId);
-    if (stream) {
+    if (stream && (stream.isActive || stream.lastError !== reason)) {
       stream.isActive = false;
+      stream.lastError = reason;
+      this.notify(stream);
+    }
+  }
+
+  /**
+   * Freeze the view on the current frame, or pick up live frames again
+   */
+  setPaused(storeId: string, paused: boolean): void {
+    const stream = this.streams.get(storeId);
+    if (stream && !!stream.paused !== paused) {
+      stream.paused = paused;
+      this.notify(stream);
+      if (!paused) {
+        this.refreshFrame(storeId);
+      }
+    }
+  }
+
+  /**
+   * Switch a tile to live video
+   */
+  startVideo(storeId: string): void {
+    const stream = this.streams.get(storeId);
+    if (!stream) return;
+
+    stream.videoRequested = true;
+    stream.videoError = undefined;
+    stream.paused = false;
+    if (stream.video === 'failed') {
+      stream.video = 'off';
+    }
+    this.notify(stream);
+    this.sync(storeId);
+  }
+
+  /**
+   * Switch a tile back to snapshots
+   */
+  stopVideo(storeId: string): void {
+    const stream = this.streams.get(storeId);
+    if (!stream || !stream.videoRequested) return;
+
+    stream.videoRequested = false;
+    this.closeVideo(stream, 'off');
+    this.notify(stream);
+    this.refreshFrame(storeId);
+  }
+
+  /**
+   * Change the video quality, restarting a running stream to apply it
+   */
+  setVideoQuality(storeId: string, quality: VideoQuality): void {
+    const stream = this.streams.get(storeId);
+    if (!stream || stream.videoQuality === quality) return;
+
+    stream.videoQuality = quality;
+    if (stream.video === 'live' || stream.video === 'starting') {
+      this.closeVideo(stream, 'off');
+    }
+    this.notify(stream);
+    this.sync(storeId);
+  }
+
+  /**
+   * Record whether a tile is on screen. Hidden tiles fetch nothing.
+   */
+  setVisible(storeId: string, visible: boolean): void {
+    const stream = this.streams.get(storeId);
+    if (!stream || stream.visible === visible) return;
+
+    stream.visible = visible;
+    this.sync(storeId);
+    if (visible) {
+      this.refreshFrame(storeId);
+    }
+  }
+
+  /**
+   * Start or stop live video to match what the tile wants and whether the
+   * store is reachable. Call again when the store connects or disconnects.
+   */
+  sync(storeId: string): void {
+    const stream = this.streams.get(storeId);
+    if (!stream) return;
+
+    const wanted = !!stream.videoRequested && stream.visible !== false && this.backend.isConnected(storeId);
+    if (wanted && (stream.video === 'off' || stream.video === undefined)) {
+      this.openVideo(stream);
+    } else if (!wanted && (stream.video === 'live' || stream.video === 'starting')) {
+      this.closeVideo(stream, 'off');
+      this.notify(stream);
+    }
+  }
+
+  /**
+   * Forget a store's stream and release its frame
+   */
+  removeCameraStream(storeId: string): void {
+    const stream = this.streams.get(storeId);
+    if (stream) {
+      this.closeVideo(stream, 'off');
+      this.streams.delete(storeId);
+      this.revokeFrame(stream.lastFrame);
+    }
+  }
+
+  /**
+   * Subscribe to frame and state changes
+   */
+  subscribe(listener: (stream: CameraStream) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private async openVideo(stream: CameraStream): Promise<void> {
+    const { storeId } = stream;
+    const attempt = (this.videoAttempts.get(storeId) || 0) + 1;
+    this.videoAttempts.set(storeId, attempt);
+
+    stream.video = 'starting';
+    this.notify(stream);
+
+    try {
+      const media = await this.backend.openVideoStream(storeId, stream.videoQuality || 'auto');
+
+      // Stopped, hidden or restarted while the stream was opening
+      if (this.videoAttempts.get(storeId) !== attempt || this.streams.get(storeId) !== stream) return;
+
+      this.videos.set(storeId, media);
+      stream.video = 'live';
+      media.getVideoTracks().forEach(track => {
+        track.addEventListener('ended', () => {
+          if (this.videos.get(storeId) === media) {
+            this.fallBackToSnapshots(stream, t('camera.videoEnded'));
+          }
+        });
+      });
+      this.notify(stream);
+    } catch (error) {
+      if (this.videoAttempts.get(storeId) !== attempt || this.streams.get(storeId) !== stream) return;
+
+      console.warn(`Live video failed for ${storeId}, showing snapshots:`, error);
+      this.fallBackToSnapshots(stream, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private fallBackToSnapshots(stream: CameraStream, reason: string): void {
+    this.closeVideo(stream, 'failed');
+    stream.videoRequested = false;
+    stream.videoError = reason;
+    this.notify(stream);
+    this.refreshFrame(stream.storeId);
+  }
+
+  private closeVideo(stream: CameraStream, state: 'off' | 'failed'): void {
+    const { storeId } = stream;
+    if (stream.video === 'live' || stream.video === 'starting') {
+      this.backend.closeVideoStream(storeId);
+    }
+
+    // Invalidate any stream still opening
+    this.videoAttempts.set(storeId, (this.videoAttempts.get(storeId) || 0) + 1);
+    this.videos.delete(storeId);
+    stream.video = state;
+  }
+
+  private revokeFrame(frameUrl: string | null | undefined): void {
+    if (frameUrl?.startsWith('blob:')) {
+      URL.revokeObjectURL(frameUrl);
+    }
+  }
+
+  private notify(stream: CameraStream): void {
+    const snapshot = { ...stream };
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+/**
+ * Camera Overlay - Draws annotation boxes over a camera frame
+ */
+export class CameraOverlay {
+  /**
+   * Size the canvas to the frame as displayed (object-fit: contain) and draw
+   * each annotation in frame coordinates with its label and confidence
+   */
+  static draw(canvas: HTMLCanvasElement, image: HTMLImageElement, annotations: CameraAnnotation[]): void {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    const { clientWidth, clientHeight } = canvas;
+    canvas.width = Math.round(clientWidth * ratio);
+    canvas.height = Math.round(clientHeight * ratio);
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, clientWidth, clientHeight);
+
+    if (!image.naturalWidth || !image.naturalHeight) return;
+
+    const scale = Math.min(clientWidth / image.naturalWidth, clientHeight / image.naturalHeight);
+    const offsetX = (clientWidth - image.naturalWidth * scale) / 2;
+    const offsetY = (clientHeight - image.naturalHeight * scale) / 2;
+
+    ctx.font = '12px sans-serif';
+    ctx.textBaseline = 'top';
+    ctx.lineWidth = 2;
+
+    for (const annotation of annotations) {
+      const color = ANNOTATION_COLORS[annotation.type];
+      const x = offsetX + annotation.bounds.x * scale;
+      const y = offsetY + annotation.bounds.y * scale;
+      const width = annotation.bounds.width * scale;
+      const height = annotation.bounds.height * scale;
+
+      ctx.strokeStyle = color;
+      ctx.setLineDash(annotation.type === 'alert' ? [6, 4] : []);
+      ctx.strokeRect(x, y, width, height);
+
+      const label = `${annotation.label} ${Math.round(annotation.confidence)}%`;
+      const labelWidth = ctx.measureText(label).width + 8;
+      // Alert labels sit inside the box so they don't cover the shelf label
+      const labelY = annotation.type === 'alert' ? y : Math.max(0, y - 18);
+
+      ctx.fillStyle = color;
+      ctx.fillRect(x, labelY, labelWidth, 18);
+      ctx.fillStyle = '#ffffff';
+      ctx.fillText(label, x + 4, labelY + 3);
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,108 @@
+// src/charts.ts - Lightweight SVG trend charts for sensor history
+import type { Alert, HistoryRange, HistorySample } from './types';
+import { datetime, escapeHtml, getAlertColor } from './utils';
+import { formatNumber, t } from './i18n';
+
+export const HISTORY_RANGES: Record<HistoryRange, number> = {
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000
+};
+
+export interface ChartMarker {
+  timestamp: number;
+  severity: Alert['severity'];
+  label: string;
+}
+
+export interface TrendChartOptions {
+  samples: HistorySample[];
+  start: number;
+  end: number;
+  unit: string;
+  thresholds?: number[];
+  markers?: ChartMarker[];
+  yDomain?: [number, number];  // fixed domain, otherwise fitted to data
+}
+
+const WIDTH = 320;
+const HEIGHT = 120;
+const PADDING = { top: 8, right: 8, bottom: 18, left: 32 };
+
+export class TrendChart {
+  /**
+   * Render a time-series line chart as SVG markup
+   */
+  static render(options: TrendChartOptions): string {
+    const { samples, start, end, unit } = options;
+    const thresholds = options.thresholds || [];
+    const markers = (options.markers || []).filter(m => m.timestamp >= start && m.timestamp <= end);
+
+    if (samples.length === 0) {
+      return `<div class="chart-empty">${t('chart.empty')}</div>`;
+    }
+
+    const [yMin, yMax] = options.yDomain || TrendChart.fitDomain(samples, thresholds);
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+    const x = (time: number) => PADDING.left + ((time - start) / (end - start)) * plotWidth;
+    const y = (v: number) => PADDING.top + (1 - (v - yMin) / (yMax - yMin)) * plotHeight;
+
+    const line = samples.map(s => `${x(s.timestamp).toFixed(1)},${y(s.value).toFixed(1)}`).join(' ');
+
+    // Shade the min/max envelope of downsampled samples
+    const ranged = samples.filter(s => s.min !== undefined && s.max !== undefined);
+    const band = ranged.length > 1
+      ? [
+          ...ranged.map(s => `${x(s.timestamp).toFixed(1)},${y(s.max!).toFixed(1)}`),
+          ...ranged.slice().reverse().map(s => `${x(s.timestamp).toFixed(1)},${y(s.min!).toFixed(1)}`)
+        ].join(' ')
+      : '';
+
+    const timeFormat = end - start > HISTORY_RANGES['24h'] ? 'short' : 'time';
+
+    return `
+      <svg class="trend-chart" viewBox="0 0 ${WIDTH} ${HEIGHT}" role="img">
+        <rect class="chart-plot" x="${PADDING.left}" y="${PADDING.top}" width="${plotWidth}" height="${plotHeight}" />
+        <text class="chart-axis" x="${PADDING.left - 4}" y="${PADDING.top + 4}" text-anchor="end">${formatNumber(yMax)}${unit}</text>
+        <text class="chart-axis" x="${PADDING.left - 4}" y="${PADDING.top + plotHeight}" text-anchor="end">${formatNumber(yMin)}${unit}</text>
+        <text class="chart-axis" x="${PADDING.left}" y="${HEIGHT - 4}">${datetime.formatDate(new Date(start), timeFormat)}</text>
+        <text class="chart-axis" x="${WIDTH - PADDING.right}" y="${HEIGHT - 4}" text-anchor="end">${datetime.formatDate(new Date(end), timeFormat)}</text>
+        ${band ? `<polygon class="chart-band" points="${band}" />` : ''}
+        ${thresholds.filter(v => v >= yMin && v <= yMax).map(v => `
+          <line class="chart-threshold" x1="${PADDING.left}" x2="${WIDTH - PADDING.right}" y1="${y(v).toFixed(1)}" y2="${y(v).toFixed(1)}">
+            <title>${t('chart.threshold', { value: `${formatNumber(v)}${unit}` })}</title>
+          </line>
+        `).join('')}
+        <polyline class="chart-line" points="${line}" />
+        ${markers.map(m => `
+          <line class="chart-marker" x1="${x(m.timestamp).toFixed(1)}" x2="${x(m.timestamp).toFixed(1)}" y1="${PADDING.top}" y2="${PADDING.top + plotHeight}" stroke="${getAlertColor(m.severity)}">
+            <title>${escapeHtml(m.label)}</title>
+          </line>
+          <circle class="chart-marker-dot" cx="${x(m.timestamp).toFixed(1)}" cy="${PADDING.top + 3}" r="3" fill="${getAlertColor(m.severity)}">
+            <title>${escapeHtml(m.label)}</title>
+          </circle>
+        `).join('')}
+      </svg>
+    `;
+  }
+
+  private static fitDomain(samples: HistorySample[], thresholds: number[]): [number, number] {
+    const values = [
+      ...samples.map(s => s.min ?? s.value),
+      ...samples.map(s => s.max ?? s.value),
+      ...thresholds
+    ];
+    let min = Math.min(...values);
+    let max = Math.max(...values);
+
+    if (max - min < 1) {
+      min -= 0.5;
+      max += 0.5;
+    }
+
+    const padding = (max - min) * 0.1;
+    return [Math.floor(min - padding), Math.ceil(max + padding)];
+  }
+}
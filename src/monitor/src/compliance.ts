@@ -0,0 +1,500 @@
+// src/compliance.ts - HACCP temperature compliance log
+import type {
+  AppSettings,
+  ComplianceDay,
+  ComplianceLimits,
+  ComplianceReport,
+  ComplianceSettings,
+  ComplianceSignOff,
+  SensorReading,
+  StoreLocation,
+  TemperatureCheckpoint,
+  TemperatureExcursion
+} from './types';
+import { convertTemperature, datetime, escapeHtml, generateId, validation } from './utils';
+import { addDays, fromStoreTime, getStoreTime, toMinutes } from './hours';
+import { formatShortDuration, formatTemp, getLocale, t } from './i18n';
+import type { AlertRulesEngine } from './rules';
+
+const STORAGE_KEY = 'pret-compliance';
+
+/** How long after its scheduled time a checkpoint can still be recorded */
+const CHECK_WINDOW_MS = 60 * 60 * 1000;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const DEFAULT_COMPLIANCE_SETTINGS: ComplianceSettings = {
+  minTemp: 0,
+  maxTemp: 5,
+  checkpointTimes: ['08:00', '12:00', '16:00', '20:00'],
+  retentionDays: 90
+};
+
+interface ComplianceDocument {
+  settings: ComplianceSettings;
+  checkpoints: TemperatureCheckpoint[];
+  excursions: TemperatureExcursion[];
+  signOffs: ComplianceSignOff[];
+  firstSeen: Record<string, number>;  // storeId|sensor -> first reading (epoch ms)
+}
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function distanceOutside(temperature: number, limits: ComplianceLimits): number {
+  return Math.max(limits.minTemp - temperature, temperature - limits.maxTemp, 0);
+}
+
+function formatTime(timestamp: string): string {
+  return datetime.formatDate(timestamp, 'time');
+}
+
+function formatExcursionDuration(excursion: TemperatureExcursion): string {
+  return excursion.endedAt
+    ? formatShortDuration(new Date(excursion.endedAt).getTime() - new Date(excursion.startedAt).getTime())
+    : t('compliance.ongoing');
+}
+
+/**
+ * Compliance Log - Documented fridge temperature checks
+ *
+ * Temperature polls record one checkpoint per sensor at each scheduled time
+ * of day, and every period a sensor spends outside the safe range. Times and
+ * days are the store's own; the safe range is the one the sensor's
+ * temperature rules set, or the default range for sensors without. Managers
+ * note the corrective action for each out-of-range period, then sign off
+ * the day. Checkpoints nobody recorded show up as missed in the report.
+ */
+export class ComplianceLog {
+  private rulesEngine: AlertRulesEngine;
+  private settings: ComplianceSettings = { ...DEFAULT_COMPLIANCE_SETTINGS };
+  private checkpoints: TemperatureCheckpoint[] = [];
+  private excursions: TemperatureExcursion[] = [];
+  private signOffs: ComplianceSignOff[] = [];
+  private firstSeen: Record<string, number> = {};
+
+  constructor(rulesEngine: AlertRulesEngine) {
+    this.rulesEngine = rulesEngine;
+    this.loadFromStorage();
+    this.prune();
+  }
+
+  getSettings(): ComplianceSettings {
+    return { ...this.settings, checkpointTimes: [...this.settings.checkpointTimes] };
+  }
+
+  /**
+   * The safe range for a sensor: its temperature rules' limits, with the
+   * default range filling in any limit they leave open
+   */
+  getLimits(storeId: string, sensor: string): ComplianceLimits {
+    const { min, max } = this.rulesEngine.getLimits(storeId, 'temperature', sensor);
+    return { minTemp: min ?? this.settings.minTemp, maxTemp: max ?? this.settings.maxTemp };
+  }
+
+  /**
+   * Validate settings. Returns error messages, empty when valid.
+   */
+  validateSettings(settings: Partial<ComplianceSettings>): string[] {
+    const errors: string[] = [];
+
+    if (!Number.isFinite(settings.minTemp) || !Number.isFinite(settings.maxTemp)) {
+      errors.push(t('compliance.error.range'));
+    } else if (settings.minTemp! >= settings.maxTemp!) {
+      errors.push(t('compliance.error.rangeOrder'));
+    }
+    if (!settings.checkpointTimes || settings.checkpointTimes.length === 0) {
+      errors.push(t('compliance.error.checkpoints'));
+    } else {
+      settings.checkpointTimes
+        .filter(time => !TIME_PATTERN.test(time))
+        .forEach(time => errors.push(t('compliance.error.checkpointTime', { time })));
+    }
+    if (!Number.isInteger(settings.retentionDays) || settings.retentionDays! < 1) {
+      errors.push(t('compliance.error.retention'));
+    }
+
+    return errors;
+  }
+
+  /**
+   * Save settings. Returns validation errors, empty on success.
+   */
+  saveSettings(settings: ComplianceSettings): string[] {
+    const errors = this.validateSettings(settings);
+    if (errors.length > 0) return errors;
+
+    this.settings = {
+      ...settings,
+      checkpointTimes: Array.from(new Set(settings.checkpointTimes)).sort()
+    };
+    this.prune();
+    this.saveToStorage();
+    return [];
+  }
+
+  /**
+   * Record a temperature poll: fills any checkpoint that is due and opens
+   * or closes out-of-range periods
+   */
+  record(store: StoreLocation, readings: SensorReading[], now: Date = new Date()): void {
+    let changed = false;
+    const storeId = store.id;
+    const due = this.getDueSlot(store, now);
+
+    for (const reading of readings) {
+      if (typeof reading.reading !== 'number') continue;
+
+      const sensor = reading.componentName;
+      const temperature = reading.reading;
+      const limits = this.getLimits(storeId, sensor);
+      const inRange = distanceOutside(temperature, limits) === 0;
+      const key = `${storeId}|${sensor}`;
+
+      if (this.firstSeen[key] === undefined) {
+        this.firstSeen[key] = now.getTime();
+        changed = true;
+      }
+
+      if (due && !this.checkpoints.some(c => c.storeId === storeId && c.sensor === sensor && c.date === due.date && c.slot === due.slot)) {
+        this.checkpoints.push({
+          id: generateId(),
+          storeId,
+          sensor,
+          date: due.date,
+          slot: due.slot,
+          recordedAt: now.toISOString(),
+          temperature,
+          inRange,
+          limits
+        });
+        changed = true;
+      }
+
+      const open = this.excursions.find(e => e.storeId === storeId && e.sensor === sensor && !e.endedAt);
+      if (!inRange && !open) {
+        this.excursions.push({ id: generateId(), storeId, sensor, startedAt: now.toISOString(), peak: temperature, limits });
+        changed = true;
+      } else if (!inRange && open && distanceOutside(temperature, limits) > distanceOutside(open.peak, open.limits || limits)) {
+        open.peak = temperature;
+        changed = true;
+      } else if (inRange && open) {
+        open.endedAt = now.toISOString();
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.saveToStorage();
+    }
+  }
+
+  /**
+   * Note the corrective action taken for an out-of-range period.
+   * Returns validation errors, empty on success.
+   */
+  addCorrectiveAction(excursionId: string, note: string, by: string): string[] {
+    const excursion = this.excursions.find(e => e.id === excursionId);
+    if (!excursion) return [t('compliance.error.excursionNotFound')];
+    if (validation.isEmpty(note)) return [t('compliance.error.noteRequired')];
+
+    excursion.correctiveAction = note.trim();
+    excursion.actionBy = by;
+    excursion.actionAt = new Date().toISOString();
+    this.saveToStorage();
+    return [];
+  }
+
+  /**
+   * Sign off a store's day. Every out-of-range period that day needs a
+   * corrective action first. Returns validation errors, empty on success.
+   */
+  signOff(store: StoreLocation, date: string, by: string, note?: string, now: Date = new Date()): string[] {
+    const storeId = store.id;
+    const existing = this.signOffs.find(s => s.storeId === storeId && s.date === date);
+    if (existing) return [t('compliance.error.alreadySignedOff', { name: existing.signedBy })];
+    if (date > getStoreTime(store, now).date) return [t('compliance.error.notStarted')];
+
+    const excursions = this.getExcursions(store, date);
+    const ongoing = excursions.filter(e => !e.endedAt);
+    const unactioned = excursions.filter(e => !e.correctiveAction);
+    const errors: string[] = [];
+    if (ongoing.length > 0) {
+      errors.push(t('compliance.error.ongoing', { sensors: ongoing.map(e => e.sensor).join(', ') }));
+    }
+    if (unactioned.length > 0) {
+      errors.push(t('compliance.error.unactioned', { count: unactioned.length }));
+    }
+    if (errors.length > 0) return errors;
+
+    this.signOffs.push({
+      storeId,
+      date,
+      signedBy: by,
+      signedAt: now.toISOString(),
+      ...(note?.trim() ? { note: note.trim() } : {})
+    });
+    this.saveToStorage();
+    return [];
+  }
+
+  /**
+   * Everything recorded for a store on one day, with the checkpoints missed
+   */
+  getDay(store: StoreLocation, date: string, now: Date = new Date()): ComplianceDay {
+    const storeId = store.id;
+    const checkpoints = this.checkpoints
+      .filter(c => c.storeId === storeId && c.date === date)
+      .sort((a, b) => a.sensor.localeCompare(b.sensor) || a.slot.localeCompare(b.slot));
+    const dayEnd = fromStoreTime(store, addDays(date, 1)).getTime();
+
+    // Sensors we were already watching that day
+    const sensors = Object.entries(this.firstSeen)
+      .filter(([key, firstSeen]) => key.startsWith(`${storeId}|`) && firstSeen < dayEnd)
+      .map(([key]) => key.slice(storeId.length + 1));
+    checkpoints.forEach(c => {
+      if (!sensors.includes(c.sensor)) sensors.push(c.sensor);
+    });
+    sensors.sort();
+
+    const missed: ComplianceDay['missed'] = [];
+    const limits: ComplianceDay['limits'] = {};
+    for (const sensor of sensors) {
+      // The range the day's last checkpoint used, as rules may since have changed
+      const last = checkpoints.filter(c => c.sensor === sensor && c.limits).pop();
+      limits[sensor] = last?.limits || this.getLimits(storeId, sensor);
+
+      const firstSeen = this.firstSeen[`${storeId}|${sensor}`] ?? 0;
+      for (const slot of this.settings.checkpointTimes) {
+        const windowEnd = fromStoreTime(store, date, slot).getTime() + CHECK_WINDOW_MS;
+        if (windowEnd < now.getTime() && windowEnd > firstSeen && !checkpoints.some(c => c.sensor === sensor && c.slot === slot)) {
+          missed.push({ sensor, slot });
+        }
+      }
+    }
+
+    return {
+      date,
+      sensors,
+      checkpoints,
+      missed,
+      limits,
+      excursions: this.getExcursions(store, date),
+      signOff: this.signOffs.find(s => s.storeId === storeId && s.date === date)
+    };
+  }
+
+  /**
+   * Build the compliance report for a store and an inclusive date range
+   */
+  buildReport(store: StoreLocation, from: string, to: string, now: Date = new Date()): ComplianceReport {
+    const today = getStoreTime(store, now).date;
+    const last = to > today ? today : to;
+    const days: ComplianceDay[] = [];
+
+    for (let day = from; day <= last; day = addDays(day, 1)) {
+      days.push(this.getDay(store, day, now));
+    }
+
+    return {
+      storeId: store.id,
+      storeName: store.name,
+      from,
+      to: last,
+      settings: this.getSettings(),
+      days,
+      generatedAt: now.toISOString()
+    };
+  }
+
+  /**
+   * One row per checkpoint, missed checkpoint, out-of-range period and sign-off
+   */
+  toCsv(report: ComplianceReport, unit: AppSettings['temperatureUnit'] = 'C'): string {
+    const temperature = (temp: number) => convertTemperature(temp, unit).toFixed(1);
+    const range = (limits: ComplianceLimits | undefined) =>
+      limits ? t('compliance.range', { min: temperature(limits.minTemp), max: temperature(limits.maxTemp) }) : '';
+    const rows: Array<Array<string | number | undefined>> = [[
+      t('report.csv.date'), t('report.csv.record'), t('compliance.sensor'), t('report.csv.scheduled'), t('report.csv.time'),
+      t('report.csv.temperature', { unit }), t('report.csv.range', { unit }), t('report.csv.status'), t('report.csv.note'), t('report.csv.by')
+    ]];
+
+    for (const day of report.days) {
+      day.checkpoints.forEach(c => rows.push([
+        day.date, t('report.csv.checkpoint'), c.sensor, c.slot, formatTime(c.recordedAt), temperature(c.temperature),
+        range(c.limits || day.limits[c.sensor]), c.inRange ? t('report.csv.ok') : t('report.csv.outOfRange'), '', ''
+      ]));
+      day.missed.forEach(m => rows.push([
+        day.date, t('report.csv.checkpoint'), m.sensor, m.slot, '', '', range(day.limits[m.sensor]), t('compliance.missed'), '', ''
+      ]));
+      day.excursions.forEach(e => rows.push([
+        day.date, t('report.csv.excursion'), e.sensor, '',
+        `${formatTime(e.startedAt)}-${e.endedAt ? formatTime(e.endedAt) : ''}`, temperature(e.peak),
+        range(e.limits || day.limits[e.sensor]), t('report.csv.outOfRangeFor', { duration: formatExcursionDuration(e) }), e.correctiveAction, e.actionBy
+      ]));
+      rows.push(day.signOff
+        ? [day.date, t('report.csv.signOff'), '', '', formatTime(day.signOff.signedAt), '', '', t('report.csv.signedOff'), day.signOff.note, day.signOff.signedBy]
+        : [day.date, t('report.csv.signOff'), '', '', '', '', '', t('report.notSignedOff'), '', '']);
+    }
+
+    return rows.map(row => row.map(csvField).join(',')).join('\n');
+  }
+
+  /**
+   * Standalone HTML document of the report, laid out for printing, in the
+   * current language and temperature unit
+   */
+  toHtml(report: ComplianceReport): string {
+    const { settings } = report;
+    const days = report.days.map(day => {
+      const cell = (sensor: string, slot: string) => {
+        const checkpoint = day.checkpoints.find(c => c.sensor === sensor && c.slot === slot);
+        if (checkpoint) {
+          return `<td class="${checkpoint.inRange ? '' : 'out'}">${formatTemp(checkpoint.temperature)}<br><small>${formatTime(checkpoint.recordedAt)}</small></td>`;
+        }
+        return day.missed.some(m => m.sensor === sensor && m.slot === slot) ? `<td class="missed">${t('compliance.missed')}</td>` : '<td>—</td>';
+      };
+
+      return `
+        <section>
+          <h2>${datetime.formatDate(`${day.date}T00:00`, 'long')}</h2>
+          ${day.sensors.length > 0 ? `
+            <table>
+              <tr><th>${t('compliance.sensor')}</th>${settings.checkpointTimes.map(slot => `<th>${slot}</th>`).join('')}</tr>
+              ${day.sensors.map(sensor => `
+                <tr>
+                  <td>${escapeHtml(sensor)}<br><small>${t('compliance.range', { min: formatTemp(day.limits[sensor].minTemp), max: formatTemp(day.limits[sensor].maxTemp) })}</small></td>
+                  ${settings.checkpointTimes.map(slot => cell(sensor, slot)).join('')}
+                </tr>
+              `).join('')}
+            </table>
+          ` : `<p>${t('compliance.noSensors')}</p>`}
+          ${day.excursions.length > 0 ? `
+            <h3>${t('report.excursions')}</h3>
+            <table>
+              <tr><th>${t('compliance.sensor')}</th><th>${t('report.period')}</th><th>${t('report.peak')}</th><th>${t('report.correctiveAction')}</th></tr>
+              ${day.excursions.map(e => `
+                <tr>
+                  <td>${escapeHtml(e.sensor)}</td>
+                  <td>${formatTime(e.startedAt)}–${e.endedAt ? formatTime(e.endedAt) : t('compliance.ongoing')} (${formatExcursionDuration(e)})</td>
+                  <td class="out">${formatTemp(e.peak)}</td>
+                  <td>${e.correctiveAction ? `${escapeHtml(e.correctiveAction)}<br><small>${escapeHtml(e.actionBy || '')}</small>` : `<em>${t('report.noneRecorded')}</em>`}</td>
+                </tr>
+              `).join('')}
+            </table>
+          ` : ''}
+          <p class="signoff">
+            ${day.signOff
+              ? `${t('report.signedOff', { name: `<strong>${escapeHtml(day.signOff.signedBy)}</strong>`, time: formatTime(day.signOff.signedAt) })}${day.signOff.note ? ` — ${escapeHtml(day.signOff.note)}` : ''}`
+              : `<strong>${t('report.notSignedOff')}</strong>`}
+          </p>
+        </section>
+      `;
+    }).join('');
+
+    return `<!DOCTYPE html>
+<html lang="${getLocale()}">
+<head>
+  <meta charset="utf-8">
+  <title>${t('report.title', { store: escapeHtml(report.storeName), from: report.from, to: report.to })}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #111827; margin: 2rem; }
+    h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+    h2 { font-size: 1.125rem; margin-top: 1.5rem; }
+    h3 { font-size: 1rem; }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 0.75rem; }
+    th, td { border: 1px solid #d1d5db; padding: 0.25rem 0.5rem; text-align: left; font-size: 0.875rem; vertical-align: top; }
+    th { background: #f3f4f6; }
+    .out { color: #b91c1c; font-weight: 600; }
+    .missed { color: #b45309; }
+    .meta { color: #4b5563; font-size: 0.875rem; }
+    section { page-break-inside: avoid; }
+  </style>
+</head>
+<body>
+  <h1>${t('report.heading', { store: escapeHtml(report.storeName) })}</h1>
+  <p class="meta">
+    ${t('report.meta', {
+      from: report.from,
+      to: report.to,
+      min: formatTemp(settings.minTemp),
+      max: formatTemp(settings.maxTemp),
+      times: settings.checkpointTimes.join(', '),
+      generated: new Date(report.generatedAt).toLocaleString(getLocale())
+    })}
+  </p>
+  ${days || `<p>${t('report.noDays')}</p>`}
+</body>
+</html>`;
+  }
+
+  private getExcursions(store: StoreLocation, date: string): TemperatureExcursion[] {
+    return this.excursions
+      .filter(e => e.storeId === store.id && getStoreTime(store, new Date(e.startedAt)).date === date)
+      .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  }
+
+  /**
+   * The checkpoint slot whose recording window `now` falls in at the store, if any
+   */
+  private getDueSlot(store: StoreLocation, now: Date): { date: string; slot: string } | null {
+    const local = getStoreTime(store, now);
+    const windowMinutes = CHECK_WINDOW_MS / 60000;
+
+    // Yesterday's last slot can still be open just after midnight
+    for (const [date, minutes] of [[local.date, local.minutes], [addDays(local.date, -1), local.minutes + 24 * 60]] as const) {
+      for (const slot of [...this.settings.checkpointTimes].reverse()) {
+        const elapsed = minutes - toMinutes(slot);
+        if (elapsed >= 0 && elapsed < windowMinutes) {
+          return { date, slot };
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Drop records older than the retention period
+   */
+  private prune(now: Date = new Date()): void {
+    // To the day on this device; a store a time zone away keeps a day more or less
+    const cutoffKey = addDays(getStoreTime({}, now).date, -this.settings.retentionDays);
+
+    this.checkpoints = this.checkpoints.filter(c => c.date >= cutoffKey);
+    this.excursions = this.excursions.filter(e => !e.endedAt || getStoreTime({}, new Date(e.startedAt)).date >= cutoffKey);
+    this.signOffs = this.signOffs.filter(s => s.date >= cutoffKey);
+  }
+
+  private saveToStorage(): void {
+    try {
+      const document: ComplianceDocument = {
+        settings: this.settings,
+        checkpoints: this.checkpoints,
+        excursions: this.excursions,
+        signOffs: this.signOffs,
+        firstSeen: this.firstSeen
+      };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(document));
+    } catch (error) {
+      console.warn('Failed to save compliance log:', error);
+    }
+  }
+
+  private loadFromStorage(): void {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const document: Partial<ComplianceDocument> = JSON.parse(stored);
+        this.settings = { ...DEFAULT_COMPLIANCE_SETTINGS, ...document.settings };
+        this.checkpoints = document.checkpoints || [];
+        this.excursions = document.excursions || [];
+        this.signOffs = document.signOffs || [];
+        this.firstSeen = document.firstSeen || {};
+      }
+    } catch (error) {
+      console.warn('Failed to load compliance log:', error);
+    }
+  }
+}
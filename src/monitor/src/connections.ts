@@ -0,0 +1,478 @@
+// src/connections.ts - Supervised Viam machine connections per store
+import * as VIAM from "@viamrobotics/sdk";
+import type { CameraAnnotation, ConnectionOptions, ConnectionStatus, MachineBackend, SensorReading, StoreLocation, VideoQuality } from './types';
+import type { CredentialStore } from './credentials';
+import { VIDEO_QUALITIES } from './camera';
+import { withTimeout } from './utils';
+
+/** Annotated camera from the fill-percent module */
+const CAMERA_NAME = 'fill-camera';
+
+const DEFAULT_OPTIONS: ConnectionOptions = {
+  heartbeatIntervalMs: 15000,
+  heartbeatTimeoutMs: 5000,
+  maxMissedHeartbeats: 2,
+  initialBackoffMs: 2000,
+  maxBackoffMs: 5 * 60 * 1000,
+  backoffMultiplier: 2
+};
+
+interface SupervisedConnection {
+  store: StoreLocation;
+  client: VIAM.RobotClient | null;
+  streamClient: VIAM.StreamClient | null;
+  status: ConnectionStatus;
+  missedHeartbeats: number;
+  heartbeatTimer: ReturnType<typeof setInterval> | null;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Map a connection state onto the store status badge
+ */
+export function toStoreStatus(status: ConnectionStatus | undefined): StoreLocation['status'] {
+  switch (status?.state) {
+    case 'connected': return 'online';
+    case 'offline': return 'offline';
+    case 'connecting': return status.attempts > 0 ? 'reconnecting' : 'unknown';
+    default: return 'unknown';
+  }
+}
+
+/**
+ * Whether two versions of a store reach the same machine the same way, so an
+ * open connection for one can serve the other
+ */
+export function isSameConnection(a: StoreLocation, b: StoreLocation): boolean {
+  return a.machineId === b.machineId && a.hostname === b.hostname;
+}
+
+/**
+ * Machine Connection Manager - Handles multiple Viam connections
+ *
+ * Each store connection is supervised: a heartbeat checks the machine is
+ * still answering, and lost or failed connections are retried with
+ * exponential backoff until the store is disconnected. Every store connects
+ * to its own machine address with the credentials resolved for its machine.
+ */
+export class MachineConnectionManager implements MachineBackend {
+  private connections = new Map<string, SupervisedConnection>();
+  private credentials: CredentialStore;
+  private options: ConnectionOptions;
+  private listeners: Array<(status: ConnectionStatus) => void> = [];
+
+  constructor(credentials: CredentialStore, options: Partial<ConnectionOptions> = {}) {
+    this.credentials = credentials;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async initialize(): Promise<void> {
+    // Don't wait out the backoff once the network is back
+    window.addEventListener('online', () => this.retryAll());
+  }
+
+  /**
+   * Connect to a store and keep the connection supervised
+   */
+  async connectToStore(store: StoreLocation): Promise<boolean> {
+    const existing = this.connections.get(store.id);
+    if (existing && !isSameConnection(existing.store, store)) {
+      this.disconnectStore(store.id);
+    } else if (existing) {
+      existing.store = store;
+      if (existing.status.state === 'connected') return true;
+      if (existing.status.state === 'connecting') return false;
+      return this.attempt(existing);
+    }
+
+    const connection: SupervisedConnection = {
+      store,
+      client: null,
+      streamClient: null,
+      status: { storeId: store.id, state: 'connecting', attempts: 0 },
+      missedHeartbeats: 0,
+      heartbeatTimer: null,
+      retryTimer: null
+    };
+    this.connections.set(store.id, connection);
+    return this.attempt(connection);
+  }
+
+  /**
+   * Close a store connection and stop supervising it
+   */
+  disconnectStore(storeId: string): void {
+    const connection = this.connections.get(storeId);
+    if (!connection) return;
+
+    this.connections.delete(storeId);
+    this.stopTimers(connection);
+    this.closeClient(connection);
+    this.setStatus(connection, { state: 'disconnected', nextRetryAt: undefined });
+  }
+
+  /**
+   * Retry an offline store immediately instead of waiting out its backoff
+   */
+  async retryNow(storeId: string): Promise<boolean> {
+    const connection = this.connections.get(storeId);
+    if (!connection || connection.status.state !== 'offline') return false;
+    return this.attempt(connection);
+  }
+
+  isConnected(storeId: string): boolean {
+    return this.connections.get(storeId)?.status.state === 'connected';
+  }
+
+  getStatus(storeId: string): ConnectionStatus | undefined {
+    const connection = this.connections.get(storeId);
+    return connection ? { ...connection.status } : undefined;
+  }
+
+  /**
+   * Subscribe to connection state changes
+   */
+  subscribe(listener: (status: ConnectionStatus) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  async getSensorData(storeId: string): Promise<SensorReading[]> {
+    const client = this.getClient(storeId);
+    if (!client) return [];
+
+    try {
+      // Get fill percentage sensor readings
+      const fillSensor = await client.getResource('sensor', 'fill-sensor');
+      const readings = await fillSensor.getReadings();
+
+      return Object.entries(readings).map(([region, percentage]) => ({
+        componentName: region,
+        reading: percentage,
+        timestamp: new Date().toISOString(),
+        machineId: storeId
+      }));
+    } catch (error) {
+      console.error(`Failed to get sensor data for ${storeId}:`, error);
+      this.checkHealth(storeId);
+      return [];
+    }
+  }
+
+  async getCameraFrame(storeId: string): Promise<string | null> {
+    const client = this.getClient(storeId);
+    if (!client) return null;
+
+    try {
+      // Get annotated camera feed from fill-percent-camera
+      const camera = await client.getResource('camera', CAMERA_NAME);
+      const image = await camera.getImage();
+
+      // Convert to base64 data URL
+      const blob = new Blob([image], { type: 'image/jpeg' });
+      return URL.createObjectURL(blob);
+    } catch (error) {
+      console.error(`Failed to get camera frame for ${storeId}:`, error);
+      this.checkHealth(storeId);
+      return null;
+    }
+  }
+
+  /**
+   * Detections from the store's vision service, if one is configured:
+   * people, and every other class as a shelf box labelled with the class
+   * name, which is how shelf regions are matched to open alerts.
+   */
+  async getCameraAnnotations(storeId: string): Promise<CameraAnnotation[]> {
+    const visionService = this.connections.get(storeId)?.store.visionService;
+    const client = this.getClient(storeId);
+    if (!visionService || !client) return [];
+
+    try {
+      const vision = new VIAM.VisionClient(client, visionService);
+      const detections = await vision.getDetectionsFromCamera(CAMERA_NAME);
+
+      return detections.map(detection => {
+        const xMin = Number(detection.xMin ?? 0);
+        const yMin = Number(detection.yMin ?? 0);
+        const person = detection.className.toLowerCase() === 'person';
+        return {
+          type: person ? 'person' as const : 'shelf' as const,
+          bounds: {
+            x: xMin,
+            y: yMin,
+            width: Number(detection.xMax ?? xMin) - xMin,
+            height: Number(detection.yMax ?? yMin) - yMin
+          },
+          confidence: Math.round(detection.confidence * 100),
+          label: person ? 'person' : detection.className
+        };
+      });
+    } catch (error) {
+      console.error(`Failed to get detections for ${storeId}:`, error);
+      this.checkHealth(storeId);
+      return [];
+    }
+  }
+
+  /**
+   * Open a WebRTC video stream from the store camera at the closest
+   * resolution the camera offers for the requested quality
+   */
+  async openVideoStream(storeId: string, quality: VideoQuality): Promise<MediaStream> {
+    const connection = this.connections.get(storeId);
+    const client = this.getClient(storeId);
+    if (!connection || !client) {
+      throw new Error('Store is not connected');
+    }
+
+    if (!connection.streamClient) {
+      connection.streamClient = new VIAM.StreamClient(client);
+    }
+    const streamClient = connection.streamClient;
+
+    await this.applyVideoQuality(streamClient, quality);
+    return streamClient.getStream(CAMERA_NAME);
+  }
+
+  closeVideoStream(storeId: string): void {
+    const streamClient = this.connections.get(storeId)?.streamClient;
+    streamClient?.remove(CAMERA_NAME).catch(error => {
+      console.warn(`Failed to close video stream for ${storeId}:`, error);
+    });
+  }
+
+  async getTemperatureData(storeId: string): Promise<SensorReading[]> {
+    const client = this.getClient(storeId);
+    if (!client) return [];
+
+    try {
+      // Get LoRaWAN temperature sensors
+      const tempSensors = (await client.resourceNames()).filter(name =>
+        name.namespace === 'viam' &&
+        name.type === 'sensor' &&
+        name.name.includes('temp')
+      );
+
+      const readings: SensorReading[] = [];
+      for (const sensorName of tempSensors) {
+        const sensor = await client.getResource('sensor', sensorName.name);
+        const data = await sensor.getReadings();
+
+        if (data.TempC_SHT !== undefined) {
+          readings.push({
+            componentName: sensorName.name,
+            reading: data.TempC_SHT,
+            timestamp: new Date().toISOString(),
+            machineId: storeId
+          });
+        }
+      }
+
+      return readings;
+    } catch (error) {
+      console.error(`Failed to get temperature data for ${storeId}:`, error);
+      this.checkHealth(storeId);
+      return [];
+    }
+  }
+
+  private getClient(storeId: string): VIAM.RobotClient | null {
+    const connection = this.connections.get(storeId);
+    return connection?.status.state === 'connected' ? connection.client : null;
+  }
+
+  /**
+   * Pick the largest offered resolution that fits the quality. A camera that
+   * can't change resolution keeps streaming at its default.
+   */
+  private async applyVideoQuality(streamClient: VIAM.StreamClient, quality: VideoQuality): Promise<void> {
+    const target = VIDEO_QUALITIES[quality];
+
+    try {
+      if (!target.width || !target.height) {
+        await streamClient.resetOptions(CAMERA_NAME);
+        return;
+      }
+
+      const resolutions = await streamClient.getOptions(CAMERA_NAME);
+      if (resolutions.length === 0) return;
+
+      const bySize = [...resolutions].sort((a, b) => a.width - b.width);
+      const fitting = bySize.filter(r => r.width <= target.width! && r.height <= target.height!);
+      const resolution = fitting.length > 0 ? fitting[fitting.length - 1] : bySize[0];
+      await streamClient.setOptions(CAMERA_NAME, resolution.width, resolution.height);
+    } catch (error) {
+      console.warn(`Failed to set video quality to ${quality}:`, error);
+    }
+  }
+
+  private async attempt(connection: SupervisedConnection): Promise<boolean> {
+    const { store } = connection;
+    this.stopTimers(connection);
+    this.setStatus(connection, { state: 'connecting', nextRetryAt: undefined });
+
+    try {
+      const client = await this.openConnection(store);
+
+      // Store was disconnected while we were connecting
+      if (this.connections.get(store.id) !== connection) {
+        client.disconnect().catch(() => undefined);
+        return false;
+      }
+
+      const now = new Date().toISOString();
+      connection.client = client;
+      connection.missedHeartbeats = 0;
+      this.setStatus(connection, {
+        state: 'connected',
+        attempts: 0,
+        connectedAt: now,
+        lastHeartbeat: now,
+        offlineSince: undefined,
+        lastError: undefined
+      });
+      connection.heartbeatTimer = setInterval(() => this.heartbeat(connection), this.options.heartbeatIntervalMs);
+
+      console.log(`Connected to ${store.name}`);
+      return true;
+    } catch (error) {
+      console.error(`Failed to connect to ${store.name}:`, error);
+      if (this.connections.get(store.id) === connection) {
+        this.scheduleReconnect(connection, error);
+      }
+      return false;
+    }
+  }
+
+  private async openConnection(store: StoreLocation): Promise<VIAM.RobotClient> {
+    const credentials = this.credentials.resolve(store.machineId);
+    if (!credentials) {
+      throw new Error(`No credentials for machine ${store.machineId}`);
+    }
+
+    const opts: VIAM.ViamClientOptions = {
+      serviceHost: "https://app.viam.com",
+      credentials: {
+        type: "api-key",
+        authEntity: credentials.id,
+        payload: credentials.key,
+      },
+    };
+
+    const client = await VIAM.createViamClient(opts);
+    const hostname = store.hostname || credentials.hostname || await this.lookupHostname(client, store.machineId);
+
+    return client.connectToMachine({
+      host: hostname,
+      credentials: {
+        type: "api-key",
+        authEntity: credentials.id,
+        payload: credentials.key,
+      }
+    });
+  }
+
+  /**
+   * Find the address of a machine's main part in the Viam app
+   */
+  private async lookupHostname(client: VIAM.ViamClient, machineId: string): Promise<string> {
+    const parts = await client.appClient.getRobotParts(machineId);
+    const mainPart = parts.find(part => part.mainPart) || parts[0];
+    if (!mainPart?.fqdn) {
+      throw new Error(`Machine ${machineId} not found`);
+    }
+    return mainPart.fqdn;
+  }
+
+  private async heartbeat(connection: SupervisedConnection): Promise<void> {
+    const client = connection.client;
+    if (!client || connection.status.state !== 'connected') return;
+
+    try {
+      await withTimeout(client.resourceNames(), this.options.heartbeatTimeoutMs, 'Heartbeat timed out');
+      connection.missedHeartbeats = 0;
+      this.setStatus(connection, { lastHeartbeat: new Date().toISOString() });
+    } catch (error) {
+      // A replaced or closed client may still answer late
+      if (connection.client !== client || connection.status.state !== 'connected') return;
+
+      connection.missedHeartbeats++;
+      console.warn(`Missed heartbeat ${connection.missedHeartbeats} for ${connection.store.name}:`, error);
+
+      if (connection.missedHeartbeats >= this.options.maxMissedHeartbeats) {
+        console.warn(`Lost connection to ${connection.store.name}, reconnecting`);
+        this.stopTimers(connection);
+        this.closeClient(connection);
+        this.scheduleReconnect(connection, error);
+      }
+    }
+  }
+
+  /**
+   * A data call failed: check the machine now rather than at the next heartbeat
+   */
+  private checkHealth(storeId: string): void {
+    const connection = this.connections.get(storeId);
+    if (connection) {
+      this.heartbeat(connection);
+    }
+  }
+
+  private scheduleReconnect(connection: SupervisedConnection, error: unknown): void {
+    const attempts = connection.status.attempts + 1;
+    const base = Math.min(
+      this.options.maxBackoffMs,
+      this.options.initialBackoffMs * Math.pow(this.options.backoffMultiplier, attempts - 1)
+    );
+    // ±20% jitter so stores behind the same router don't retry in lockstep
+    const delay = Math.round(base * (0.8 + Math.random() * 0.4));
+
+    this.setStatus(connection, {
+      state: 'offline',
+      attempts,
+      offlineSince: connection.status.offlineSince || new Date().toISOString(),
+      lastError: error instanceof Error ? error.message : String(error),
+      nextRetryAt: new Date(Date.now() + delay).toISOString()
+    });
+
+    connection.retryTimer = setTimeout(() => this.attempt(connection), delay);
+  }
+
+  private retryAll(): void {
+    for (const connection of this.connections.values()) {
+      if (connection.status.state === 'offline') {
+        this.attempt(connection);
+      }
+    }
+  }
+
+  private stopTimers(connection: SupervisedConnection): void {
+    if (connection.heartbeatTimer) {
+      clearInterval(connection.heartbeatTimer);
+      connection.heartbeatTimer = null;
+    }
+    if (connection.retryTimer) {
+      clearTimeout(connection.retryTimer);
+      connection.retryTimer = null;
+    }
+  }
+
+  private closeClient(connection: SupervisedConnection): void {
+    const client = connection.client;
+    connection.client = null;
+    // Video streams ride on the client's peer connection and close with it
+    connection.streamClient = null;
+    client?.disconnect().catch(error => {
+      console.warn(`Failed to close connection to ${connection.store.name}:`, error);
+    });
+  }
+
+  private setStatus(connection: SupervisedConnection, updates: Partial<ConnectionStatus>): void {
+    connection.status = { ...connection.status, ...updates };
+    const status = { ...connection.status };
+    this.listeners.forEach(listener => listener(status));
+  }
+}
@@ -0,0 +1,149 @@
+// src/credentials.ts - API keys and machine addresses for store machines
+import Cookies from "js-cookie";
+import type { CredentialRecord, ResolvedCredentials, ViamCredentials } from './types';
+import type { StoreRegistry } from './stores';
+import { validation } from './utils';
+import { t } from './i18n';
+
+const STORAGE_KEY = 'pret-machine-credentials';
+
+/** Machine ID used for a location or organization API key shared by all machines */
+export const SHARED_CREDENTIAL = '*';
+
+/**
+ * Credential Store - Resolves the API key to use for each store machine
+ *
+ * Lookup order for a machine: a key saved for that machine, then the Viam
+ * Apps cookie named after the machine ID, then the shared location or
+ * organization key. Saved keys live in localStorage on this device only.
+ */
+export class CredentialStore {
+  private records: CredentialRecord[] = [];
+  private storeRegistry: StoreRegistry;
+
+  constructor(storeRegistry: StoreRegistry) {
+    this.storeRegistry = storeRegistry;
+    this.loadFromStorage();
+  }
+
+  /**
+   * Resolve credentials for a machine, or null when none are available
+   */
+  resolve(machineId: string): ResolvedCredentials | null {
+    const saved = this.records.find(r => r.machineId === machineId);
+    if (saved) {
+      return { id: saved.id, key: saved.key, hostname: saved.hostname, source: 'saved' };
+    }
+
+    const cookie = this.readCookie(machineId);
+    if (cookie) {
+      return { ...cookie, source: 'cookie' };
+    }
+
+    const shared = this.records.find(r => r.machineId === SHARED_CREDENTIAL);
+    if (shared) {
+      return { id: shared.id, key: shared.key, source: 'shared' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Get saved credentials with API keys masked, for display
+   */
+  getRecords(): CredentialRecord[] {
+    return this.records.map(record => ({
+      ...record,
+      key: record.key.length > 4 ? `••••${record.key.slice(-4)}` : '••••'
+    }));
+  }
+
+  /**
+   * Validate a credential record. Returns error messages, empty when valid.
+   * Demo machines are accepted when the store registry's seed named them, or
+   * from a stored record, which was checked when it was saved.
+   */
+  validateRecord(record: Partial<CredentialRecord>, fromStorage: boolean = false): string[] {
+    const errors: string[] = [];
+
+    if (!record.machineId || (
+      record.machineId !== SHARED_CREDENTIAL &&
+      !validation.isUUID(record.machineId) &&
+      !(this.storeRegistry.isSeededDemoMachine(record.machineId) || (fromStorage && record.machineId.startsWith('demo-')))
+    )) {
+      errors.push(t('credentials.error.machine'));
+    }
+    if (!record.id || validation.isEmpty(record.id)) {
+      errors.push(t('credentials.error.keyId'));
+    }
+    if (!record.key || validation.isEmpty(record.key)) {
+      errors.push(t('credentials.error.key'));
+    }
+    if (record.machineId === SHARED_CREDENTIAL && record.hostname) {
+      errors.push(t('credentials.error.sharedHostname'));
+    }
+
+    return errors;
+  }
+
+  /**
+   * Add or replace the credentials for a machine. Returns validation errors, empty on success.
+   */
+  save(record: CredentialRecord): string[] {
+    const errors = this.validateRecord(record);
+    if (errors.length > 0) return errors;
+
+    const saved: CredentialRecord = {
+      machineId: record.machineId,
+      label: record.label.trim() || (record.machineId === SHARED_CREDENTIAL ? t('credentials.sharedLabel') : record.machineId),
+      id: record.id.trim(),
+      key: record.key.trim(),
+      ...(record.hostname?.trim() ? { hostname: record.hostname.trim() } : {})
+    };
+
+    this.records = [...this.records.filter(r => r.machineId !== saved.machineId), saved];
+    this.saveToStorage();
+    return [];
+  }
+
+  /**
+   * Remove saved credentials for a machine
+   */
+  remove(machineId: string): void {
+    this.records = this.records.filter(r => r.machineId !== machineId);
+    this.saveToStorage();
+  }
+
+  private readCookie(machineId: string): ViamCredentials | null {
+    try {
+      const credData = Cookies.get(machineId);
+      if (credData) {
+        const parsed = JSON.parse(credData) as ViamCredentials;
+        if (parsed.id && parsed.key) return parsed;
+      }
+    } catch (error) {
+      console.error(`Failed to parse credentials for ${machineId}:`, error);
+    }
+    return null;
+  }
+
+  private saveToStorage(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.records));
+    } catch (error) {
+      console.warn('Failed to save machine credentials:', error);
+    }
+  }
+
+  private loadFromStorage(): void {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const parsed: CredentialRecord[] = JSON.parse(stored);
+        this.records = parsed.filter(record => record && this.validateRecord(record, true).length === 0);
+      }
+    } catch (error) {
+      console.warn('Failed to load machine credentials:', error);
+    }
+  }
+}
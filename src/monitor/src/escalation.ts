@@ -0,0 +1,277 @@
+// src/escalation.ts - Escalation policies for unacknowledged alerts
+import type { Alert, AlertEscalation, EscalationPolicy, EscalationRole, EscalationStep } from './types';
+import type { AlertManager } from './alerts';
+import { generateId, validation } from './utils';
+import { t } from './i18n';
+import type { MessageKey } from './i18n';
+
+const POLICIES_KEY = 'pret-escalation-policies';
+const ROLES_KEY = 'pret-escalation-roles';
+
+export const ESCALATION_ROLES: Record<EscalationRole, MessageKey> = {
+  store_staff: 'role.store_staff',
+  area_manager: 'role.area_manager',
+  regional_manager: 'role.regional_manager'
+};
+
+const SEVERITY_ORDER: Alert['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+const SHELF_ALERT_TYPES: Alert['type'][] = ['empty_shelf', 'predicted_empty'];
+
+/** How long shelf alerts are held after someone was last seen at the shelves */
+export const RESTOCK_HOLD_MS = 5 * 60 * 1000;
+
+/**
+ * Built-in policy: fridge and equipment problems climb to the area and
+ * regional managers if nobody in the shop acknowledges them
+ */
+export const DEFAULT_POLICIES: EscalationPolicy[] = [
+  {
+    id: 'default-critical-equipment',
+    name: 'Fridge & equipment failures',
+    enabled: true,
+    alertTypes: ['temperature', 'equipment_failure'],
+    minSeverity: 'high',
+    steps: [
+      { afterMinutes: 10, role: 'store_staff', raiseSeverity: true },
+      { afterMinutes: 20, role: 'area_manager', raiseSeverity: false },
+      { afterMinutes: 40, role: 'regional_manager', raiseSeverity: false }
+    ]
+  }
+];
+
+/**
+ * Escalation Manager - Walks unacknowledged alerts through policy steps
+ */
+export class EscalationManager {
+  private alertManager: AlertManager;
+  private policies: EscalationPolicy[] = [];
+  private receivingRoles: EscalationRole[] = ['store_staff'];
+  private shelfHolds = new Map<string, number>();  // storeId -> hold until (epoch ms)
+  private listeners: Array<(alert: Alert, escalation: AlertEscalation) => void> = [];
+  private checkInterval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(alertManager: AlertManager) {
+    this.alertManager = alertManager;
+    this.loadFromStorage();
+  }
+
+  /**
+   * Start checking open alerts on an interval
+   */
+  start(intervalMs: number = 60000): void {
+    this.stop();
+    this.checkInterval = setInterval(() => this.check(), intervalMs);
+  }
+
+  /**
+   * Stop checking
+   */
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  /**
+   * Escalate open incidents whose next step is due. Alerts for the same
+   * store, type and component share one ladder, timed from the first of
+   * them, so a repeat alert does not start the climb again. Returns
+   * escalations made.
+   */
+  check(now: number = Date.now()): AlertEscalation[] {
+    const made: AlertEscalation[] = [];
+
+    for (const alerts of this.getIncidents().values()) {
+      // Someone has picked the incident up
+      if (alerts.some(alert => alert.status !== 'open')) continue;
+
+      const latest = alerts[0];
+      const policy = this.getPolicyFor(latest);
+      if (!policy) continue;
+      if (SHELF_ALERT_TYPES.includes(latest.type) && (this.shelfHolds.get(latest.storeId) || 0) > now) continue;
+
+      const level = Math.max(...alerts.map(alert => alert.escalationLevel || 0));
+      const step = policy.steps[level];
+      if (!step) continue;
+
+      const startedAt = Math.min(...alerts.map(alert => new Date(alert.timestamp).getTime()));
+      const ageMinutes = (now - startedAt) / 60000;
+      if (ageMinutes < step.afterMinutes) continue;
+
+      const escalation: AlertEscalation = {
+        level: level + 1,
+        policyId: policy.id,
+        role: step.role,
+        severity: step.raiseSeverity ? this.raiseSeverity(latest.severity) : latest.severity,
+        timestamp: new Date(now).toISOString()
+      };
+
+      const updated = alerts
+        .map(alert => this.alertManager.recordEscalation(alert.id, escalation))
+        .find((alert): alert is Alert => alert !== null);
+      if (updated) {
+        made.push(escalation);
+        this.listeners.forEach(listener => listener(updated, escalation));
+      }
+    }
+
+    return made;
+  }
+
+  /**
+   * Hold shelf alert escalation for a store, e.g. while staff are restocking
+   * in front of the camera
+   */
+  holdShelfAlerts(storeId: string, durationMs: number = RESTOCK_HOLD_MS): void {
+    const until = Date.now() + durationMs;
+    this.shelfHolds.set(storeId, Math.max(until, this.shelfHolds.get(storeId) || 0));
+  }
+
+  /**
+   * Find the policy for an alert: store-specific policies win over global ones
+   */
+  getPolicyFor(alert: Alert): EscalationPolicy | undefined {
+    const matching = this.policies.filter(policy =>
+      policy.enabled &&
+      (!policy.storeId || policy.storeId === alert.storeId) &&
+      (policy.alertTypes.length === 0 || policy.alertTypes.includes(alert.type)) &&
+      SEVERITY_ORDER.indexOf(alert.severity) >= SEVERITY_ORDER.indexOf(policy.minSeverity)
+    );
+
+    return matching.find(policy => policy.storeId) || matching[0];
+  }
+
+  /**
+   * Check whether this device receives escalations for a role
+   */
+  isReceiving(role: EscalationRole): boolean {
+    return this.receivingRoles.includes(role);
+  }
+
+  getReceivingRoles(): EscalationRole[] {
+    return [...this.receivingRoles];
+  }
+
+  setReceivingRoles(roles: EscalationRole[]): void {
+    this.receivingRoles = roles.filter(role => role in ESCALATION_ROLES);
+    this.saveToStorage();
+  }
+
+  getPolicies(): EscalationPolicy[] {
+    return this.policies.map(policy => ({ ...policy, steps: [...policy.steps] }));
+  }
+
+  getPolicy(policyId: string): EscalationPolicy | undefined {
+    return this.policies.find(p => p.id === policyId);
+  }
+
+  /**
+   * Validate a policy. Returns error messages, empty when valid.
+   */
+  validatePolicy(policy: Partial<EscalationPolicy>): string[] {
+    const errors: string[] = [];
+
+    if (!policy.name || validation.isEmpty(policy.name)) {
+      errors.push(t('validation.nameRequired'));
+    }
+    if (!policy.minSeverity || !SEVERITY_ORDER.includes(policy.minSeverity)) {
+      errors.push(t('policy.error.minSeverity'));
+    }
+    if (!policy.steps || policy.steps.length === 0) {
+      errors.push(t('policy.error.steps'));
+    } else {
+      policy.steps.forEach((step: EscalationStep, i: number) => {
+        if (!(step.role in ESCALATION_ROLES)) {
+          errors.push(t('policy.error.role', { step: i + 1 }));
+        }
+        if (!Number.isFinite(step.afterMinutes) || step.afterMinutes <= 0) {
+          errors.push(t('policy.error.delay', { step: i + 1 }));
+        } else if (i > 0 && step.afterMinutes <= policy.steps![i - 1].afterMinutes) {
+          errors.push(t('policy.error.order', { step: i + 1, previous: i }));
+        }
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Add or replace a policy. Returns validation errors, empty on success.
+   */
+  savePolicy(policy: Omit<EscalationPolicy, 'id'> & { id?: string }): string[] {
+    const errors = this.validatePolicy(policy);
+    if (errors.length > 0) return errors;
+
+    const saved: EscalationPolicy = { ...policy, id: policy.id || generateId() };
+    const index = this.policies.findIndex(p => p.id === saved.id);
+    if (index === -1) {
+      this.policies.push(saved);
+    } else {
+      this.policies[index] = saved;
+    }
+
+    this.saveToStorage();
+    return [];
+  }
+
+  deletePolicy(policyId: string): void {
+    this.policies = this.policies.filter(p => p.id !== policyId);
+    this.saveToStorage();
+  }
+
+  /**
+   * Subscribe to escalations
+   */
+  subscribe(listener: (alert: Alert, escalation: AlertEscalation) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Unresolved alerts grouped by incident, newest first within each
+   */
+  private getIncidents(): Map<string, Alert[]> {
+    const incidents = new Map<string, Alert[]>();
+    for (const alert of this.alertManager.getAlerts()) {
+      if (alert.status === 'resolved') continue;
+      const key = `${alert.storeId}:${alert.type}:${alert.component ?? alert.id}`;
+      incidents.set(key, [...(incidents.get(key) || []), alert]);
+    }
+    return incidents;
+  }
+
+  private raiseSeverity(severity: Alert['severity']): Alert['severity'] {
+    const index = SEVERITY_ORDER.indexOf(severity);
+    return SEVERITY_ORDER[Math.min(index + 1, SEVERITY_ORDER.length - 1)];
+  }
+
+  private saveToStorage(): void {
+    try {
+      localStorage.setItem(POLICIES_KEY, JSON.stringify(this.policies));
+      localStorage.setItem(ROLES_KEY, JSON.stringify(this.receivingRoles));
+    } catch (error) {
+      console.warn('Failed to save escalation settings:', error);
+    }
+  }
+
+  private loadFromStorage(): void {
+    try {
+      const policies = localStorage.getItem(POLICIES_KEY);
+      this.policies = policies
+        ? (JSON.parse(policies) as EscalationPolicy[]).filter(p => p && p.id && this.validatePolicy(p).length === 0)
+        : DEFAULT_POLICIES.map(policy => ({ ...policy, steps: [...policy.steps] }));
+
+      const roles = localStorage.getItem(ROLES_KEY);
+      if (roles) {
+        this.receivingRoles = JSON.parse(roles);
+      }
+    } catch (error) {
+      console.warn('Failed to load escalation settings:', error);
+      this.policies = DEFAULT_POLICIES.map(policy => ({ ...policy, steps: [...policy.steps] }));
+    }
+  }
+}
@@ -0,0 +1,310 @@
+// src/evidence.ts - IndexedDB-backed store for alert evidence images
+import type { EvidenceImage } from './types';
+import { generateId } from './utils';
+
+const DB_NAME = 'PretEvidenceDB';
+const DB_VERSION = 1;
+const IMAGES_STORE = 'images';
+
+export interface EvidenceOptions {
+  retentionMs: number;      // images older than this are deleted
+  maxBytes: number;         // oldest images are deleted beyond this budget
+  maxWidth: number;         // full images are scaled down to this width
+  thumbnailWidth: number;
+  quality: number;          // JPEG quality, 0-1
+  pruneIntervalMs: number;  // minimum time between prune runs
+}
+
+const DEFAULT_OPTIONS: EvidenceOptions = {
+  retentionMs: 14 * 24 * 60 * 60 * 1000,  // 14 days
+  maxBytes: 50 * 1024 * 1024,             // 50 MB
+  maxWidth: 1280,
+  thumbnailWidth: 160,
+  quality: 0.85,
+  pruneIntervalMs: 60 * 60 * 1000         // 1 hour
+};
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Load an image from a blob, data or http URL
+ */
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to decode camera frame'));
+    image.src = src;
+  });
+}
+
+/**
+ * Draw an image scaled to at most `width` pixels wide and encode it as JPEG
+ */
+function encodeJpeg(image: HTMLImageElement, width: number, quality: number): Promise<Blob> {
+  const scale = Math.min(1, width / image.naturalWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas is not supported'));
+
+  // JPEG has no alpha; transparent frames would otherwise turn black
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode JPEG')), 'image/jpeg', quality);
+  });
+}
+
+/**
+ * Evidence Store - Keeps the camera frames attached to alerts
+ *
+ * Frames are re-encoded as JPEG with a thumbnail and stored in IndexedDB,
+ * so alerts only carry an evidence ID and images survive reloads. Images
+ * past `retentionMs`, and the oldest images once the store outgrows
+ * `maxBytes`, are pruned unless an open alert still needs them.
+ */
+export class EvidenceStore {
+  private db: Promise<IDBDatabase> | null = null;
+  private options: EvidenceOptions;
+  private lastPrune = 0;
+  private thumbnails = new Map<string, string | null>();  // null: not available
+  private loading = new Set<string>();
+  private listeners: Array<() => void> = [];
+
+  constructor(options: Partial<EvidenceOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Save a camera frame as evidence. Returns the evidence ID, or null when
+   * the frame could not be stored.
+   */
+  async capture(storeId: string, frameUrl: string): Promise<string | null> {
+    let record: EvidenceImage;
+    try {
+      const image = await loadImage(frameUrl);
+      const [blob, thumbnail] = await Promise.all([
+        encodeJpeg(image, this.options.maxWidth, this.options.quality),
+        encodeJpeg(image, this.options.thumbnailWidth, 0.7)
+      ]);
+
+      record = {
+        id: generateId(),
+        storeId,
+        capturedAt: Date.now(),
+        size: blob.size + thumbnail.size,
+        blob,
+        thumbnail
+      };
+
+      const db = await this.open();
+      const tx = db.transaction(IMAGES_STORE, 'readwrite');
+      tx.objectStore(IMAGES_STORE).put(record);
+      await this.complete(tx);
+    } catch (error) {
+      console.warn(`Failed to save evidence for ${storeId}:`, error);
+      return null;
+    }
+
+    this.thumbnails.set(record.id, URL.createObjectURL(record.thumbnail));
+    this.notify();
+    return record.id;
+  }
+
+  /**
+   * Create an object URL for a full evidence image, or null when it has
+   * expired. Call `release` with the URL once it is no longer displayed.
+   */
+  async getImageUrl(evidenceId: string): Promise<string | null> {
+    try {
+      const db = await this.open();
+      const store = db.transaction(IMAGES_STORE, 'readonly').objectStore(IMAGES_STORE);
+      const record = await promisify(store.get(evidenceId)) as EvidenceImage | undefined;
+      return record ? URL.createObjectURL(record.blob) : null;
+    } catch (error) {
+      console.warn(`Failed to load evidence ${evidenceId}:`, error);
+      return null;
+    }
+  }
+
+  release(url: string): void {
+    if (url.startsWith('blob:')) {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  /**
+   * Get a loaded thumbnail URL. Returns undefined until `loadThumbnails`
+   * has fetched it, and null once it is known to be gone.
+   */
+  getThumbnailUrl(evidenceId: string): string | null | undefined {
+    return this.thumbnails.get(evidenceId);
+  }
+
+  /**
+   * Load thumbnails that aren't cached yet; listeners are notified when done
+   */
+  async loadThumbnails(evidenceIds: string[]): Promise<void> {
+    const missing = evidenceIds.filter(id => !this.thumbnails.has(id) && !this.loading.has(id));
+    if (missing.length === 0) return;
+
+    missing.forEach(id => this.loading.add(id));
+    try {
+      const db = await this.open();
+      const store = db.transaction(IMAGES_STORE, 'readonly').objectStore(IMAGES_STORE);
+      const records = await Promise.all(missing.map(id => promisify(store.get(id)) as Promise<EvidenceImage | undefined>));
+
+      records.forEach((record, i) => {
+        this.thumbnails.set(missing[i], record ? URL.createObjectURL(record.thumbnail) : null);
+      });
+      this.notify();
+    } catch (error) {
+      console.warn('Failed to load evidence thumbnails:', error);
+    } finally {
+      missing.forEach(id => this.loading.delete(id));
+    }
+  }
+
+  /**
+   * Delete expired images, then the oldest images until the store fits its
+   * size budget. Images in `keepIds` are never deleted.
+   */
+  async prune(keepIds: Set<string> = new Set(), now: number = Date.now()): Promise<void> {
+    this.lastPrune = now;
+    const retentionCutoff = now - this.options.retentionMs;
+
+    const db = await this.open();
+    const tx = db.transaction(IMAGES_STORE, 'readwrite');
+    const store = tx.objectStore(IMAGES_STORE);
+    const deleted: string[] = [];
+    let totalBytes = 0;
+
+    // Newest first, so everything past the budget is the oldest
+    await new Promise<void>((resolve, reject) => {
+      const request = store.index('byTime').openCursor(null, 'prev');
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+
+        const record = cursor.value as EvidenceImage;
+        if (keepIds.has(record.id)) {
+          totalBytes += record.size;
+        } else if (record.capturedAt < retentionCutoff || totalBytes + record.size > this.options.maxBytes) {
+          cursor.delete();
+          deleted.push(record.id);
+        } else {
+          totalBytes += record.size;
+        }
+        cursor.continue();
+      };
+    });
+
+    await this.complete(tx);
+    this.forget(deleted);
+  }
+
+  /**
+   * Prune if the last run was longer ago than `pruneIntervalMs`
+   */
+  maybePrune(keepIds: Set<string>): void {
+    if (Date.now() - this.lastPrune > this.options.pruneIntervalMs) {
+      this.prune(keepIds).catch(error => console.warn('Failed to prune evidence:', error));
+    }
+  }
+
+  /**
+   * Delete evidence images, e.g. when their alerts are cleared
+   */
+  async delete(evidenceIds: string[]): Promise<void> {
+    if (evidenceIds.length === 0) return;
+
+    const db = await this.open();
+    const tx = db.transaction(IMAGES_STORE, 'readwrite');
+    const store = tx.objectStore(IMAGES_STORE);
+    evidenceIds.forEach(id => store.delete(id));
+    await this.complete(tx);
+    this.forget(evidenceIds);
+  }
+
+  /**
+   * Subscribe to thumbnail changes
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private forget(evidenceIds: string[]): void {
+    let changed = false;
+    for (const id of evidenceIds) {
+      const url = this.thumbnails.get(id);
+      if (url) {
+        URL.revokeObjectURL(url);
+      }
+      if (url !== null) {
+        this.thumbnails.set(id, null);
+        changed = true;
+      }
+    }
+    if (changed) {
+      this.notify();
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private complete(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        if (!('indexedDB' in window)) {
+          reject(new Error('IndexedDB is not supported'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+            const store = db.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+            store.createIndex('byTime', 'capturedAt');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // Allow a retry on the next call if opening failed
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+}
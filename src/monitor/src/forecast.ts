@@ -0,0 +1,122 @@
+// src/forecast.ts - Time-to-empty forecasting for shelf regions
+import type { ForecastSettings, HistorySample, ShelfForecast } from './types';
+
+const STORAGE_KEY = 'pret-forecast-settings';
+
+export const DEFAULT_FORECAST_SETTINGS: ForecastSettings = {
+  enabled: true,
+  leadTimeMinutes: 20,
+  windowMinutes: 30,
+  minSamples: 4
+};
+
+/**
+ * Depletion Forecaster - Projects when shelf regions will run empty
+ *
+ * Fits a least-squares line through recent fill readings and extrapolates
+ * to the empty level. Only a falling trend produces a projection.
+ */
+export class DepletionForecaster {
+  private settings: ForecastSettings;
+
+  constructor() {
+    this.settings = this.loadSettings();
+  }
+
+  /**
+   * Get forecast settings
+   */
+  getSettings(): ForecastSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Update forecast settings
+   */
+  updateSettings(updates: Partial<ForecastSettings>): void {
+    this.settings = { ...this.settings, ...updates };
+    this.saveSettings();
+  }
+
+  /**
+   * Forecast time to empty from fill samples of a single region
+   */
+  forecast(samples: HistorySample[], emptyLevel: number, now: number = Date.now()): ShelfForecast | null {
+    const windowStart = now - this.settings.windowMinutes * 60000;
+    const recent = samples
+      .filter(s => s.timestamp >= windowStart && s.timestamp <= now)
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    if (recent.length < Math.max(2, this.settings.minSamples)) return null;
+
+    // Least-squares fit of fill (%) against time (minutes since window start)
+    const xs = recent.map(s => (s.timestamp - windowStart) / 60000);
+    const ys = recent.map(s => s.value);
+    const n = recent.length;
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+    const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+
+    let covariance = 0;
+    let varianceX = 0;
+    let varianceY = 0;
+    for (let i = 0; i < n; i++) {
+      covariance += (xs[i] - meanX) * (ys[i] - meanY);
+      varianceX += (xs[i] - meanX) ** 2;
+      varianceY += (ys[i] - meanY) ** 2;
+    }
+
+    if (varianceX === 0) return null;
+
+    const slope = covariance / varianceX;
+    const rSquared = varianceY === 0 ? 0 : (covariance * covariance) / (varianceX * varianceY);
+    const latest = recent[recent.length - 1];
+
+    let minutesToEmpty: number | null = null;
+    if (slope < 0 && latest.value > emptyLevel) {
+      // Project from the fitted line at "now" rather than the noisy last reading
+      const fittedNow = meanY + slope * ((now - windowStart) / 60000 - meanX);
+      minutesToEmpty = Math.max(0, (fittedNow - emptyLevel) / -slope);
+    }
+
+    return {
+      storeId: latest.storeId,
+      componentName: latest.componentName,
+      currentFill: latest.value,
+      emptyLevel,
+      ratePerMinute: slope,
+      minutesToEmpty,
+      projectedEmptyAt: minutesToEmpty === null ? null : new Date(now + minutesToEmpty * 60000).toISOString(),
+      confidence: Math.round(rSquared * 100)
+    };
+  }
+
+  /**
+   * Check whether a forecast falls within the alert lead time
+   */
+  shouldAlert(forecast: ShelfForecast | null): forecast is ShelfForecast {
+    return this.settings.enabled &&
+      forecast !== null &&
+      forecast.minutesToEmpty !== null &&
+      forecast.minutesToEmpty <= this.settings.leadTimeMinutes;
+  }
+
+  private loadSettings(): ForecastSettings {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        return { ...DEFAULT_FORECAST_SETTINGS, ...JSON.parse(stored) };
+      }
+    } catch (error) {
+      console.warn('Failed to load forecast settings:', error);
+    }
+    return { ...DEFAULT_FORECAST_SETTINGS };
+  }
+
+  private saveSettings(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.warn('Failed to save forecast settings:', error);
+    }
+  }
+}
@@ -0,0 +1,343 @@
+// src/health.ts - Equipment health detectors
+import type { Alert, ConnectionStatus, HealthCheck, HealthIssue, LocalizedText, SensorReading } from './types';
+import { localize, t, text } from './i18n';
+
+const STORAGE_KEY = 'pret-health-issues';
+
+export interface HealthOptions {
+  offlineAfterMs: number;    // machine offline this long
+  cameraFailures: number;    // consecutive polls without a camera frame
+  sensorSilentMs: number;    // temperature sensor missing from readings this long
+  stuckAfterMs: number;      // identical fill reading for this much opening time
+}
+
+const DEFAULT_OPTIONS: HealthOptions = {
+  offlineAfterMs: 5 * 60 * 1000,       // 5 minutes
+  cameraFailures: 3,
+  sensorSilentMs: 30 * 60 * 1000,      // 30 minutes
+  stuckAfterMs: 4 * 60 * 60 * 1000     // 4 hours
+};
+
+const SEVERITIES: Record<HealthCheck, Alert['severity']> = {
+  machine: 'high',
+  camera: 'medium',
+  temperature_sensor: 'high',
+  fill_sensor: 'medium'
+};
+
+export interface HealthChange {
+  type: 'raised' | 'cleared';
+  issue: HealthIssue;
+  note?: string;             // why a cleared issue cleared
+}
+
+interface MachineHealth {
+  connected: boolean;
+  connectedAt?: number;
+  offlineSince?: number;
+  lastError?: string;
+}
+
+interface CameraHealth {
+  failures: number;
+  firstFailureAt?: number;
+  lastSuccessAt?: number;
+}
+
+interface SensorHealth {
+  storeId: string;
+  component: string;
+  lastSeen: number;
+  lastPoll: number;
+}
+
+interface FillHealth {
+  storeId: string;
+  region: string;
+  value: number;
+  openMs: number;            // opening time the value has stayed the same
+  changed: boolean;          // value has changed since we started watching
+  lastPoll: number;
+  lastPollOpen: boolean;
+}
+
+/**
+ * Health Monitor - Raises equipment failures from what polling observes
+ *
+ * Polls and connection updates feed in observations; `check` turns them
+ * into issues, raising an issue when a detector fails and clearing it only
+ * once the detector has seen the equipment healthy again. Open issues are
+ * kept across reloads, so alerts raised before a reload still clear.
+ *
+ * Detectors other than the machine's own are paused while it is offline,
+ * and their clocks restart when it reconnects.
+ */
+export class HealthMonitor {
+  private options: HealthOptions;
+  private machines = new Map<string, MachineHealth>();
+  private cameras = new Map<string, CameraHealth>();
+  private sensors = new Map<string, SensorHealth>();
+  private fills = new Map<string, FillHealth>();
+  private issues = new Map<string, HealthIssue>();
+  private listeners: Array<(change: HealthChange) => void> = [];
+  private checkInterval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: Partial<HealthOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.loadFromStorage();
+  }
+
+  /**
+   * Check on an interval, so machines that stay offline (and are no longer
+   * polled) still raise an issue
+   */
+  start(intervalMs: number = 60000): void {
+    this.stop();
+    this.checkInterval = setInterval(() => this.check(), intervalMs);
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  recordConnection(status: ConnectionStatus, now: number = Date.now()): void {
+    const machine = this.machines.get(status.storeId);
+
+    switch (status.state) {
+      case 'connected':
+        if (!machine?.connected) {
+          this.machines.set(status.storeId, { connected: true, connectedAt: now });
+        }
+        break;
+      case 'offline':
+        this.machines.set(status.storeId, {
+          connected: false,
+          offlineSince: machine?.offlineSince ?? (status.offlineSince ? new Date(status.offlineSince).getTime() : now),
+          lastError: status.lastError
+        });
+        break;
+      case 'disconnected':
+        this.forget(status.storeId);
+        break;
+    }
+  }
+
+  /**
+   * Record whether a poll got a camera frame
+   */
+  recordCamera(storeId: string, ok: boolean, now: number = Date.now()): void {
+    const camera = this.cameras.get(storeId) || { failures: 0 };
+    if (ok) {
+      this.cameras.set(storeId, { failures: 0, lastSuccessAt: now });
+    } else {
+      this.cameras.set(storeId, { ...camera, failures: camera.failures + 1, firstFailureAt: camera.firstFailureAt ?? now });
+    }
+  }
+
+  /**
+   * Record the temperature sensors that reported in a poll
+   */
+  recordTemperature(storeId: string, readings: SensorReading[], now: number = Date.now()): void {
+    for (const reading of readings) {
+      const key = this.key(storeId, reading.componentName);
+      this.sensors.set(key, { storeId, component: reading.componentName, lastSeen: now, lastPoll: now });
+    }
+    for (const sensor of this.sensors.values()) {
+      if (sensor.storeId === storeId) {
+        sensor.lastPoll = now;
+      }
+    }
+  }
+
+  /**
+   * Record fill readings. Identical readings only count towards a stuck
+   * sensor while the store is open; shelves don't change overnight.
+   */
+  recordFill(storeId: string, readings: SensorReading[], isOpen: boolean, now: number = Date.now()): void {
+    const connectedAt = this.machines.get(storeId)?.connectedAt ?? 0;
+
+    for (const reading of readings) {
+      if (typeof reading.reading !== 'number') continue;
+
+      const key = this.key(storeId, reading.componentName);
+      const fill = this.fills.get(key);
+      if (!fill) {
+        this.fills.set(key, {
+          storeId,
+          region: reading.componentName,
+          value: reading.reading,
+          openMs: 0,
+          changed: false,
+          lastPoll: now,
+          lastPollOpen: isOpen
+        });
+      } else if (fill.value !== reading.reading) {
+        Object.assign(fill, { value: reading.reading, openMs: 0, changed: true, lastPoll: now, lastPollOpen: isOpen });
+      } else {
+        // Don't count gaps spent closed or offline
+        if (isOpen && fill.lastPollOpen && fill.lastPoll >= connectedAt) {
+          fill.openMs += now - fill.lastPoll;
+        }
+        fill.lastPoll = now;
+        fill.lastPollOpen = isOpen;
+      }
+    }
+  }
+
+  /**
+   * Raise issues for failing detectors and clear issues whose equipment is
+   * healthy again. Returns the changes made.
+   */
+  check(now: number = Date.now()): HealthChange[] {
+    const failing = new Map<string, HealthIssue>();
+    const healthy = new Set<string>();
+    const issue = (storeId: string, check: HealthCheck, component: string, message: LocalizedText, since: number) => {
+      failing.set(this.issueKey(storeId, check, component), {
+        storeId, check, component, message: localize(message), text: message, severity: SEVERITIES[check], since: new Date(since).toISOString()
+      });
+    };
+    const isOffline = (storeId: string) => this.machines.get(storeId)?.connected === false;
+
+    for (const [storeId, machine] of this.machines) {
+      if (machine.connected) {
+        healthy.add(this.issueKey(storeId, 'machine', 'machine'));
+      } else if (machine.offlineSince !== undefined && now - machine.offlineSince >= this.options.offlineAfterMs) {
+        const duration = now - machine.offlineSince;
+        issue(storeId, 'machine', 'machine',
+          machine.lastError ? text('health.machineError', { duration, error: machine.lastError }) : text('health.machine', { duration }),
+          machine.offlineSince);
+      }
+    }
+
+    for (const [storeId, camera] of this.cameras) {
+      if (camera.failures === 0 && camera.lastSuccessAt !== undefined) {
+        healthy.add(this.issueKey(storeId, 'camera', 'camera'));
+      } else if (!isOffline(storeId) && camera.failures >= this.options.cameraFailures) {
+        issue(storeId, 'camera', 'camera', text('health.camera', { count: camera.failures }), camera.firstFailureAt ?? now);
+      }
+    }
+
+    for (const sensor of this.sensors.values()) {
+      const key = this.issueKey(sensor.storeId, 'temperature_sensor', sensor.component);
+      const connectedAt = this.machines.get(sensor.storeId)?.connectedAt ?? 0;
+      const silentMs = sensor.lastPoll - Math.max(sensor.lastSeen, connectedAt);
+      if (sensor.lastSeen === sensor.lastPoll) {
+        healthy.add(key);
+      } else if (!isOffline(sensor.storeId) && silentMs >= this.options.sensorSilentMs) {
+        issue(sensor.storeId, 'temperature_sensor', sensor.component,
+          text('health.temperatureSensor', { sensor: sensor.component, duration: silentMs }), sensor.lastSeen);
+      }
+    }
+
+    for (const fill of this.fills.values()) {
+      const key = this.issueKey(fill.storeId, 'fill_sensor', fill.region);
+      if (fill.openMs >= this.options.stuckAfterMs) {
+        if (!isOffline(fill.storeId)) {
+          issue(fill.storeId, 'fill_sensor', fill.region,
+            text('health.fillSensor', { value: fill.value, region: fill.region, duration: fill.openMs }),
+            now - fill.openMs);
+        }
+      } else if (fill.changed) {
+        healthy.add(key);
+      }
+    }
+
+    const changes: HealthChange[] = [];
+    for (const [key, raised] of failing) {
+      if (!this.issues.has(key)) {
+        this.issues.set(key, raised);
+        changes.push({ type: 'raised', issue: raised });
+      }
+    }
+    for (const [key, active] of this.issues) {
+      if (healthy.has(key)) {
+        this.issues.delete(key);
+        changes.push({ type: 'cleared', issue: active, note: t(`health.recovered.${active.check}`) });
+      }
+    }
+
+    this.publish(changes);
+    return changes;
+  }
+
+  /**
+   * Get open issues, optionally for one store
+   */
+  getIssues(storeId?: string): HealthIssue[] {
+    return Array.from(this.issues.values())
+      .filter(issue => storeId === undefined || issue.storeId === storeId)
+      .map(issue => ({ ...issue }));
+  }
+
+  /**
+   * Subscribe to issues being raised and cleared
+   */
+  subscribe(listener: (change: HealthChange) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Stop watching a store that is no longer monitored, clearing its issues
+   */
+  forget(storeId: string): void {
+    this.machines.delete(storeId);
+    this.cameras.delete(storeId);
+    for (const [key, entry] of [...this.sensors, ...this.fills]) {
+      if (entry.storeId === storeId) {
+        this.sensors.delete(key);
+        this.fills.delete(key);
+      }
+    }
+
+    const changes: HealthChange[] = [];
+    for (const [key, active] of this.issues) {
+      if (active.storeId === storeId) {
+        this.issues.delete(key);
+        changes.push({ type: 'cleared', issue: active, note: t('health.forgotten') });
+      }
+    }
+    this.publish(changes);
+  }
+
+  private publish(changes: HealthChange[]): void {
+    if (changes.length === 0) return;
+
+    this.saveToStorage();
+    changes.forEach(change => this.listeners.forEach(listener => listener(change)));
+  }
+
+  private key(storeId: string, component: string): string {
+    return `${storeId}|${component}`;
+  }
+
+  private issueKey(storeId: string, check: HealthCheck, component: string): string {
+    return `${storeId}|${check}|${component}`;
+  }
+
+  private saveToStorage(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(Array.from(this.issues.values())));
+    } catch (error) {
+      console.warn('Failed to save health issues:', error);
+    }
+  }
+
+  private loadFromStorage(): void {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        (JSON.parse(stored) as HealthIssue[]).forEach(issue => {
+          this.issues.set(this.issueKey(issue.storeId, issue.check, issue.component), issue);
+        });
+      }
+    } catch (error) {
+      console.warn('Failed to load health issues:', error);
+    }
+  }
+}
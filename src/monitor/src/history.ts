@@ -0,0 +1,297 @@
+// src/history.ts - IndexedDB-backed time-series history for sensor readings
+import type { HistoryQuery, HistorySample, RuleSensor, SensorReading } from './types';
+
+const DB_NAME = 'PretHistoryDB';
+const DB_VERSION = 1;
+const READINGS_STORE = 'readings';
+
+export interface HistoryOptions {
+  retentionMs: number;      // samples older than this are deleted
+  rawWindowMs: number;      // raw samples older than this are compacted
+  compactBucketMs: number;  // bucket size for compacted samples
+  pruneIntervalMs: number;  // minimum time between prune runs
+}
+
+const DEFAULT_OPTIONS: HistoryOptions = {
+  retentionMs: 7 * 24 * 60 * 60 * 1000,  // 7 days
+  rawWindowMs: 24 * 60 * 60 * 1000,      // 24 hours
+  compactBucketMs: 5 * 60 * 1000,        // 5 minutes
+  pruneIntervalMs: 60 * 60 * 1000        // 1 hour
+};
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Merge samples into one downsampled sample, weighting by represented count
+ */
+function mergeSamples(samples: HistorySample[], timestamp: number): HistorySample {
+  let total = 0;
+  let count = 0;
+  let min = Infinity;
+  let max = -Infinity;
+
+  for (const sample of samples) {
+    const weight = sample.count ?? 1;
+    total += sample.value * weight;
+    count += weight;
+    min = Math.min(min, sample.min ?? sample.value);
+    max = Math.max(max, sample.max ?? sample.value);
+  }
+
+  return {
+    storeId: samples[0].storeId,
+    componentName: samples[0].componentName,
+    sensor: samples[0].sensor,
+    timestamp,
+    value: total / count,
+    min,
+    max,
+    count
+  };
+}
+
+/**
+ * Reading History - Persists fill and temperature readings per store component
+ *
+ * Samples are keyed by [storeId, componentName, timestamp]. Raw samples are
+ * kept for `rawWindowMs`, then compacted into `compactBucketMs` averages, and
+ * everything is dropped after `retentionMs`.
+ */
+export class ReadingHistory {
+  private db: Promise<IDBDatabase> | null = null;
+  private options: HistoryOptions;
+  private lastPrune = 0;
+
+  constructor(options: Partial<HistoryOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Record numeric readings for a store
+   */
+  async record(storeId: string, sensor: RuleSensor, readings: SensorReading[]): Promise<void> {
+    const samples: HistorySample[] = readings
+      .filter(r => typeof r.reading === 'number' && Number.isFinite(r.reading))
+      .map(r => ({
+        storeId,
+        componentName: r.componentName,
+        sensor,
+        timestamp: new Date(r.timestamp).getTime(),
+        value: r.reading
+      }));
+
+    if (samples.length === 0) return;
+
+    try {
+      const db = await this.open();
+      const tx = db.transaction(READINGS_STORE, 'readwrite');
+      const store = tx.objectStore(READINGS_STORE);
+      samples.forEach(sample => store.put(sample));
+      await this.complete(tx);
+    } catch (error) {
+      console.warn(`Failed to record history for ${storeId}:`, error);
+      return;
+    }
+
+    if (Date.now() - this.lastPrune > this.options.pruneIntervalMs) {
+      this.lastPrune = Date.now();
+      this.prune().catch(error => console.warn('Failed to prune history:', error));
+    }
+  }
+
+  /**
+   * Query samples for a store within a time range, oldest first
+   */
+  async query(query: HistoryQuery): Promise<HistorySample[]> {
+    const start = query.start.getTime();
+    const end = query.end.getTime();
+    if (end < start) return [];
+
+    let samples: HistorySample[];
+    try {
+      const db = await this.open();
+      const store = db.transaction(READINGS_STORE, 'readonly').objectStore(READINGS_STORE);
+
+      if (query.componentName) {
+        samples = await promisify(store.getAll(IDBKeyRange.bound(
+          [query.storeId, query.componentName, start],
+          [query.storeId, query.componentName, end]
+        )));
+      } else {
+        samples = await promisify(store.index('byStoreTime').getAll(IDBKeyRange.bound(
+          [query.storeId, start],
+          [query.storeId, end]
+        )));
+        samples.sort((a, b) => a.timestamp - b.timestamp);
+      }
+    } catch (error) {
+      console.warn(`Failed to query history for ${query.storeId}:`, error);
+      return [];
+    }
+
+    if (query.sensor) {
+      samples = samples.filter(s => s.sensor === query.sensor);
+    }
+
+    if (query.maxPoints && query.maxPoints > 0) {
+      const bucketMs = Math.ceil((end - start + 1) / query.maxPoints);
+      samples = this.downsample(samples, start, bucketMs);
+    }
+
+    return samples;
+  }
+
+  /**
+   * Get the latest sample for a component at or before a point in time
+   */
+  async getValueAt(storeId: string, componentName: string, at: Date): Promise<HistorySample | null> {
+    try {
+      const db = await this.open();
+      const store = db.transaction(READINGS_STORE, 'readonly').objectStore(READINGS_STORE);
+      const range = IDBKeyRange.bound(
+        [storeId, componentName, at.getTime() - this.options.retentionMs],
+        [storeId, componentName, at.getTime()]
+      );
+      const cursor = await promisify(store.openCursor(range, 'prev'));
+      return cursor ? cursor.value as HistorySample : null;
+    } catch (error) {
+      console.warn(`Failed to read history for ${storeId}/${componentName}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * List components with recorded history for a store
+   */
+  async getComponents(storeId: string, sensor?: RuleSensor): Promise<string[]> {
+    const samples = await this.query({
+      storeId,
+      sensor,
+      start: new Date(Date.now() - this.options.retentionMs),
+      end: new Date()
+    });
+    return Array.from(new Set(samples.map(s => s.componentName))).sort();
+  }
+
+  /**
+   * Compact raw samples outside the raw window and drop expired samples
+   */
+  async prune(now: number = Date.now()): Promise<void> {
+    const retentionCutoff = now - this.options.retentionMs;
+    const rawCutoff = now - this.options.rawWindowMs;
+    const bucketMs = this.options.compactBucketMs;
+
+    const db = await this.open();
+    const tx = db.transaction(READINGS_STORE, 'readwrite');
+    const store = tx.objectStore(READINGS_STORE);
+    const buckets = new Map<string, HistorySample[]>();
+
+    await new Promise<void>((resolve, reject) => {
+      const request = store.index('byTime').openCursor(IDBKeyRange.upperBound(rawCutoff, true));
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+
+        const sample = cursor.value as HistorySample;
+        if (sample.timestamp < retentionCutoff) {
+          cursor.delete();
+        } else if (sample.count === undefined) {
+          // Raw sample: fold into its compacted bucket
+          const bucketStart = Math.floor(sample.timestamp / bucketMs) * bucketMs;
+          const key = JSON.stringify([sample.storeId, sample.componentName, bucketStart]);
+          buckets.set(key, [...(buckets.get(key) || []), sample]);
+          cursor.delete();
+        }
+        cursor.continue();
+      };
+    });
+
+    for (const [key, samples] of buckets) {
+      const [storeId, componentName, bucketStart] = JSON.parse(key);
+      const existing = await promisify(store.get([storeId, componentName, bucketStart])) as HistorySample | undefined;
+      store.put(mergeSamples(existing ? [existing, ...samples] : samples, bucketStart));
+    }
+
+    await this.complete(tx);
+  }
+
+  /**
+   * Delete all recorded history
+   */
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(READINGS_STORE, 'readwrite');
+    tx.objectStore(READINGS_STORE).clear();
+    await this.complete(tx);
+  }
+
+  private downsample(samples: HistorySample[], start: number, bucketMs: number): HistorySample[] {
+    const buckets = new Map<string, HistorySample[]>();
+
+    for (const sample of samples) {
+      const bucketStart = start + Math.floor((sample.timestamp - start) / bucketMs) * bucketMs;
+      const key = `${sample.componentName}\u0000${bucketStart}`;
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket.push(sample);
+      } else {
+        buckets.set(key, [sample]);
+      }
+    }
+
+    return Array.from(buckets.values())
+      .map(bucket => bucket.length === 1
+        ? bucket[0]
+        : mergeSamples(bucket, start + Math.floor((bucket[0].timestamp - start) / bucketMs) * bucketMs))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  private complete(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        if (!('indexedDB' in window)) {
+          reject(new Error('IndexedDB is not supported'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(READINGS_STORE)) {
+            const store = db.createObjectStore(READINGS_STORE, {
+              keyPath: ['storeId', 'componentName', 'timestamp']
+            });
+            store.createIndex('byStoreTime', ['storeId', 'timestamp']);
+            store.createIndex('byTime', 'timestamp');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // Allow a retry on the next call if opening failed
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,216 @@
+// src/hours.ts - Store opening hours in the store's own time zone
+import type { HoursException, OpeningPeriod, StoreHours, StoreLocation, Weekday } from './types';
+
+/** Days of the week, Monday first, as named in the store editor */
+export const WEEKDAYS: Record<Weekday, string> = {
+  mon: 'Monday',
+  tue: 'Tuesday',
+  wed: 'Wednesday',
+  thu: 'Thursday',
+  fri: 'Friday',
+  sat: 'Saturday',
+  sun: 'Sunday'
+};
+
+/** Hours for stores without their own schedule: 6 AM - 10 PM weekdays, 7 AM - 9 PM weekends */
+export const DEFAULT_STORE_HOURS: StoreHours = {
+  weekly: {
+    mon: { open: '06:00', close: '22:00' },
+    tue: { open: '06:00', close: '22:00' },
+    wed: { open: '06:00', close: '22:00' },
+    thu: { open: '06:00', close: '22:00' },
+    fri: { open: '06:00', close: '22:00' },
+    sat: { open: '07:00', close: '21:00' },
+    sun: { open: '07:00', close: '21:00' }
+  }
+};
+
+const DAY_INDEX: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const EXCEPTION_PATTERN = /^(\d{4}-\d{2}-\d{2})(?:\.\.(\d{4}-\d{2}-\d{2}))?\s+(?:(closed)|(\d{2}:\d{2})-(\d{2}:\d{2}))(?:\s+(.+))?$/i;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export interface StoreTime {
+  date: string;              // 'YYYY-MM-DD'
+  weekday: Weekday;
+  hour: number;
+  minutes: number;           // minutes since midnight
+  time: string;              // 'HH:MM'
+}
+
+/**
+ * The wall clock at a store: in its time zone, or the device's when it has none
+ */
+export function getStoreTime(store: Pick<StoreLocation, 'timeZone'>, now: Date = new Date()): StoreTime {
+  const parts: Record<string, string> = {};
+  getFormatter(store.timeZone).formatToParts(now).forEach(part => {
+    parts[part.type] = part.value;
+  });
+
+  const date = `${parts.year}-${parts.month}-${parts.day}`;
+  const hour = parseInt(parts.hour, 10);
+  const minute = parseInt(parts.minute, 10);
+  return {
+    date,
+    weekday: weekdayOf(date),
+    hour,
+    minutes: hour * 60 + minute,
+    time: `${parts.hour}:${parts.minute}`
+  };
+}
+
+/**
+ * The instant a store's wall clock shows a date and time. Times skipped or
+ * repeated by a daylight saving change resolve to the nearest instant.
+ */
+export function fromStoreTime(store: Pick<StoreLocation, 'timeZone'>, date: string, time: string = '00:00'): Date {
+  const wallClock = Date.parse(`${date}T${time}:00Z`);
+  const local = getStoreTime(store, new Date(wallClock));
+  const offset = Date.parse(`${local.date}T${local.time}:00Z`) - wallClock;
+  return new Date(wallClock - offset);
+}
+
+/**
+ * Whether a store is open, in its own time zone. Holidays and closures
+ * replace the weekly hours for their dates; hours that close at or before
+ * they open run past midnight into the next day.
+ */
+export function isOpenAt(store: Pick<StoreLocation, 'timeZone' | 'hours'>, now: Date = new Date()): boolean {
+  const local = getStoreTime(store, now);
+
+  const today = getHoursOn(store, local.date);
+  if (today && isWithin(today, local.minutes)) return true;
+
+  const yesterday = getHoursOn(store, addDays(local.date, -1));
+  return !!yesterday && isOvernight(yesterday) && local.minutes < toMinutes(yesterday.close);
+}
+
+/**
+ * Opening hours on a store-local date, undefined when closed all day
+ */
+export function getHoursOn(store: Pick<StoreLocation, 'hours'>, date: string): OpeningPeriod | undefined {
+  const hours = store.hours || DEFAULT_STORE_HOURS;
+  const exception = getExceptionOn(store, date);
+  return exception ? exception.hours : hours.weekly[weekdayOf(date)];
+}
+
+/**
+ * The holiday or closure covering a store-local date, if any
+ */
+export function getExceptionOn(store: Pick<StoreLocation, 'hours'>, date: string): HoursException | undefined {
+  return store.hours?.exceptions?.find(e => e.date <= date && date <= (e.endDate || e.date));
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidTime(time: unknown): time is string {
+  return typeof time === 'string' && TIME_PATTERN.test(time);
+}
+
+export function isValidDate(date: unknown): date is string {
+  if (typeof date !== 'string' || !DATE_PATTERN.test(date)) return false;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+}
+
+export function isValidPeriod(period: unknown): period is OpeningPeriod {
+  const p = period as OpeningPeriod | null;
+  return !!p && typeof p === 'object' && isValidTime(p.open) && isValidTime(p.close);
+}
+
+/**
+ * Parse holidays and closures entered one per line, e.g.
+ * "2026-12-25 closed Christmas Day", "2026-12-24 07:00-15:00 Christmas Eve"
+ * or "2026-08-01..2026-08-14 closed Refurbishment"
+ */
+export function parseExceptions(input: string): { exceptions: HoursException[]; errors: string[] } {
+  const exceptions: HoursException[] = [];
+  const errors: string[] = [];
+
+  input.split('\n').map(line => line.trim()).filter(Boolean).forEach(line => {
+    const match = line.match(EXCEPTION_PATTERN);
+    if (!match) {
+      errors.push(`Cannot read closure "${line}"`);
+      return;
+    }
+
+    const [, date, endDate, closed, open, close, name] = match;
+    exceptions.push({
+      date,
+      ...(endDate ? { endDate } : {}),
+      ...(closed ? {} : { hours: { open, close } }),
+      ...(name ? { name: name.trim() } : {})
+    });
+  });
+
+  return { exceptions, errors };
+}
+
+/**
+ * Format holidays and closures for editing, one per line
+ */
+export function formatExceptions(exceptions: HoursException[] = []): string {
+  return exceptions.map(e => [
+    e.endDate ? `${e.date}..${e.endDate}` : e.date,
+    e.hours ? `${e.hours.open}-${e.hours.close}` : 'closed',
+    e.name
+  ].filter(Boolean).join(' ')).join('\n');
+}
+
+/**
+ * Minutes since midnight for an 'HH:MM' time
+ */
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function getFormatter(timeZone: string | undefined): Intl.DateTimeFormat {
+  const key = timeZone || '';
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+function weekdayOf(date: string): Weekday {
+  return DAY_INDEX[new Date(`${date}T00:00:00Z`).getUTCDay()];
+}
+
+/**
+ * Shift a 'YYYY-MM-DD' date by whole days
+ */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function isOvernight(period: OpeningPeriod): boolean {
+  return toMinutes(period.close) <= toMinutes(period.open);
+}
+
+function isWithin(period: OpeningPeriod, minutes: number): boolean {
+  return isOvernight(period)
+    ? minutes >= toMinutes(period.open)
+    : minutes >= toMinutes(period.open) && minutes < toMinutes(period.close);
+}
@@ -0,0 +1,195 @@
+// src/i18n.ts - Translation and locale-aware formatting
+import type { Alert, AppSettings, LocalizedText, Weekday } from './types';
+import { en, fr, zhHK } from './messages';
+import type { Catalog, Message, MessageKey } from './messages';
+import { convertTemperature, datetime } from './utils';
+import { WEEKDAYS } from './hours';
+
+export type { MessageKey } from './messages';
+
+/** Supported languages by BCP 47 tag, named in their own language */
+export const LOCALES: Record<string, string> = {
+  en: 'English',
+  fr: 'Français',
+  'zh-HK': '中文（香港）'
+};
+
+const CATALOGS: Record<string, Catalog> = {
+  en,
+  fr,
+  'zh-HK': zhHK
+};
+
+let locale = 'en';
+let temperatureUnit: AppSettings['temperatureUnit'] = 'C';
+
+/**
+ * Pick the supported locale closest to a list of preferred languages,
+ * e.g. navigator.languages. fr-CA matches fr; Traditional Chinese matches zh-HK.
+ */
+export function matchLocale(preferred: readonly string[]): string {
+  for (const tag of preferred) {
+    if (tag in LOCALES) return tag;
+
+    const [language] = tag.split('-');
+    if (language === 'zh') {
+      if (/-(HK|MO|TW|Hant)\b/i.test(tag)) return 'zh-HK';
+    } else if (language in LOCALES) {
+      return language;
+    }
+  }
+  return 'en';
+}
+
+/**
+ * Apply the language and temperature unit from settings
+ */
+export function configureLocale(settings: Pick<AppSettings, 'language' | 'temperatureUnit'>): void {
+  locale = settings.language in CATALOGS ? settings.language : 'en';
+  temperatureUnit = settings.temperatureUnit;
+  datetime.locale = locale;
+}
+
+export function getLocale(): string {
+  return locale;
+}
+
+/**
+ * Translate a message, filling in its params. `count` picks the plural form.
+ */
+export function t(key: MessageKey, params: Record<string, string | number> = {}): string {
+  return interpolate(selectForm(CATALOGS[locale][key] ?? en[key], params.count), params);
+}
+
+/**
+ * Build catalog text to store as data, e.g. on an alert
+ */
+export function text(key: MessageKey, params?: Record<string, string | number>): LocalizedText {
+  return params ? { key, params } : { key };
+}
+
+/**
+ * Render stored catalog text in the current language. Keys that are no
+ * longer in the catalog render as the key.
+ */
+export function localize(stored: LocalizedText): string {
+  return stored.key in en ? t(stored.key as MessageKey, stored.params) : stored.key;
+}
+
+/**
+ * Alert title in the current language, falling back to the stored text for
+ * alerts raised before titles were kept as catalog text
+ */
+export function getAlertTitle(alert: Alert): string {
+  return alert.titleText ? localize(alert.titleText) : alert.title;
+}
+
+export function getAlertMessage(alert: Alert): string {
+  return alert.messageText ? alert.messageText.map(localize).join('\n') : alert.message;
+}
+
+/**
+ * Short weekday name, e.g. "Mon", "lun." or "週一"
+ */
+export function formatWeekday(day: Weekday): string {
+  // 2024-01-01 was a Monday
+  const date = new Date(Date.UTC(2024, 0, 1 + Object.keys(WEEKDAYS).indexOf(day)));
+  return new Intl.DateTimeFormat(locale, { weekday: 'short', timeZone: 'UTC' }).format(date);
+}
+
+export function formatNumber(value: number, maximumFractionDigits: number = 1): string {
+  return new Intl.NumberFormat(locale, { maximumFractionDigits }).format(value);
+}
+
+export function formatPercent(value: number): string {
+  return new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 0 }).format(value / 100);
+}
+
+/**
+ * Format a °C reading in the configured unit
+ */
+export function formatTemp(temp: number): string {
+  return `${fixed(convertTemperature(temp, temperatureUnit))}°${temperatureUnit}`;
+}
+
+/**
+ * Format a temperature difference in the configured unit
+ */
+export function formatTempChange(delta: number): string {
+  return `${fixed(temperatureUnit === 'F' ? delta * 9/5 : delta)}°${temperatureUnit}`;
+}
+
+/**
+ * Spell out a duration, e.g. "12 minutes" or "3 hours"
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return t('time.underMinute');
+  return minutes < 120 ? t('time.minutes', { count: minutes }) : t('time.hours', { count: Math.round(minutes / 60) });
+}
+
+/**
+ * Compact duration for stats and timers, e.g. "45m" or "1h 20m"
+ */
+export function formatShortDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  return minutes < 60
+    ? t('time.short.minutes', { count: minutes })
+    : t('time.short.hoursMinutes', { hours: Math.floor(minutes / 60), minutes: minutes % 60 });
+}
+
+/**
+ * How long ago a timestamp was, e.g. "5m ago"; a date once it's a month old
+ */
+export function formatRelativeTime(timestamp: string): string {
+  const diffMinutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000);
+
+  if (diffMinutes < 1) return t('time.justNow');
+  if (diffMinutes < 60) return t('time.minutesAgo', { count: diffMinutes });
+
+  const diffHours = Math.floor(diffMinutes / 60);
+  if (diffHours < 24) return t('time.hoursAgo', { count: diffHours });
+
+  const diffDays = Math.floor(diffHours / 24);
+  if (diffDays < 7) return t('time.daysAgo', { count: diffDays });
+
+  const diffWeeks = Math.floor(diffDays / 7);
+  if (diffWeeks < 4) return t('time.weeksAgo', { count: diffWeeks });
+
+  return datetime.formatDate(timestamp, 'short');
+}
+
+function fixed(value: number): string {
+  return new Intl.NumberFormat(locale, { minimumFractionDigits: 1, maximumFractionDigits: 1 }).format(value);
+}
+
+function selectForm(message: Message, count: string | number | undefined): string {
+  if (typeof message === 'string') return message;
+
+  const category = typeof count === 'number' ? new Intl.PluralRules(locale).select(count) : 'other';
+  return message[category] ?? message.other;
+}
+
+/**
+ * Fill {name} and {name, format} placeholders. Unknown params are left as-is.
+ */
+function interpolate(template: string, params: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)(?:,\s*(\w+))?\}/g, (placeholder, name: string, format?: string) => {
+    const value = params[name];
+    return value === undefined ? placeholder : formatParam(value, format);
+  });
+}
+
+function formatParam(value: string | number, format?: string): string {
+  switch (format) {
+    case 'number': return formatNumber(Number(value));
+    case 'percent': return formatPercent(Number(value));
+    case 'temperature': return formatTemp(Number(value));
+    case 'temperatureChange': return formatTempChange(Number(value));
+    case 'date': return datetime.formatDate(new Date(value), 'short');
+    case 'time': return datetime.formatDate(new Date(value), 'time');
+    case 'datetime': return new Date(value).toLocaleString(locale);
+    case 'duration': return formatDuration(Number(value));
+    default: return typeof value === 'number' ? formatNumber(value, 3) : value;
+  }
+}
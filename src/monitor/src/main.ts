@@ -1,214 +1,27 @@
-import * as VIAM from "@viamrobotics/sdk";
-import Cookies from "js-cookie";
-import type { StoreLocation, Alert, AppState, ViamCredentials, ViewType, SensorReading } from './types';
-import { AlertManager, SmartAlertFilter } from './alerts';
-import { formatRelativeTime, debounce, isStoreActive, safeJSONParse, playNotificationSound } from './utils';
-
-/**
- * Machine Connection Manager - Handles multiple Viam connections
- */
-class MachineConnectionManager {
-  private connections = new Map<string, VIAM.RobotClient>();
-  private credentials: ViamCredentials | null = null;
-
-  async initialize(): Promise<void> {
-    // Get credentials from cookies (set by Viam Apps)
-    const machineId = window.location.pathname.split("/")[2];
-    if (machineId) {
-      try {
-        const credData = Cookies.get(machineId);
-        if (credData) {
-          this.credentials = JSON.parse(credData);
-        }
-      } catch (error) {
-        console.error('Failed to parse credentials:', error);
-      }
-    }
-  }
-
-  async connectToStore(store: StoreLocation): Promise<boolean> {
-    if (!this.credentials) {
-      console.error('No credentials available');
-      return false;
-    }
-
-    try {
-      const opts: VIAM.ViamClientOptions = {
-        serviceHost: "https://app.viam.com",
-        credentials: {
-          type: "api-key",
-          authEntity: this.credentials.id,
-          payload: this.credentials.key,
-        },
-      };
-
-      const client = await VIAM.createViamClient(opts);
-      const robot = await client.appClient.getRobot(store.machineId);
-      
-      if (robot) {
-        this.connections.set(store.id, await client.connectToMachine({
-          host: this.credentials.hostname,
-          credentials: {
-            type: "api-key",
-            authEntity: this.credentials.id,
-            payload: this.credentials.key,
-          }
-        }));
-        console.log(`Connected to ${store.name}`);
-        return true;
-      }
-    } catch (error) {
-      console.error(`Failed to connect to ${store.name}:`, error);
-    }
-    return false;
-  }
-
-  async getSensorData(storeId: string): Promise<SensorReading[]> {
-    const client = this.connections.get(storeId);
-    if (!client) return [];
-
-    try {
-      // Get fill percentage sensor readings
-      const fillSensor = await client.getResource('sensor', 'fill-sensor');
-      const readings = await fillSensor.getReadings();
-      
-      return Object.entries(readings).map(([region, percentage]) => ({
-        componentName: region,
-        reading: percentage,
-        timestamp: new Date().toISOString(),
-        machineId: storeId
-      }));
-    } catch (error) {
-      console.error(`Failed to get sensor data for ${storeId}:`, error);
-      return [];
-    }
-  }
-
-  async getCameraFrame(storeId: string): Promise<string | null> {
-    const client = this.connections.get(storeId);
-    if (!client) return null;
-
-    try {
-      // Get annotated camera feed from fill-percent-camera
-      const camera = await client.getResource('camera', 'fill-camera');
-      const image = await camera.getImage();
-      
-      // Convert to base64 data URL
-      const blob = new Blob([image], { type: 'image/jpeg' });
-      return URL.createObjectURL(blob);
-    } catch (error) {
-      console.error(`Failed to get camera frame for ${storeId}:`, error);
-      return null;
-    }
-  }
-
-  async getTemperatureData(storeId: string): Promise<SensorReading[]> {
-    const client = this.connections.get(storeId);
-    if (!client) return [];
-
-    try {
-      // Get LoRaWAN temperature sensors
-      const tempSensors = await client.resourceNames().filter(name => 
-        name.namespace === 'viam' && 
-        name.type === 'sensor' && 
-        name.name.includes('temp')
-      );
-
-      const readings: SensorReading[] = [];
-      for (const sensorName of tempSensors) {
-        const sensor = await client.getResource('sensor', sensorName.name);
-        const data = await sensor.getReadings();
-        
-        if (data.TempC_SHT !== undefined) {
-          readings.push({
-            componentName: sensorName.name,
-            reading: data.TempC_SHT,
-            timestamp: new Date().toISOString(),
-            machineId: storeId
-          });
-        }
-      }
-      
-      return readings;
-    } catch (error) {
-      console.error(`Failed to get temperature data for ${storeId}:`, error);
-      return [];
-    }
-  }
-
-  isConnected(storeId: string): boolean {
-    return this.connections.has(storeId);
-  }
-}
-
-/**
- * Push Notification Manager
- */
-class PushNotificationManager {
-  private permission: NotificationPermission = 'default';
-
-  async initialize(): Promise<void> {
-    if ('Notification' in window) {
-      this.permission = Notification.permission;
-      if (this.permission === 'default') {
-        await this.requestPermission();
-      }
-    }
-
-    // Register service worker for push notifications
-    if ('serviceWorker' in navigator) {
-      try {
-        await navigator.serviceWorker.register('./sw.js');
-        console.log('Service Worker registered');
-      } catch (error) {
-        console.error('Service Worker registration failed:', error);
-      }
-    }
-  }
-
-  async requestPermission(): Promise<boolean> {
-    if ('Notification' in window) {
-      this.permission = await Notification.requestPermission();
-      return this.permission === 'granted';
-    }
-    return false;
-  }
-
-  async sendPushNotification(alert: Alert): Promise<void> {
-    if (this.permission !== 'granted') return;
-
-    if ('serviceWorker' in navigator) {
-      try {
-        const registration = await navigator.serviceWorker.ready;
-        
-        await registration.showNotification(alert.title, {
-          body: alert.message.split('\n')[0],
-          icon: './icon-192.png',
-          badge: './icon-192.png',
-          image: alert.imageUrl,
-          data: {
-            alertId: alert.id,
-            storeId: alert.storeId,
-            url: `?alert=${alert.id}`
-          },
-          tag: `alert-${alert.type}-${alert.storeId}`,
-          requireInteraction: alert.severity === 'critical',
-          actions: [
-            { action: 'view', title: 'View Details' },
-            { action: 'dismiss', title: 'Dismiss' }
-          ]
-        });
-
-        // Play sound for high priority alerts
-        if (alert.severity === 'critical' || alert.severity === 'high') {
-          playNotificationSound();
-        }
-      } catch (error) {
-        console.error('Failed to send push notification:', error);
-      }
-    }
-  }
-}
+import type { AppSettings, LocalizedText, StoreHours, StoreLocation, StoreRecord, ComplianceDay, StoreValidationError, Alert, AlertRule, AlertStatus, AlertEscalation, EscalationPolicy, EscalationRole, RuleMatch, RuleOperator, RuleSensor, HistoryRange, HistorySample, ShelfForecast, AppState, CameraAnnotation, CameraStream, ConnectionStatus, HealthIssue, MachineBackend, PlanogramEntry, PollingReason, RestockTask, ShelfPriority, VideoQuality, ViewType, SensorReading, Weekday } from './types';
+import { AlertManager, AlertNotificationManager, SmartAlertFilter } from './alerts';
+import { CameraManager, CameraOverlay, CAMERA_REFRESH_MS, VIDEO_QUALITIES, isPersonPresent, withAlertAnnotations } from './camera';
+import { MachineConnectionManager, isSameConnection, toStoreStatus } from './connections';
+import { CredentialStore, SHARED_CREDENTIAL } from './credentials';
+import { SimulatedMachineBackend, getSimulationFlag } from './simulator';
+import { MAX_CONCURRENT_POLLS, MAX_JITTER, MAX_POLLING_INTERVAL, MIN_POLLING_INTERVAL, PollingScheduler } from './scheduler';
+import type { PollContext } from './scheduler';
+import { SettingsService, THEMES, MIN_UPDATE_INTERVAL, MAX_UPDATE_INTERVAL } from './settings';
+import { StoreRegistry } from './stores';
+import { PlanogramRegistry, SHELF_PRIORITIES } from './planogram';
+import { AlertRulesEngine, RULE_OPERATORS, RULE_OPERATOR_LABELS, MAX_RATE_WINDOW_MS, isRateRule } from './rules';
+import { ReadingHistory } from './history';
+import { TrendChart, HISTORY_RANGES } from './charts';
+import { DepletionForecaster } from './forecast';
+import { EvidenceStore } from './evidence';
+import { RestockTaskManager } from './tasks';
+import { DEFAULT_STORE_HOURS, WEEKDAYS, addDays, formatExceptions, getExceptionOn, getStoreTime, parseExceptions } from './hours';
+import { HealthMonitor } from './health';
+import { ComplianceLog } from './compliance';
+import type { HealthChange } from './health';
+import { EscalationManager, ESCALATION_ROLES } from './escalation';
+import { datetime, debounce, escapeHtml, isStoreActive, safeJSONParse, convertTemperature, toCelsius } from './utils';
+import { LOCALES, configureLocale, t, text, localize, getAlertTitle, getAlertMessage, formatRelativeTime, formatShortDuration, formatTemp, formatNumber, formatWeekday } from './i18n';
 
 /**
  * Interactive Map Component using Leaflet
@@ -240,6 +53,14 @@ class InteractiveMap {
   updateStoreMarkers(stores: StoreLocation[], alerts: Alert[]): void {
     if (!this.map || !this.L) return;
 
+    // Drop markers for stores removed from the registry
+    for (const [storeId, marker] of this.markers.entries()) {
+      if (!stores.some(s => s.id === storeId)) {
+        marker.remove();
+        this.markers.delete(storeId);
+      }
+    }
+
     stores.forEach(store => {
       const storeAlerts = alerts.filter(a => a.storeId === store.id && !a.read);
       const alertCount = storeAlerts.length;
@@ -275,10 +96,10 @@ class InteractiveMap {
     const marker = this.L.marker([store.coords.lat, store.coords.lng], { icon })
       .bindPopup(`
         <div class="map-popup">
-          <h3>${store.name}</h3>
-          <p>${store.address}</p>
-          <p>Status: <span class="status-${store.status}">${store.status}</span></p>
-          ${alertCount > 0 ? `<p class="alert-count">${alertCount} active alerts</p>` : ''}
+          <h3>${escapeHtml(store.name)}</h3>
+          <p>${escapeHtml(store.address)}</p>
+          <p>${t('map.status')} <span class="status-${store.status}">${t(`storeStatus.${store.status}`)}</span></p>
+          ${alertCount > 0 ? `<p class="alert-count">${t('map.activeAlerts', { count: alertCount })}</p>` : ''}
         </div>
       `)
       .addTo(this.map);
@@ -317,59 +138,97 @@ class InteractiveMap {
  */
 class InventoryMonitorApp {
   private state: AppState;
-  private connectionManager: MachineConnectionManager;
+  private connectionManager: MachineBackend;
+  private simulated: boolean;
+  private credentials: CredentialStore;
+  private storeRegistry: StoreRegistry;
+  private planogram: PlanogramRegistry;
   private alertManager: AlertManager;
-  private notificationManager: PushNotificationManager;
+  private notificationManager: AlertNotificationManager;
   private smartFilter: SmartAlertFilter;
+  private rulesEngine: AlertRulesEngine;
+  private history: ReadingHistory;
+  private forecaster: DepletionForecaster;
+  private evidence: EvidenceStore;
+  private alertEvidence = new Set<string>();
+  private taskManager: RestockTaskManager;
+  private healthMonitor: HealthMonitor;
+  private compliance: ComplianceLog;
+  private escalationManager: EscalationManager;
   private map: InteractiveMap;
-  private updateInterval: NodeJS.Timeout | null = null;
-
-  // Pret store configuration
-  private readonly stores: StoreLocation[] = [
-    {
-      id: 'store-5th-ave',
-      name: 'Pret 5th Avenue',
-      address: '389 5th Ave, New York, NY 10016',
-      coords: { lat: 40.7516, lng: -73.9755 },
-      machineId: 'a7c5717d-f48e-4ac8-b179-7c7aa73571de',
-      status: 'unknown',
-      region: 'manhattan'
-    },
-    {
-      id: 'store-times-square',
-      name: 'Pret Times Square',
-      address: '1500 Broadway, New York, NY 10036',
-      coords: { lat: 40.7589, lng: -73.9851 },
-      machineId: 'demo-machine-times-square',
-      status: 'unknown',
-      region: 'manhattan'
-    },
-    {
-      id: 'store-grand-central',
-      name: 'Pret Grand Central',
-      address: '89 E 42nd St, New York, NY 10017',
-      coords: { lat: 40.7527, lng: -73.9772 },
-      machineId: 'demo-machine-grand-central',
-      status: 'unknown',
-      region: 'manhattan'
-    }
-  ];
+  private settingsService: SettingsService;
+  private scheduler: PollingScheduler;
+  private cameraManager: CameraManager;
+  private cameraRefreshInterval: ReturnType<typeof setInterval> | null = null;
+  private cameraAgeInterval: ReturnType<typeof setInterval> | null = null;
+  private cameraObserver: IntersectionObserver | null = null;
 
   constructor() {
     this.state = {
-      stores: this.stores,
+      stores: [],
       alerts: [],
       selectedStores: new Set(),
       currentView: 'stores',
+      alertStatusFilter: 'all',
       isOnline: navigator.onLine,
       lastSync: new Date().toISOString()
     };
 
-    this.connectionManager = new MachineConnectionManager();
+    this.settingsService = new SettingsService();
+    this.storeRegistry = new StoreRegistry();
+    this.credentials = new CredentialStore(this.storeRegistry);
+    
+    // ?simulate swaps real machines for scripted ones
+    const simulationSpeed = getSimulationFlag();
+    this.simulated = simulationSpeed !== null;
+    this.connectionManager = simulationSpeed !== null
+      ? new SimulatedMachineBackend({ timeScale: simulationSpeed })
+      : new MachineConnectionManager(this.credentials);
+    this.cameraManager = new CameraManager(this.connectionManager);
+    this.planogram = new PlanogramRegistry();
     this.alertManager = new AlertManager();
-    this.notificationManager = new PushNotificationManager();
+    this.notificationManager = new AlertNotificationManager(this.alertManager);
     this.smartFilter = new SmartAlertFilter();
+    this.rulesEngine = new AlertRulesEngine();
+    this.history = new ReadingHistory();
+    this.forecaster = new DepletionForecaster();
+    this.evidence = new EvidenceStore();
+    this.taskManager = new RestockTaskManager();
+    this.healthMonitor = new HealthMonitor();
+    this.compliance = new ComplianceLog(this.rulesEngine);
+    this.escalationManager = new EscalationManager(this.alertManager);
     this.map = new InteractiveMap();
+    this.scheduler = new PollingScheduler(
+      (storeId, context) => this.pollStore(storeId, context),
+      storeId => this.getPollingConditions(storeId),
+      this.settingsService.getSettings().updateInterval
+    );
+
+    this.storeRegistry.subscribe(stores => this.handleStoresChanged(stores));
+    this.planogram.subscribe(() => this.render());
+    this.connectionManager.subscribe(status => this.handleConnectionStatus(status));
+    this.state.alerts = this.alertManager.getAlerts();
+    this.alertEvidence = this.getEvidenceIds(this.state.alerts);
+    this.alertManager.subscribe(alerts => {
+      this.state.alerts = alerts;
+      this.releaseEvidence(alerts);
+      this.scheduler.refresh();
+    });
+    this.applySettings(this.settingsService.getSettings());
+    this.settingsService.subscribe(settings => {
+      this.applySettings(settings);
+      this.render();
+    });
+    this.escalationManager.subscribe((alert, escalation) => this.handleEscalation(alert, escalation));
+    this.healthMonitor.subscribe(change => this.handleHealthChange(change));
+    this.cameraManager.subscribe(stream => this.updateCameraFeed(stream));
+    this.evidence.subscribe(() => {
+      if (this.state.currentView === 'alerts') this.render();
+    });
+    this.taskManager.subscribe(() => {
+      if (this.state.currentView === 'tasks') this.render();
+    });
+    this.notificationManager.subscribe(() => this.render());
 
     this.bindEvents();
   }
@@ -382,6 +241,10 @@ class InventoryMonitorApp {
       await this.connectionManager.initialize();
       await this.notificationManager.initialize();
       
+      // Load store registry (local edits or seed document)
+      await this.storeRegistry.initialize();
+      this.state.stores = this.storeRegistry.getStores();
+      
       // Load saved state
       this.loadState();
       
@@ -398,6 +261,20 @@ class InventoryMonitorApp {
       
       // Start real-time updates
       this.startRealTimeUpdates();
+      this.syncCameraRefresh();
+      
+      // Escalate alerts nobody has acknowledged
+      this.escalationManager.start();
+      
+      // Watch for offline machines, dead cameras and silent sensors; stores
+      // deselected since the last session have nothing left to watch
+      this.healthMonitor.getIssues()
+        .filter(issue => !this.state.selectedStores.has(issue.storeId))
+        .forEach(issue => this.healthMonitor.forget(issue.storeId));
+      this.healthMonitor.start();
+      
+      // Drop evidence images past their retention
+      this.evidence.maybePrune(this.getEvidenceInUse());
       
       console.log('✅ Initialization complete');
       
@@ -409,16 +286,15 @@ class InventoryMonitorApp {
 
   private async connectToSelectedStores(): Promise<void> {
     const selectedStores = Array.from(this.state.selectedStores);
-    if (selectedStores.length === 0) {
+    if (selectedStores.length === 0 && this.state.stores.length > 0) {
       // Auto-select first store for demo
-      this.state.selectedStores.add(this.stores[0].id);
+      this.state.selectedStores.add(this.state.stores[0].id);
     }
 
     const connections = Array.from(this.state.selectedStores).map(async storeId => {
-      const store = this.stores.find(s => s.id === storeId);
+      const store = this.storeRegistry.getStore(storeId);
       if (store) {
-        const connected = await this.connectionManager.connectToStore(store);
-        store.status = connected ? 'online' : 'offline';
+        await this.connectionManager.connectToStore(store);
       }
     });
 
@@ -435,103 +311,358 @@ class InventoryMonitorApp {
   }
 
   private startRealTimeUpdates(): void {
-    // Update every 30 seconds
-    this.updateInterval = setInterval(async () => {
-      await this.updateAllStores();
-    }, 30000);
-
-    // Initial update
-    setTimeout(() => this.updateAllStores(), 1000);
+    this.scheduler.start(Array.from(this.state.selectedStores));
   }
 
-  private async updateAllStores(): Promise<void> {
-    const selectedStores = Array.from(this.state.selectedStores);
+  private async pollStore(storeId: string, context: PollContext): Promise<void> {
+    const store = this.storeRegistry.getStore(storeId);
+    if (!store || !this.connectionManager.isConnected(storeId)) return;
     
-    for (const storeId of selectedStores) {
-      const store = this.stores.find(s => s.id === storeId);
-      if (store && this.connectionManager.isConnected(storeId)) {
-        await this.processStoreData(store);
-      }
-    }
+    await this.processStoreData(store, context);
     
     this.state.lastSync = new Date().toISOString();
     this.render();
   }
 
-  private async processStoreData(store: StoreLocation): Promise<void> {
+  private getPollingConditions(storeId: string): { hasActiveAlerts: boolean; isOpen: boolean } {
+    const store = this.storeRegistry.getStore(storeId);
+    return {
+      hasActiveAlerts: this.state.alerts.some(a => a.storeId === storeId && a.status !== 'resolved'),
+      isOpen: store ? isStoreActive(store) : true
+    };
+  }
+
+  private async processStoreData(store: StoreLocation, context: PollContext): Promise<void> {
+    // Fetch from the machine in parallel; each call has its own timeout
+    const [sensorData, cameraFrame, tempData, detections] = await Promise.all([
+      context.call('fill', () => this.connectionManager.getSensorData(store.id), [] as SensorReading[]),
+      context.call('camera', () => this.connectionManager.getCameraFrame(store.id), null as string | null),
+      context.call('temperature', () => this.connectionManager.getTemperatureData(store.id), [] as SensorReading[]),
+      context.call('vision', () => this.connectionManager.getCameraAnnotations(store.id), [] as CameraAnnotation[])
+    ]);
+    
+    // Someone at the shelves is most likely restocking: don't raise or
+    // escalate shelf alerts while they work
+    const personDetected = isPersonPresent(detections);
+    
+    // Results of a cancelled poll say nothing about the equipment
+    if (!context.signal.aborted) {
+      this.healthMonitor.recordCamera(store.id, cameraFrame !== null);
+      this.healthMonitor.recordTemperature(store.id, tempData);
+      this.healthMonitor.recordFill(store.id, sensorData, isStoreActive(store));
+      this.healthMonitor.check();
+    }
+    if (personDetected) {
+      this.escalationManager.holdShelfAlerts(store.id);
+    }
+    
+    // Keep the frame only if an alert needs it, and only once per poll
+    let evidence: Promise<string | null> | null = null;
+    const captureEvidence = () => {
+      if (!evidence) {
+        evidence = cameraFrame ? this.evidence.capture(store.id, cameraFrame) : Promise.resolve(null);
+      }
+      return evidence;
+    };
+    
     try {
-      // Get sensor readings
-      const sensorData = await this.connectionManager.getSensorData(store.id);
-      const cameraFrame = await this.connectionManager.getCameraFrame(store.id);
+      await this.history.record(store.id, 'fill', sensorData);
       
       // Process fill percentage alerts
       for (const reading of sensorData) {
-        if (this.isShelfEmpty(reading) && !this.smartFilter.shouldSuppressAlert(
-          store.id, 
-          'empty_shelf', 
-          { fillPercent: reading.reading as number, isBusinessHours: isStoreActive(store) }
-        )) {
-          await this.createEmptyShelfAlert(store, reading, cameraFrame);
+        for (const match of this.rulesEngine.evaluate(store, 'fill', reading)) {
+          if (!this.smartFilter.shouldSuppressAlert(
+            store.id, 
+            'empty_shelf', 
+            { fillPercent: reading.reading as number, threshold: match.threshold, personDetected, isBusinessHours: isStoreActive(store) }
+          )) {
+            await this.createEmptyShelfAlert(store, match, captureEvidence);
+          }
+        }
+        
+        if (this.rulesEngine.isInRange(store, 'fill', reading)) {
+          this.alertManager.autoResolve(store.id, ['empty_shelf'], reading.componentName,
+            t('resolved.fill', { fill: reading.reading }));
+        }
+        if (typeof reading.reading === 'number') {
+          this.taskManager.autoComplete(store.id, reading.componentName, reading.reading,
+            this.getEmptyLevel(store.id, reading.componentName));
         }
       }
       
+      // Forecast shelves trending towards empty
+      await this.processForecasts(store, sensorData, personDetected, captureEvidence);
+      
       // Process temperature alerts
-      const tempData = await this.connectionManager.getTemperatureData(store.id);
+      await this.history.record(store.id, 'temperature', tempData);
+      this.compliance.record(store, tempData);
       for (const temp of tempData) {
-        if (this.isTemperatureAlert(temp) && !this.smartFilter.shouldSuppressAlert(
-          store.id,
-          'temperature',
-          { temperature: temp.reading as number, isBusinessHours: isStoreActive(store) }
-        )) {
-          await this.createTemperatureAlert(store, temp);
+        for (const match of this.rulesEngine.evaluate(store, 'temperature', temp)) {
+          if (!this.smartFilter.shouldSuppressAlert(
+            store.id,
+            'temperature',
+            { temperature: temp.reading as number, isBusinessHours: isStoreActive(store) }
+          )) {
+            await this.createTemperatureAlert(store, match);
+          }
+        }
+        
+        if (this.rulesEngine.isInRange(store, 'temperature', temp)) {
+          this.alertManager.autoResolve(store.id, ['temperature'], temp.componentName,
+            t('resolved.temperature', { temperature: temp.reading }));
         }
       }
       
     } catch (error) {
       console.error(`Failed to process data for ${store.name}:`, error);
+    } finally {
+      if (cameraFrame?.startsWith('blob:')) {
+        URL.revokeObjectURL(cameraFrame);
+      }
+    }
+    
+    if (evidence) {
+      this.evidence.maybePrune(this.getEvidenceInUse());
+    }
+  }
+
+  private getEvidenceIds(alerts: Alert[]): Set<string> {
+    return new Set(alerts.filter(alert => alert.evidenceId).map(alert => alert.evidenceId!));
+  }
+  
+  /**
+   * Delete the evidence of alerts that were deleted, cleared, replaced by an
+   * import or dropped past the stored alert limit
+   */
+  private releaseEvidence(alerts: Alert[]): void {
+    const current = this.getEvidenceIds(alerts);
+    const removed = Array.from(this.alertEvidence).filter(id => !current.has(id));
+    this.alertEvidence = current;
+    this.evidence.delete(removed).catch(error => console.warn('Failed to delete evidence:', error));
+  }
+  
+  /**
+   * Evidence images that unresolved alerts still point at
+   */
+  private getEvidenceInUse(): Set<string> {
+    return new Set(this.state.alerts
+      .filter(alert => alert.evidenceId && alert.status !== 'resolved')
+      .map(alert => alert.evidenceId!));
+  }
+
+  private async processForecasts(
+    store: StoreLocation,
+    sensorData: SensorReading[],
+    personDetected: boolean,
+    captureEvidence: () => Promise<string | null>
+  ): Promise<void> {
+    const settings = this.forecaster.getSettings();
+    if (!settings.enabled) return;
+    
+    const now = Date.now();
+    for (const reading of sensorData) {
+      if (typeof reading.reading !== 'number') continue;
+      
+      const samples = await this.history.query({
+        storeId: store.id,
+        componentName: reading.componentName,
+        sensor: 'fill',
+        start: new Date(now - settings.windowMinutes * 60000),
+        end: new Date(now)
+      });
+      const forecast = this.forecaster.forecast(samples, this.getEmptyLevel(store.id, reading.componentName), now);
+      
+      if (!this.forecaster.shouldAlert(forecast)) {
+        this.alertManager.autoResolve(store.id, ['predicted_empty'], reading.componentName,
+          t('resolved.forecast'));
+      } else if (!this.smartFilter.shouldSuppressAlert(
+        store.id,
+        'predicted_empty',
+        { fillPercent: reading.reading, confidence: forecast.confidence, personDetected, isBusinessHours: isStoreActive(store) }
+      )) {
+        await this.createPredictedEmptyAlert(store, forecast, captureEvidence);
+      }
+    }
+  }
+
+  private getEmptyLevel(storeId: string, componentName: string): number {
+    // Forecast towards the level at which an empty-shelf rule would fire
+    const thresholds = this.rulesEngine.getApplicableRules(storeId, 'fill', componentName)
+      .filter(rule => rule.operator === '<' || rule.operator === '<=')
+      .map(rule => rule.threshold);
+    return thresholds.length > 0 ? Math.max(...thresholds) : 0;
+  }
+
+  private async createPredictedEmptyAlert(store: StoreLocation, forecast: ShelfForecast, captureEvidence: () => Promise<string | null>): Promise<void> {
+    const existing = this.alertManager.findOpen(store.id, 'predicted_empty', forecast.componentName);
+    const evidenceId = existing?.evidenceId || await captureEvidence();
+    const minutes = Math.round(forecast.minutesToEmpty ?? 0);
+    const leadTime = this.forecaster.getSettings().leadTimeMinutes;
+    const shelf = this.planogram.describe(store.id, forecast.componentName);
+    const { alert, created } = this.alertManager.raise({
+      storeId: store.id,
+      storeName: store.name,
+      type: 'predicted_empty',
+      severity: this.planogram.adjustSeverity(store.id, forecast.componentName, minutes <= leadTime / 2 ? 'high' : 'medium'),
+      ...this.alertText(text('alert.predicted.title', { shelf, store: store.name }), [
+        text('alert.predicted.body', { shelf, minutes }),
+        text('alert.predicted.fill', { fill: forecast.currentFill, rate: Math.abs(forecast.ratePerMinute) }),
+        this.describeStock(store.id, forecast.componentName, forecast.currentFill),
+        text('alert.location', { address: store.address }),
+        text('alert.time', { time: new Date().toISOString() })
+      ]),
+      component: forecast.componentName,
+      shelves: [forecast.componentName],
+      threshold: forecast.emptyLevel,
+      confidence: forecast.confidence,
+      projectedEmptyAt: forecast.projectedEmptyAt || undefined,
+      location: store.address,
+      evidenceId: evidenceId || undefined
+    });
+    
+    if (created) {
+      await this.notificationManager.notify(alert);
     }
+    this.state.alerts = this.alertManager.getAlerts();
   }
 
-  private isShelfEmpty(reading: any): boolean {
-    return typeof reading.reading === 'number' && reading.reading < 15; // 15% threshold
+  private async handleEscalation(alert: Alert, escalation: AlertEscalation): Promise<void> {
+    if (this.escalationManager.isReceiving(escalation.role)) {
+      await this.notificationManager.notify(alert,
+        t('alert.escalated.title', { role: t(`role.${escalation.role}`), title: getAlertTitle(alert) }));
+    }
+    
+    this.render();
   }
 
-  private isTemperatureAlert(reading: any): boolean {
-    return typeof reading.reading === 'number' && Math.abs(reading.reading) > 5; // 5°C threshold
+  /**
+   * Raise an equipment failure for a new health issue, or resolve it once
+   * the equipment has recovered
+   */
+  private async handleHealthChange(change: HealthChange): Promise<void> {
+    const { issue } = change;
+    if (change.type === 'cleared') {
+      this.alertManager.autoResolve(issue.storeId, ['equipment_failure'], issue.component, change.note || t('health.recovered.other'));
+      this.state.alerts = this.alertManager.getAlerts();
+      this.render();
+      return;
+    }
+    
+    const store = this.storeRegistry.getStore(issue.storeId);
+    if (store) {
+      await this.createEquipmentAlert(store, issue);
+      this.render();
+    }
   }
 
-  private async createEmptyShelfAlert(store: StoreLocation, reading: any, cameraFrame: string | null): Promise<void> {
+  private async createEquipmentAlert(store: StoreLocation, issue: HealthIssue): Promise<void> {
+    const titles: Record<HealthIssue['check'], LocalizedText> = {
+      machine: text('alert.machine.title', { store: store.name }),
+      camera: text('alert.camera.title', { store: store.name }),
+      temperature_sensor: text('alert.temperatureSensor.title', { component: issue.component, store: store.name }),
+      fill_sensor: text('alert.fillSensor.title', { shelf: this.planogram.describe(store.id, issue.component), store: store.name })
+    };
     const alert = this.alertManager.addAlert({
+      storeId: store.id,
+      storeName: store.name,
+      type: 'equipment_failure',
+      severity: issue.severity,
+      ...this.alertText(titles[issue.check], [
+        issue.text,
+        text('alert.since', { since: issue.since }),
+        text('alert.location', { address: store.address })
+      ]),
+      component: issue.component,
+      confidence: 100,
+      location: store.address
+    });
+    
+    await this.notificationManager.notify(alert);
+    this.state.alerts = this.alertManager.getAlerts();
+  }
+
+  private async createEmptyShelfAlert(store: StoreLocation, match: RuleMatch, captureEvidence: () => Promise<string | null>): Promise<void> {
+    const { reading } = match;
+    const existing = this.alertManager.findOpen(store.id, 'empty_shelf', reading.componentName);
+    const evidenceId = existing?.evidenceId || await captureEvidence();
+    const shelf = this.planogram.describe(store.id, reading.componentName);
+    const stock = typeof reading.reading === 'number' ? this.describeStock(store.id, reading.componentName, reading.reading) : null;
+    const { alert, created } = this.alertManager.raise({
       storeId: store.id,
       storeName: store.name,
       type: 'empty_shelf',
-      title: `Empty Shelves: ${reading.componentName} - ${store.name}`,
-      message: `The following shelves are empty: ${reading.componentName}\nLocation: ${store.address}\nTime: ${new Date().toLocaleString()}\n\nSee the attached image for review.`,
+      severity: this.planogram.adjustSeverity(store.id, reading.componentName, match.severity),
+      ...this.alertText(text('alert.emptyShelf.title', { shelf, store: store.name }), [
+        text('alert.emptyShelf.body', { shelf }),
+        match.text,
+        stock,
+        text('alert.location', { address: store.address }),
+        text('alert.time', { time: new Date().toISOString() }),
+        text('alert.emptyShelf.image')
+      ]),
+      component: reading.componentName,
       shelves: [reading.componentName],
+      threshold: match.threshold,
       confidence: 95,
       location: store.address,
-      imageUrl: cameraFrame || undefined,
-      annotatedImageUrl: cameraFrame || undefined
+      evidenceId: evidenceId || undefined
     });
+    this.taskManager.createFromAlert(alert, shelf);
     
-    await this.notificationManager.sendPushNotification(alert);
+    if (created) {
+      await this.notificationManager.notify(alert);
+    }
     this.state.alerts = this.alertManager.getAlerts();
   }
 
-  private async createTemperatureAlert(store: StoreLocation, reading: any): Promise<void> {
-    const alert = this.alertManager.addAlert({
+  /**
+   * Estimated units left, as an extra alert message line, when the planogram
+   * knows the shelf capacity
+   */
+  private describeStock(storeId: string, region: string, fillPercent: number): LocalizedText | null {
+    const entry = this.planogram.getEntry(storeId, region);
+    return entry
+      ? text('alert.stock', { units: this.planogram.estimateUnits(entry, fillPercent), capacity: entry.capacity })
+      : null;
+  }
+  
+  /**
+   * Title and message fields for a new alert: the catalog text, plus that
+   * text rendered now for notifications and exports. Null lines are skipped.
+   */
+  private alertText(title: LocalizedText, lines: Array<LocalizedText | null>): Pick<Alert, 'title' | 'message' | 'titleText' | 'messageText'> {
+    const messageText = lines.filter((line): line is LocalizedText => line !== null);
+    return {
+      title: localize(title),
+      message: messageText.map(localize).join('\n'),
+      titleText: title,
+      messageText
+    };
+  }
+
+  private async createTemperatureAlert(store: StoreLocation, match: RuleMatch): Promise<void> {
+    const { reading } = match;
+    const { alert, created } = this.alertManager.raise({
       storeId: store.id,
       storeName: store.name,
       type: 'temperature',
-      title: `Temperature Alert - ${store.name}`,
-      message: `Temperature: ${reading.reading}°C (Threshold: 5.0°C)\nLocation: ${store.address}\nTime: ${new Date().toLocaleString()}`,
+      severity: match.severity,
+      ...this.alertText(text('alert.temperature.title', { sensor: reading.componentName, store: store.name }), [
+        match.text,
+        text('alert.sensor', { sensor: reading.componentName }),
+        text('alert.location', { address: store.address }),
+        text('alert.time', { time: new Date().toISOString() })
+      ]),
+      component: reading.componentName,
       temperature: reading.reading,
-      threshold: 5.0,
+      threshold: match.threshold,
       confidence: 90,
       location: store.address
     });
     
-    await this.notificationManager.sendPushNotification(alert);
+    if (created) {
+      await this.notificationManager.notify(alert);
+    }
     this.state.alerts = this.alertManager.getAlerts();
   }
 
@@ -540,6 +671,106 @@ class InventoryMonitorApp {
     document.addEventListener('click', (e) => {
       const target = e.target as HTMLElement;
       
+      // Store registry management
+      if (target.closest('.store-add-btn')) {
+        this.showStoreEditor();
+        return;
+      }
+      
+      if (target.closest('.credentials-btn')) {
+        this.showCredentialsEditor();
+        return;
+      }
+      
+      if (target.closest('.planogram-btn')) {
+        this.showPlanogramEditor();
+        return;
+      }
+      
+      if (target.closest('.compliance-btn')) {
+        this.showComplianceLog();
+        return;
+      }
+      
+      if (target.closest('.settings-btn')) {
+        this.switchTab(this.state.currentView === 'settings' ? 'stores' : 'settings');
+        return;
+      }
+      
+      if (target.closest('.snooze-btn')) {
+        if (this.notificationManager.getQuietReason() === 'snoozed') {
+          this.notificationManager.resume();
+        } else {
+          this.notificationManager.snooze();
+        }
+        return;
+      }
+      
+      const statusFilterBtn = target.closest('.status-filter-btn');
+      if (statusFilterBtn) {
+        this.state.alertStatusFilter = (statusFilterBtn.getAttribute('data-status') || 'all') as AlertStatus | 'all';
+        this.render();
+        return;
+      }
+      
+      if (target.closest('.escalation-btn')) {
+        this.showEscalationEditor();
+        return;
+      }
+      
+      if (target.closest('.rules-btn')) {
+        this.showRulesEditor();
+        return;
+      }
+      
+      const taskBtn = target.closest('.task-action-btn');
+      if (taskBtn) {
+        this.runTaskAction(taskBtn.getAttribute('data-task-id') || '', taskBtn.getAttribute('data-action') || '');
+        return;
+      }
+      
+      const detailBtn = target.closest('.store-detail-btn');
+      if (detailBtn) {
+        const store = this.storeRegistry.getStore(detailBtn.getAttribute('data-store-id') || '');
+        if (store) {
+          this.showStoreDetail(store);
+        }
+        return;
+      }
+      
+      const liveBtn = target.closest('.camera-live-btn');
+      if (liveBtn) {
+        const storeId = liveBtn.getAttribute('data-store-id') || '';
+        if (this.cameraManager.getCameraStream(storeId)?.videoRequested) {
+          this.cameraManager.stopVideo(storeId);
+        } else {
+          this.cameraManager.startVideo(storeId);
+        }
+        return;
+      }
+      
+      const pauseBtn = target.closest('.camera-pause-btn');
+      if (pauseBtn) {
+        const storeId = pauseBtn.getAttribute('data-store-id') || '';
+        this.cameraManager.setPaused(storeId, !this.cameraManager.getCameraStream(storeId)?.paused);
+        return;
+      }
+      
+      const retryBtn = target.closest('.store-retry-btn');
+      if (retryBtn) {
+        this.connectionManager.retryNow(retryBtn.getAttribute('data-store-id') || '');
+        return;
+      }
+      
+      const editBtn = target.closest('.store-edit-btn');
+      if (editBtn) {
+        const store = this.storeRegistry.getStore(editBtn.getAttribute('data-store-id') || '');
+        if (store) {
+          this.showStoreEditor(store);
+        }
+        return;
+      }
+      
       if (target.classList.contains('tab-btn') || target.closest('.tab-btn')) {
         const tabBtn = target.classList.contains('tab-btn') ? target : target.closest('.tab-btn');
         const tab = tabBtn?.getAttribute('data-tab') as ViewType;
@@ -578,6 +809,33 @@ class InventoryMonitorApp {
       this.render();
     });
 
+    document.addEventListener('change', (e) => {
+      const target = e.target as HTMLElement;
+      if (target.classList.contains('task-check')) {
+        this.taskManager.toggleChecklistItem(target.getAttribute('data-task-id') || '',
+          Number(target.getAttribute('data-index')));
+        return;
+      }
+      if (target.closest('.settings-form')) {
+        this.updateSettingFromForm(target as HTMLInputElement | HTMLSelectElement);
+        return;
+      }
+      if (target.classList.contains('camera-quality-select')) {
+        const select = target as HTMLSelectElement;
+        this.cameraManager.setVideoQuality(select.getAttribute('data-store-id') || '', select.value as VideoQuality);
+      }
+    });
+
+    // Stop camera traffic while the app is in the background
+    document.addEventListener('visibilitychange', () => this.syncCameraRefresh());
+
+    // Overlays are drawn at the displayed frame size
+    window.addEventListener('resize', debounce(() => {
+      if (this.state.currentView === 'camera') {
+        this.mountCameraFeeds();
+      }
+    }, 200));
+
     // Handle URL parameters (deep linking to alerts)
     const urlParams = new URLSearchParams(window.location.search);
     const alertId = urlParams.get('alert');
@@ -586,9 +844,123 @@ class InventoryMonitorApp {
     }
   }
 
+  /**
+   * Push settings out to the services that use them. Runs at startup and
+   * whenever settings change, so changes apply without a reload.
+   */
+  private applySettings(settings: AppSettings): void {
+    this.scheduler.setBaseInterval(settings.updateInterval);
+    configureLocale(settings);
+    this.notificationManager.setPreferences(settings);
+    document.documentElement.dataset.theme = settings.theme;
+    document.documentElement.lang = settings.language;
+  }
+
+  /**
+   * Save the setting a settings-view control was changed to. Invalid values
+   * are reported in the form and not saved.
+   */
+  private async updateSettingFromForm(input: HTMLInputElement | HTMLSelectElement): Promise<void> {
+    const updates: Partial<AppSettings> = {};
+    switch (input.name) {
+      case 'quietStart':
+      case 'quietEnd':
+      case 'dayOff':
+      case 'criticalOverride':
+        this.updateScheduleFromForm(input.closest('.settings-form') as HTMLElement);
+        return;
+      case 'notificationsEnabled':
+      case 'soundEnabled':
+        updates[input.name] = (input as HTMLInputElement).checked;
+        break;
+      case 'updateInterval':
+        updates.updateInterval = Number(input.value) * 1000;
+        break;
+      case 'alertInterval':
+      case 'closedInterval':
+      case 'jitter':
+      case 'maxConcurrent':
+        this.updatePollingFromForm(input.closest('.settings-form') as HTMLElement);
+        return;
+      case 'theme':
+        updates.theme = input.value as AppSettings['theme'];
+        break;
+      case 'language':
+        updates.language = input.value;
+        break;
+      case 'temperatureUnit':
+        updates.temperatureUnit = input.value as AppSettings['temperatureUnit'];
+        break;
+      default:
+        return;
+    }
+    
+    if (updates.notificationsEnabled && this.notificationManager.getPermission() === 'default') {
+      await this.notificationManager.requestPermission();
+    }
+    
+    this.showSettingsErrors(this.settingsService.updateSettings(updates));
+  }
+
+  /**
+   * Save the notification schedule from the settings view. Quiet hours are
+   * read as a pair, so a half-entered window is reported rather than saved.
+   */
+  private updateScheduleFromForm(form: HTMLElement): void {
+    const value = (name: string) => (form.querySelector(`[name="${name}"]`) as HTMLInputElement).value;
+    const start = value('quietStart');
+    const end = value('quietEnd');
+    
+    this.showSettingsErrors(this.notificationManager.updateSchedule({
+      quietHours: start || end ? { start, end } : undefined,
+      daysOff: Array.from(form.querySelectorAll<HTMLInputElement>('[name="dayOff"]:checked')).map(input => input.value as Weekday),
+      criticalOverride: (form.querySelector('[name="criticalOverride"]') as HTMLInputElement).checked
+    }));
+  }
+
+  /**
+   * Save the adaptive polling settings from the settings view
+   */
+  private updatePollingFromForm(form: HTMLElement): void {
+    const value = (name: string) => Number((form.querySelector(`[name="${name}"]`) as HTMLInputElement).value);
+    
+    this.showSettingsErrors(this.scheduler.updateSettings({
+      alertIntervalMs: value('alertInterval') * 1000,
+      closedIntervalMs: value('closedInterval') * 60000,
+      jitter: value('jitter') / 100,
+      maxConcurrent: value('maxConcurrent')
+    }));
+  }
+
+  private showSettingsErrors(errors: string[]): void {
+    const errorBox = document.querySelector('.settings-form .form-errors') as HTMLElement | null;
+    if (errorBox) {
+      errorBox.hidden = errors.length === 0;
+      errorBox.innerHTML = errors.map(error => `<div>${escapeHtml(error)}</div>`).join('');
+    }
+  }
+
+  /**
+   * Why notifications are paused, for the header and settings view
+   */
+  private describeQuiet(): string | null {
+    const schedule = this.notificationManager.getSchedule();
+    switch (this.notificationManager.getQuietReason()) {
+      case 'snoozed':
+        return t('quiet.snoozed', { until: schedule.snoozedUntil! });
+      case 'quiet_hours':
+        return t('quiet.quietHours', { until: schedule.quietHours!.end });
+      case 'day_off':
+        return t('quiet.dayOff');
+      default:
+        return null;
+    }
+  }
+
   private async switchTab(tab: ViewType): Promise<void> {
     this.state.currentView = tab;
     this.render();
+    this.syncCameraRefresh();
     
     // Initialize map when switching to map view
     if (tab === 'map') {
@@ -601,74 +973,1763 @@ class InventoryMonitorApp {
   private async toggleStore(storeId: string): Promise<void> {
     if (this.state.selectedStores.has(storeId)) {
       this.state.selectedStores.delete(storeId);
+      this.connectionManager.disconnectStore(storeId);
+      this.cameraManager.removeCameraStream(storeId);
     } else {
       this.state.selectedStores.add(storeId);
       
       // Connect to newly selected store
-      const store = this.stores.find(s => s.id === storeId);
+      const store = this.storeRegistry.getStore(storeId);
       if (store) {
-        const connected = await this.connectionManager.connectToStore(store);
-        store.status = connected ? 'online' : 'offline';
+        await this.connectionManager.connectToStore(store);
       }
     }
     
+    this.scheduler.setStores(Array.from(this.state.selectedStores));
     this.saveState();
     this.render();
+    this.syncCameraRefresh();
   }
 
-  private openAlert(alertId: string): void {
-    const alert = this.state.alerts.find(a => a.id === alertId);
-    if (alert) {
-      this.alertManager.markAsRead(alertId);
-      this.state.alerts = this.alertManager.getAlerts();
-      this.showAlertDetail(alert);
-      this.render();
+  private handleStoresChanged(stores: StoreLocation[]): void {
+    const previousStores = this.state.stores;
+    this.state.stores = stores;
+    
+    // Forget selections for stores that no longer exist, reconnect selected
+    // stores whose machine or address changed and connect stores selected
+    // under a new ID. Other stores keep their connection, and its backoff.
+    for (const storeId of Array.from(this.state.selectedStores)) {
+      const store = this.storeRegistry.getStore(storeId);
+      const previous = previousStores.find(s => s.id === storeId);
+      if (!store) {
+        this.state.selectedStores.delete(storeId);
+        this.connectionManager.disconnectStore(storeId);
+        this.cameraManager.removeCameraStream(storeId);
+      } else if (!previous || !isSameConnection(previous, store)) {
+        this.connectionManager.connectToStore(store);
+      }
+    }
+    
+    this.scheduler.setStores(Array.from(this.state.selectedStores));
+    this.saveState();
+    this.render();
+    
+    if (this.state.currentView === 'map') {
+      this.map.updateStoreMarkers(this.state.stores, this.state.alerts);
     }
   }
 
-  private showAlertDetail(alert: Alert): void {
-    const modal = document.createElement('div');
-    modal.className = 'alert-modal';
-    modal.innerHTML = `
-      <div class="modal-backdrop"></div>
-      <div class="modal-content">
-        <div class="modal-header">
-          <h2>${alert.title}</h2>
-          <button class="modal-close">×</button>
-        </div>
-        <div class="modal-body">
-          <div class="alert-severity severity-${alert.severity}">
-            ${alert.severity.toUpperCase()}
-          </div>
-          <div class="alert-time">
-            ${formatRelativeTime(alert.timestamp)}
-          </div>
-          <div class="alert-message">
-            ${alert.message.split('\n').map(line => `<p>${line}</p>`).join('')}
+  private handleConnectionStatus(status: ConnectionStatus): void {
+    this.healthMonitor.recordConnection(status);
+    
+    const store = this.storeRegistry.getStore(status.storeId);
+    if (!store) return;
+    
+    // Heartbeats update the status constantly; only re-render when the badge changes
+    const storeStatus = toStoreStatus(status);
+    if (store.status === storeStatus) return;
+    
+    store.status = storeStatus;
+    this.render();
+    
+    // Catch up as soon as a store comes back rather than at its next tick
+    if (storeStatus === 'online') {
+      this.scheduler.pollNow(store.id);
+      if (this.state.currentView === 'camera') {
+        this.cameraManager.refreshFrame(store.id);
+      }
+    }
+    this.cameraManager.sync(store.id);
+    
+    if (this.state.currentView === 'map') {
+      this.map.updateStoreMarkers(this.state.stores, this.state.alerts);
+    }
+  }
+
+  /**
+   * Refresh camera frames for selected stores while the camera view is open
+   * and the app is in the foreground
+   */
+  private syncCameraRefresh(): void {
+    if (this.state.currentView !== 'camera' || document.hidden) {
+      if (this.cameraRefreshInterval) clearInterval(this.cameraRefreshInterval);
+      if (this.cameraAgeInterval) clearInterval(this.cameraAgeInterval);
+      this.cameraRefreshInterval = null;
+      this.cameraAgeInterval = null;
+      
+      // Nothing is on screen, so no tile should hold a video stream open
+      this.cameraObserver?.disconnect();
+      for (const storeId of this.state.selectedStores) {
+        this.cameraManager.setVisible(storeId, false);
+      }
+      return;
+    }
+    
+    const refresh = () => {
+      for (const storeId of this.state.selectedStores) {
+        if (this.connectionManager.isConnected(storeId)) {
+          this.cameraManager.refreshFrame(storeId);
+        }
+      }
+    };
+    
+    for (const storeId of this.state.selectedStores) {
+      const store = this.storeRegistry.getStore(storeId);
+      if (store) {
+        this.cameraManager.initializeCameraStream(store);
+      }
+    }
+    this.observeCameraFeeds();
+    refresh();
+    
+    if (!this.cameraRefreshInterval) {
+      this.cameraRefreshInterval = setInterval(refresh, CAMERA_REFRESH_MS);
+    }
+    if (!this.cameraAgeInterval) {
+      this.cameraAgeInterval = setInterval(() => this.updateCameraAges(), 1000);
+    }
+  }
+
+  /**
+   * Track which camera tiles are on screen so hidden ones fetch nothing
+   */
+  private observeCameraFeeds(): void {
+    if (!('IntersectionObserver' in window)) return;
+    
+    if (!this.cameraObserver) {
+      this.cameraObserver = new IntersectionObserver(entries => {
+        entries.forEach(entry => {
+          const storeId = entry.target.getAttribute('data-store-id');
+          if (storeId) {
+            this.cameraManager.setVisible(storeId, entry.isIntersecting);
+          }
+        });
+      }, { threshold: 0.1 });
+    }
+    
+    this.cameraObserver.disconnect();
+    document.querySelectorAll('.camera-feed').forEach(feed => this.cameraObserver!.observe(feed));
+  }
+
+  /**
+   * Swap in a camera tile when its frame or state changes, without a full render
+   */
+  private updateCameraFeed(stream: CameraStream): void {
+    if (this.state.currentView !== 'camera') return;
+    
+    const store = this.storeRegistry.getStore(stream.storeId);
+    const feed = document.querySelector(`.camera-feed[data-store-id="${stream.storeId}"]`);
+    if (!store || !feed) return;
+    
+    feed.outerHTML = this.renderCameraFeed(store);
+    this.mountCameraFeed(stream.storeId);
+    this.observeCameraFeeds();
+  }
+
+  private mountCameraFeeds(): void {
+    for (const storeId of this.state.selectedStores) {
+      this.mountCameraFeed(storeId);
+    }
+    this.observeCameraFeeds();
+  }
+
+  /**
+   * Attach live video and draw overlays for a rendered tile. Video streams
+   * can't be set from markup, so they are attached after every render.
+   */
+  private mountCameraFeed(storeId: string): void {
+    const container = document.getElementById(`camera-${storeId}`);
+    
+    const video = container?.querySelector<HTMLVideoElement>('.camera-video');
+    const media = this.cameraManager.getVideo(storeId);
+    if (video && media) {
+      video.srcObject = media;
+      return;
+    }
+    
+    const image = container?.querySelector<HTMLImageElement>('.camera-frame');
+    const canvas = container?.querySelector<HTMLCanvasElement>('.camera-overlay');
+    if (!image || !canvas) return;
+    
+    const annotations = withAlertAnnotations(
+      this.cameraManager.getCameraStream(storeId)?.annotations || [],
+      this.state.alerts.filter(a => a.storeId === storeId)
+    );
+    
+    if (image.complete) {
+      CameraOverlay.draw(canvas, image, annotations);
+    } else {
+      image.addEventListener('load', () => CameraOverlay.draw(canvas, image, annotations), { once: true });
+    }
+  }
+
+  private updateCameraAges(): void {
+    document.querySelectorAll<HTMLElement>('.camera-age').forEach(el => {
+      const stream = this.cameraManager.getCameraStream(el.getAttribute('data-store-id') || '');
+      if (!stream?.lastFrameAt) return;
+      
+      el.textContent = this.formatFrameAge(stream.lastFrameAt);
+      el.classList.toggle('stale', Date.now() - new Date(stream.lastFrameAt).getTime() > CAMERA_REFRESH_MS * 3);
+    });
+  }
+
+  private formatFrameAge(timestamp: string): string {
+    const seconds = Math.max(0, Math.floor((Date.now() - new Date(timestamp).getTime()) / 1000));
+    return seconds < 60 ? t('time.secondsAgo', { count: seconds }) : formatRelativeTime(timestamp);
+  }
+
+  private renderConnectionDetail(storeId: string): string {
+    const status = this.connectionManager.getStatus(storeId);
+    
+    if (status?.state === 'connected') {
+      const schedule = this.scheduler.getSchedule(storeId);
+      if (!schedule) return '';
+      
+      const reasons: Record<PollingReason, string> = {
+        normal: '',
+        alerts: ` · ${t('connection.reason.alerts')}`,
+        closed: ` · ${t('connection.reason.closed')}`,
+        hidden: ` · ${t('connection.reason.hidden')}`,
+        low_battery: ` · ${t('connection.reason.low_battery')}`,
+        paused: ''
+      };
+      const cadence = schedule.intervalMs === null
+        ? t('connection.paused')
+        : t('connection.every', {
+          interval: schedule.intervalMs >= 60000
+            ? t('time.short.minutes', { count: Math.round(schedule.intervalMs / 60000) })
+            : t('time.short.seconds', { count: Math.round(schedule.intervalMs / 1000) })
+        });
+      
+      const result = schedule.lastResult;
+      const problems = result
+        ? Object.entries(result.calls)
+          .filter(([, call]) => call.outcome === 'timeout' || call.outcome === 'error')
+          .map(([name, call]) => t(call.outcome === 'timeout' ? 'connection.timedOut' : 'connection.failed', { call: name }))
+        : [];
+      const timing = result
+        ? ` · ${t('connection.lastPoll', { seconds: formatNumber(result.durationMs / 1000) })}${problems.length > 0 ? ` (${problems.join(', ')})` : ''}`
+        : '';
+      
+      return `<div class="store-connection">${cadence}${reasons[schedule.reason]}${timing}</div>`;
+    }
+    
+    if (!status || status.state !== 'offline' || !status.offlineSince) return '';
+    
+    return `
+      <div class="store-connection" title="${status.lastError || ''}">
+        <span>${t('connection.offlineSince', { time: datetime.formatDate(status.offlineSince, datetime.isToday(status.offlineSince) ? 'time' : 'short') })} · ${t('connection.failedAttempts', { count: status.attempts })}</span>
+        <button class="store-retry-btn" data-store-id="${storeId}">${t('connection.retry')}</button>
+      </div>
+    `;
+  }
+
+  private showStoreEditor(store?: StoreLocation): void {
+    const modal = document.createElement('div');
+    modal.className = 'alert-modal store-editor-modal';
+    modal.innerHTML = `
+      <div class="modal-backdrop"></div>
+      <div class="modal-content">
+        <div class="modal-header">
+          <h2>${store ? t('storeEditor.editTitle', { store: escapeHtml(store.name) }) : t('storeEditor.addTitle')}</h2>
+          <button class="modal-close">×</button>
+        </div>
+        <form class="store-form">
+          <div class="modal-body">
+            <div class="form-errors" hidden></div>
+            <label class="form-field">
+              <span>${t('storeEditor.id')}</span>
+              <input name="id" type="text" value="${escapeHtml(store?.id || '')}" placeholder="store-covent-garden" required />
+            </label>
+            <label class="form-field">
+              <span>${t('form.name')}</span>
+              <input name="name" type="text" value="${escapeHtml(store?.name || '')}" required />
+            </label>
+            <label class="form-field">
+              <span>${t('storeEditor.address')}</span>
+              <input name="address" type="text" value="${escapeHtml(store?.address || '')}" required />
+            </label>
+            <label class="form-field">
+              <span>${t('storeEditor.region')}</span>
+              <input name="region" type="text" value="${escapeHtml(store?.region || '')}" required />
+            </label>
+            <label class="form-field">
+              <span>${t('storeEditor.machineId')}</span>
+              <input name="machineId" type="text" value="${escapeHtml(store?.machineId || '')}" required />
+            </label>
+            <label class="form-field">
+              <span>${t('storeEditor.hostname')}</span>
+              <input name="hostname" type="text" value="${escapeHtml(store?.hostname || '')}" placeholder="${t('storeEditor.hostnamePlaceholder')}" />
+            </label>
+            <label class="form-field">
+              <span>${t('storeEditor.visionService')}</span>
+              <input name="visionService" type="text" value="${escapeHtml(store?.visionService || '')}" placeholder="${t('storeEditor.visionServicePlaceholder')}" />
+            </label>
+            <label class="form-field">
+              <span>${t('storeEditor.timeZone')}</span>
+              <input name="timeZone" type="text" value="${escapeHtml(store?.timeZone || '')}" placeholder="${Intl.DateTimeFormat().resolvedOptions().timeZone}" />
+            </label>
+            <p class="form-hint">${t('storeEditor.timeZoneHint')}</p>
+            <span class="form-label">${t('storeEditor.hours')}</span>
+            <div class="hours-grid">
+              ${(Object.keys(WEEKDAYS) as Weekday[]).map(day => {
+                const period = (store?.hours || DEFAULT_STORE_HOURS).weekly[day];
+                const name = formatWeekday(day);
+                return `
+                  <span>${name}</span>
+                  <input name="open-${day}" type="time" value="${period?.open || ''}" aria-label="${t('storeEditor.opens', { day: name })}" />
+                  <input name="close-${day}" type="time" value="${period?.close || ''}" aria-label="${t('storeEditor.closes', { day: name })}" />
+                `;
+              }).join('')}
+            </div>
+            <p class="form-hint">${t('storeEditor.hoursHint')}</p>
+            <label class="form-field">
+              <span>${t('storeEditor.closures')}</span>
+              <textarea name="exceptions" rows="3" placeholder="2026-12-25 closed Christmas Day">${escapeHtml(formatExceptions(store?.hours?.exceptions))}</textarea>
+            </label>
+            <p class="form-hint">${t('storeEditor.closuresHint')}</p>
+            <div class="form-row">
+              <label class="form-field">
+                <span>${t('storeEditor.latitude')}</span>
+                <input name="lat" type="number" step="any" value="${store?.coords.lat ?? ''}" required />
+              </label>
+              <label class="form-field">
+                <span>${t('storeEditor.longitude')}</span>
+                <input name="lng" type="number" step="any" value="${store?.coords.lng ?? ''}" required />
+              </label>
+            </div>
+          </div>
+          <div class="modal-footer">
+            ${store ? `<button type="button" class="btn-danger store-remove-btn">${t('form.remove')}</button>` : ''}
+            <button type="button" class="btn-secondary modal-close">${t('form.cancel')}</button>
+            <button type="submit" class="btn-primary">${t('form.save')}</button>
+          </div>
+        </form>
+      </div>
+    `;
+    
+    document.body.appendChild(modal);
+    
+    const close = () => {
+      if (document.body.contains(modal)) {
+        document.body.removeChild(modal);
+      }
+    };
+    
+    modal.querySelectorAll('.modal-close, .modal-backdrop').forEach(el => {
+      el.addEventListener('click', close);
+    });
+    
+    modal.querySelector('.store-remove-btn')?.addEventListener('click', () => {
+      if (store && confirm(t('storeEditor.confirmRemove', { store: store.name }))) {
+        this.storeRegistry.removeStore(store.id);
+        close();
+      }
+    });
+    
+    const form = modal.querySelector('.store-form') as HTMLFormElement;
+    form.addEventListener('submit', (e) => {
+      e.preventDefault();
+      
+      const data = new FormData(form);
+      const { exceptions, errors: exceptionErrors } = parseExceptions(String(data.get('exceptions') || ''));
+      if (exceptionErrors.length > 0) {
+        this.showValidationErrors(form, exceptionErrors.map(message => ({ field: 'hours.exceptions', message })));
+        return;
+      }
+      
+      const weekly: StoreHours['weekly'] = {};
+      (Object.keys(WEEKDAYS) as Weekday[]).forEach(day => {
+        const open = String(data.get(`open-${day}`) || '');
+        const close = String(data.get(`close-${day}`) || '');
+        if (open || close) {
+          weekly[day] = { open, close };
+        }
+      });
+      
+      const record: StoreRecord = {
+        id: String(data.get('id') || '').trim(),
+        name: String(data.get('name') || ''),
+        address: String(data.get('address') || ''),
+        region: String(data.get('region') || ''),
+        machineId: String(data.get('machineId') || ''),
+        hostname: String(data.get('hostname') || ''),
+        visionService: String(data.get('visionService') || ''),
+        timeZone: String(data.get('timeZone') || ''),
+        hours: exceptions.length > 0 ? { weekly, exceptions } : { weekly },
+        coords: {
+          lat: parseFloat(String(data.get('lat'))),
+          lng: parseFloat(String(data.get('lng')))
+        }
+      };
+      
+      // Carry the selection over when a store ID is renamed. The registry
+      // notifies handleStoresChanged before updateStore returns, so the
+      // selection has to move first or it is dropped with the old ID.
+      const renamedFrom = store && store.id !== record.id && !this.state.selectedStores.has(record.id) &&
+        this.state.selectedStores.delete(store.id) ? store.id : null;
+      if (renamedFrom) {
+        this.state.selectedStores.add(record.id);
+      }
+      
+      const errors = store
+        ? this.storeRegistry.updateStore(store.id, record)
+        : this.storeRegistry.addStore(record);
+      
+      if (errors.length > 0) {
+        if (renamedFrom) {
+          this.state.selectedStores.delete(record.id);
+          this.state.selectedStores.add(renamedFrom);
+        }
+        this.showValidationErrors(form, errors);
+        return;
+      }
+      
+      if (renamedFrom) {
+        this.connectionManager.disconnectStore(renamedFrom);
+        this.cameraManager.removeCameraStream(renamedFrom);
+      }
+      
+      close();
+    });
+  }
+
+  private showValidationErrors(form: HTMLFormElement, errors: StoreValidationError[]): void {
+    const container = form.querySelector('.form-errors') as HTMLElement;
+    container.innerHTML = `
+      <ul>
+        ${errors.map(error => `<li>${escapeHtml(error.message)}</li>`).join('')}
+      </ul>
+    `;
+    container.hidden = false;
+    
+    form.querySelectorAll('.form-field input, .form-field textarea, .hours-grid input').forEach(input => {
+      const name = input.getAttribute('name') || '';
+      const field = name === 'lat' || name === 'lng' ? `coords.${name}`
+        : name === 'exceptions' ? 'hours.exceptions'
+        : /^(open|close)-/.test(name) ? `hours.${name.split('-')[1]}`
+        : name;
+      input.classList.toggle('invalid', errors.some(e => e.field === field));
+    });
+  }
+
+  private showCredentialsEditor(): void {
+    const modal = document.createElement('div');
+    modal.className = 'alert-modal credentials-modal';
+    document.body.appendChild(modal);
+    
+    const close = () => {
+      if (document.body.contains(modal)) {
+        document.body.removeChild(modal);
+      }
+    };
+    
+    const machineLabel = (machineId: string): string => {
+      if (machineId === SHARED_CREDENTIAL) return t('credentials.allMachines');
+      const stores = this.state.stores.filter(s => s.machineId === machineId).map(s => s.name);
+      return stores.length > 0 ? stores.join(', ') : machineId;
+    };
+    
+    const render = (errors: string[] = []) => {
+      const records = this.credentials.getRecords();
+      const machines = Array.from(new Set(this.state.stores.map(s => s.machineId)));
+      
+      modal.innerHTML = `
+        <div class="modal-backdrop"></div>
+        <div class="modal-content">
+          <div class="modal-header">
+            <h2>${t('credentials.title')}</h2>
+            <button class="modal-close">×</button>
+          </div>
+          <form class="credentials-form">
+            <div class="modal-body">
+              <div class="rules-list">
+                ${records.length > 0 ? records.map(record => `
+                  <div class="rule-item">
+                    <div class="rule-info">
+                      <div class="rule-name">${escapeHtml(record.label)}</div>
+                      <div class="rule-summary">${escapeHtml([machineLabel(record.machineId), record.id, record.key, record.hostname].filter(Boolean).join(' · '))}</div>
+                    </div>
+                    <button type="button" class="btn-danger credential-remove-btn" data-machine-id="${escapeHtml(record.machineId)}">${t('form.remove')}</button>
+                  </div>
+                `).join('') : `<div class="no-alerts">${t('credentials.empty')}</div>`}
+              </div>
+              <h3 class="trend-section-title">${t('credentials.addTitle')}</h3>
+              <div class="form-errors" ${errors.length > 0 ? '' : 'hidden'}>
+                <ul>${errors.map(error => `<li>${escapeHtml(error)}</li>`).join('')}</ul>
+              </div>
+              <label class="form-field">
+                <span>${t('credentials.machine')}</span>
+                <select name="machineId">
+                  <option value="${SHARED_CREDENTIAL}">${escapeHtml(machineLabel(SHARED_CREDENTIAL))}</option>
+                  ${machines.map(machineId => `<option value="${escapeHtml(machineId)}">${escapeHtml(machineLabel(machineId))}</option>`).join('')}
+                </select>
+              </label>
+              <label class="form-field">
+                <span>${t('credentials.label')}</span>
+                <input name="label" type="text" placeholder="${t('credentials.labelPlaceholder')}" />
+              </label>
+              <div class="form-row">
+                <label class="form-field">
+                  <span>${t('credentials.keyId')}</span>
+                  <input name="id" type="text" autocomplete="off" required />
+                </label>
+                <label class="form-field">
+                  <span>${t('credentials.key')}</span>
+                  <input name="key" type="password" autocomplete="off" required />
+                </label>
+              </div>
+              <label class="form-field">
+                <span>${t('storeEditor.hostname')}</span>
+                <input name="hostname" type="text" placeholder="${t('storeEditor.hostnamePlaceholder')}" />
+              </label>
+            </div>
+            <div class="modal-footer">
+              <button type="button" class="btn-secondary modal-close">${t('form.close')}</button>
+              <button type="submit" class="btn-primary">${t('credentials.save')}</button>
+            </div>
+          </form>
+        </div>
+      `;
+      
+      modal.querySelectorAll('.modal-close, .modal-backdrop').forEach(el => el.addEventListener('click', close));
+      modal.querySelectorAll('.credential-remove-btn').forEach(btn => {
+        btn.addEventListener('click', () => {
+          this.credentials.remove(btn.getAttribute('data-machine-id') || '');
+          render();
+        });
+      });
+      
+      const form = modal.querySelector('.credentials-form') as HTMLFormElement;
+      form.addEventListener('submit', (e) => {
+        e.preventDefault();
+        
+        const data = new FormData(form);
+        const errors = this.credentials.save({
+          machineId: String(data.get('machineId') || ''),
+          label: String(data.get('label') || ''),
+          id: String(data.get('id') || ''),
+          key: String(data.get('key') || ''),
+          hostname: String(data.get('hostname') || '')
+        });
+        
+        if (errors.length > 0) {
+          render(errors);
+          return;
+        }
+        
+        // Stores waiting on credentials can connect straight away
+        this.state.selectedStores.forEach(storeId => this.connectionManager.retryNow(storeId));
+        render();
+      });
+    };
+    
+    render();
+  }
+
+  private showPlanogramEditor(): void {
+    const modal = document.createElement('div');
+    modal.className = 'alert-modal rules-modal';
+    document.body.appendChild(modal);
+    
+    const close = () => {
+      if (document.body.contains(modal)) {
+        document.body.removeChild(modal);
+      }
+    };
+    
+    const showErrors = (errors: string[]) => {
+      const container = modal.querySelector('.form-errors') as HTMLElement;
+      container.innerHTML = `<ul>${errors.map(error => `<li>${escapeHtml(error)}</li>`).join('')}</ul>`;
+      container.hidden = false;
+    };
+    
+    const renderList = () => {
+      const entries = this.planogram.getEntries();
+      const groups: Array<[string | undefined, string]> = [
+        [undefined, t('form.allStores')],
+        ...this.state.stores.map(store => [store.id, store.name] as [string, string])
+      ];
+      
+      modal.innerHTML = `
+        <div class="modal-backdrop"></div>
+        <div class="modal-content">
+          <div class="modal-header">
+            <h2>${t('planogram.title')}</h2>
+            <button class="modal-close">×</button>
+          </div>
+          <div class="modal-body">
+            <div class="form-errors" hidden></div>
+            <p class="form-hint">${t('planogram.hint')}</p>
+            ${entries.length > 0 ? groups.map(([storeId, name]) => {
+              const group = entries
+                .filter(e => e.storeId === storeId)
+                .sort((a, b) => a.fixture.localeCompare(b.fixture) || a.shelf - b.shelf);
+              return group.length > 0 ? `
+                <h3 class="trend-section-title">${escapeHtml(name)}</h3>
+                <div class="rules-list">
+                  ${group.map(entry => `
+                    <div class="rule-item">
+                      <div class="rule-info">
+                        <div class="rule-name">${escapeHtml(entry.product)}</div>
+                        <div class="rule-summary">${escapeHtml(t('planogram.summary', {
+                          location: this.planogram.getLocation(entry),
+                          region: entry.region,
+                          capacity: entry.capacity,
+                          priority: t(SHELF_PRIORITIES[entry.priority])
+                        }))}</div>
+                      </div>
+                      <button class="btn-secondary planogram-edit-btn" data-store-id="${escapeHtml(entry.storeId || '')}" data-region="${escapeHtml(entry.region)}">${t('form.edit')}</button>
+                    </div>
+                  `).join('')}
+                </div>
+              ` : '';
+            }).join('') : `<div class="no-alerts">${t('planogram.empty')}</div>`}
+          </div>
+          <div class="modal-footer">
+            <label class="btn-secondary planogram-import-btn">
+              ${t('form.import')}
+              <input type="file" accept="application/json,.json" hidden />
+            </label>
+            <button class="btn-secondary planogram-export-btn" ${entries.length > 0 ? '' : 'disabled'}>${t('form.export')}</button>
+            <button class="btn-primary planogram-add-btn">${t('planogram.add')}</button>
+          </div>
+        </div>
+      `;
+      
+      modal.querySelectorAll('.modal-close, .modal-backdrop').forEach(el => el.addEventListener('click', close));
+      modal.querySelector('.planogram-add-btn')?.addEventListener('click', () => renderForm());
+      modal.querySelectorAll('.planogram-edit-btn').forEach(btn => {
+        const storeId = btn.getAttribute('data-store-id') || undefined;
+        const region = btn.getAttribute('data-region') || '';
+        btn.addEventListener('click', () => renderForm(entries.find(e => e.storeId === storeId && e.region === region)));
+      });
+      
+      modal.querySelector('.planogram-export-btn')?.addEventListener('click', () => {
+        const blob = new Blob([this.planogram.exportDocument()], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `planogram-${new Date().toISOString().slice(0, 10)}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+      });
+      
+      modal.querySelector('.planogram-import-btn input')?.addEventListener('change', async (e) => {
+        const file = (e.target as HTMLInputElement).files?.[0];
+        if (!file) return;
+        if (entries.length > 0 && !confirm(t('planogram.confirmImport'))) return;
+        
+        const errors = this.planogram.importDocument(await file.text());
+        if (errors.length > 0) {
+          showErrors(errors);
+          return;
+        }
+        renderList();
+      });
+    };
+    
+    const renderForm = (entry?: PlanogramEntry) => {
+      const option = (value: string, label: string, selected: boolean) =>
+        `<option value="${escapeHtml(value)}" ${selected ? 'selected' : ''}>${escapeHtml(label)}</option>`;
+      
+      modal.innerHTML = `
+        <div class="modal-backdrop"></div>
+        <div class="modal-content">
+          <div class="modal-header">
+            <h2>${entry ? t('planogram.editTitle') : t('planogram.add')}</h2>
+            <button class="modal-close">×</button>
+          </div>
+          <form class="planogram-form">
+            <div class="modal-body">
+              <div class="form-errors" hidden></div>
+              <div class="form-row">
+                <label class="form-field">
+                  <span>${t('form.store')}</span>
+                  <select name="storeId">
+                    ${option('', t('form.allStores'), !entry?.storeId)}
+                    ${this.state.stores.map(s => option(s.id, s.name, entry?.storeId === s.id)).join('')}
+                  </select>
+                </label>
+                <label class="form-field">
+                  <span>${t('planogram.region')}</span>
+                  <input name="region" type="text" value="${escapeHtml(entry?.region || '')}" placeholder="B-1" required />
+                </label>
+              </div>
+              <label class="form-field">
+                <span>${t('planogram.product')}</span>
+                <input name="product" type="text" value="${escapeHtml(entry?.product || '')}" placeholder="${t('planogram.productPlaceholder')}" required />
+              </label>
+              <label class="form-field">
+                <span>${t('planogram.category')}</span>
+                <input name="category" type="text" value="${escapeHtml(entry?.category || '')}" placeholder="${t('planogram.categoryPlaceholder')}" />
+              </label>
+              <div class="form-row">
+                <label class="form-field">
+                  <span>${t('planogram.fixture')}</span>
+                  <input name="fixture" type="text" value="${escapeHtml(entry?.fixture || '')}" placeholder="${t('planogram.fixturePlaceholder')}" required />
+                </label>
+                <label class="form-field">
+                  <span>${t('planogram.shelf')}</span>
+                  <input name="shelf" type="number" min="1" step="1" value="${entry?.shelf ?? ''}" required />
+                </label>
+              </div>
+              <div class="form-row">
+                <label class="form-field">
+                  <span>${t('planogram.capacity')}</span>
+                  <input name="capacity" type="number" min="1" step="1" value="${entry?.capacity ?? ''}" required />
+                </label>
+                <label class="form-field">
+                  <span>${t('planogram.priority')}</span>
+                  <select name="priority">
+                    ${(Object.keys(SHELF_PRIORITIES) as ShelfPriority[]).map(p => option(p, t(SHELF_PRIORITIES[p]), (entry?.priority || 'normal') === p)).join('')}
+                  </select>
+                </label>
+              </div>
+            </div>
+            <div class="modal-footer">
+              ${entry ? `<button type="button" class="btn-danger planogram-delete-btn">${t('form.delete')}</button>` : ''}
+              <button type="button" class="btn-secondary planogram-cancel-btn">${t('form.back')}</button>
+              <button type="submit" class="btn-primary">${t('form.save')}</button>
+            </div>
+          </form>
+        </div>
+      `;
+      
+      modal.querySelectorAll('.modal-close, .modal-backdrop').forEach(el => el.addEventListener('click', close));
+      modal.querySelector('.planogram-cancel-btn')?.addEventListener('click', () => renderList());
+      modal.querySelector('.planogram-delete-btn')?.addEventListener('click', () => {
+        if (entry && confirm(t('planogram.confirmRemove', { product: entry.product }))) {
+          this.planogram.deleteEntry(entry.storeId, entry.region);
+          renderList();
+        }
+      });
+      
+      const form = modal.querySelector('.planogram-form') as HTMLFormElement;
+      form.addEventListener('submit', (e) => {
+        e.preventDefault();
+        
+        const data = new FormData(form);
+        const errors = this.planogram.saveEntry({
+          storeId: String(data.get('storeId') || '') || undefined,
+          region: String(data.get('region') || ''),
+          product: String(data.get('product') || ''),
+          category: String(data.get('category') || ''),
+          fixture: String(data.get('fixture') || ''),
+          shelf: parseInt(String(data.get('shelf')), 10),
+          capacity: parseInt(String(data.get('capacity')), 10),
+          priority: String(data.get('priority')) as ShelfPriority
+        }, entry);
+        
+        if (errors.length > 0) {
+          showErrors(errors);
+          return;
+        }
+        
+        renderList();
+      });
+    };
+    
+    renderList();
+  }
+
+  private showComplianceLog(): void {
+    const modal = document.createElement('div');
+    modal.className = 'alert-modal rules-modal';
+    document.body.appendChild(modal);
+    
+    const close = () => {
+      if (document.body.contains(modal)) {
+        document.body.removeChild(modal);
+      }
+    };
+    
+    const showErrors = (errors: string[]) => {
+      const container = modal.querySelector('.form-errors') as HTMLElement;
+      container.innerHTML = `<ul>${errors.map(error => `<li>${escapeHtml(error)}</li>`).join('')}</ul>`;
+      container.hidden = false;
+    };
+    
+    let storeId = Array.from(this.state.selectedStores)[0] || this.state.stores[0]?.id || '';
+    let to = getStoreTime(this.storeRegistry.getStore(storeId) || {}).date;
+    let from = addDays(to, -6);
+    
+    const buildReport = () => {
+      const store = this.storeRegistry.getStore(storeId);
+      return store ? this.compliance.buildReport(store, from, to) : null;
+    };
+    
+    const renderLog = () => {
+      const report = buildReport();
+      const settings = this.compliance.getSettings();
+      const option = (value: string, label: string, selected: boolean) =>
+        `<option value="${escapeHtml(value)}" ${selected ? 'selected' : ''}>${escapeHtml(label)}</option>`;
+      
+      const renderDay = (day: ComplianceDay) => `
+        <h3 class="trend-section-title">
+          ${datetime.formatDate(day.date + 'T00:00', 'long')}
+          ${day.signOff ? `<span class="compliance-signed">${t('compliance.signedOffBy', { name: escapeHtml(day.signOff.signedBy) })}</span>` : ''}
+        </h3>
+        ${day.sensors.length > 0 ? `
+          <table class="compliance-table">
+            <tr><th>${t('compliance.sensor')}</th>${settings.checkpointTimes.map(slot => `<th>${slot}</th>`).join('')}</tr>
+            ${day.sensors.map(sensor => `
+              <tr>
+                <td>${escapeHtml(sensor)}<br><small>${t('compliance.range', { min: formatTemp(day.limits[sensor].minTemp), max: formatTemp(day.limits[sensor].maxTemp) })}</small></td>
+                ${settings.checkpointTimes.map(slot => {
+                  const checkpoint = day.checkpoints.find(c => c.sensor === sensor && c.slot === slot);
+                  if (checkpoint) {
+                    return `<td class="${checkpoint.inRange ? '' : 'out'}">${formatTemp(checkpoint.temperature)}</td>`;
+                  }
+                  return day.missed.some(m => m.sensor === sensor && m.slot === slot) ? `<td class="missed">${t('compliance.missed')}</td>` : '<td>—</td>';
+                }).join('')}
+              </tr>
+            `).join('')}
+          </table>
+        ` : `<p class="form-hint">${t('compliance.noSensors')}</p>`}
+        ${day.excursions.length > 0 ? `
+          <div class="rules-list">
+            ${day.excursions.map(e => `
+              <div class="rule-item">
+                <div class="rule-info">
+                  <div class="rule-name">${t('compliance.excursion', { sensor: escapeHtml(e.sensor), peak: formatTemp(e.peak) })}</div>
+                  <div class="rule-summary">
+                    ${datetime.formatDate(e.startedAt, 'time')}–${e.endedAt ? datetime.formatDate(e.endedAt, 'time') : t('compliance.ongoing')}
+                    · ${e.correctiveAction ? `${escapeHtml(e.correctiveAction)} (${escapeHtml(e.actionBy || '')})` : t('compliance.noAction')}
+                  </div>
+                </div>
+                <button class="btn-secondary compliance-action-btn" data-excursion-id="${e.id}">${e.correctiveAction ? t('compliance.editAction') : t('compliance.addAction')}</button>
+              </div>
+            `).join('')}
+          </div>
+        ` : ''}
+        ${!day.signOff ? `<button class="btn-secondary compliance-signoff-btn" data-date="${day.date}">${t('compliance.signOffDay')}</button>` : ''}
+      `;
+      
+      modal.innerHTML = `
+        <div class="modal-backdrop"></div>
+        <div class="modal-content">
+          <div class="modal-header">
+            <h2>${t('compliance.title')}</h2>
+            <button class="modal-close">×</button>
+          </div>
+          <div class="modal-body">
+            <div class="form-errors" hidden></div>
+            <div class="form-row">
+              <label class="form-field">
+                <span>${t('form.store')}</span>
+                <select name="storeId">
+                  ${this.state.stores.map(s => option(s.id, s.name, s.id === storeId)).join('')}
+                </select>
+              </label>
+              <label class="form-field">
+                <span>${t('compliance.from')}</span>
+                <input name="from" type="date" value="${from}" />
+              </label>
+              <label class="form-field">
+                <span>${t('compliance.to')}</span>
+                <input name="to" type="date" value="${to}" />
+              </label>
+            </div>
+            <p class="form-hint">${t('compliance.rangeHint', { min: formatTemp(settings.minTemp), max: formatTemp(settings.maxTemp), times: settings.checkpointTimes.join(', ') })}</p>
+            ${report && report.days.length > 0 ? [...report.days].reverse().map(renderDay).join('') :
+              `<div class="no-alerts">${t('compliance.noDays')}</div>`}
+          </div>
+          <div class="modal-footer">
+            <button class="btn-secondary compliance-settings-btn">${t('settings.title')}</button>
+            <button class="btn-secondary compliance-csv-btn" ${report ? '' : 'disabled'}>${t('compliance.exportCsv')}</button>
+            <button class="btn-primary compliance-print-btn" ${report ? '' : 'disabled'}>${t('compliance.print')}</button>
+          </div>
+        </div>
+      `;
+      
+      modal.querySelectorAll('.modal-close, .modal-backdrop').forEach(el => el.addEventListener('click', close));
+      modal.querySelector('.compliance-settings-btn')?.addEventListener('click', () => renderSettings());
+      
+      modal.querySelectorAll<HTMLInputElement | HTMLSelectElement>('.form-row select, .form-row input').forEach(input => {
+        input.addEventListener('change', () => {
+          if (input.name === 'storeId') storeId = input.value;
+          if (input.name === 'from' && input.value) from = input.value;
+          if (input.name === 'to' && input.value) to = input.value;
+          renderLog();
+        });
+      });
+      
+      modal.querySelectorAll('.compliance-action-btn').forEach(btn => {
+        btn.addEventListener('click', () => {
+          const operator = this.requireOperatorName();
+          const note = operator && prompt(t('compliance.actionPrompt'));
+          if (!operator || note === null || note === '') return;
+          
+          const errors = this.compliance.addCorrectiveAction(btn.getAttribute('data-excursion-id') || '', note, operator);
+          if (errors.length > 0) {
+            showErrors(errors);
+            return;
+          }
+          renderLog();
+        });
+      });
+      
+      modal.querySelectorAll('.compliance-signoff-btn').forEach(btn => {
+        btn.addEventListener('click', () => {
+          const operator = this.requireOperatorName();
+          const note = operator && prompt(t('compliance.signOffPrompt', { name: operator }));
+          if (!operator || note === null) return;
+          
+          const store = this.storeRegistry.getStore(storeId);
+          if (!store) return;
+          
+          const errors = this.compliance.signOff(store, btn.getAttribute('data-date') || '', operator, note);
+          if (errors.length > 0) {
+            showErrors(errors);
+            return;
+          }
+          renderLog();
+        });
+      });
+      
+      modal.querySelector('.compliance-csv-btn')?.addEventListener('click', () => {
+        const current = buildReport();
+        if (!current) return;
+        
+        const blob = new Blob([this.compliance.toCsv(current, this.settingsService.getSettings().temperatureUnit)], { type: 'text/csv' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `temperature-log-${current.storeId}-${current.from}-to-${current.to}.csv`;
+        link.click();
+        URL.revokeObjectURL(url);
+      });
+      
+      modal.querySelector('.compliance-print-btn')?.addEventListener('click', () => {
+        const current = buildReport();
+        if (!current) return;
+        
+        const printWindow = window.open('', '_blank');
+        if (!printWindow) {
+          showErrors([t('compliance.allowPopups')]);
+          return;
+        }
+        printWindow.document.write(this.compliance.toHtml(current));
+        printWindow.document.close();
+        printWindow.focus();
+        printWindow.print();
+      });
+    };
+    
+    const renderSettings = () => {
+      const settings = this.compliance.getSettings();
+      const unit = this.settingsService.getSettings().temperatureUnit;
+      const toDisplay = (temp: number) => Math.round(convertTemperature(temp, unit) * 10) / 10;
+      
+      modal.innerHTML = `
+        <div class="modal-backdrop"></div>
+        <div class="modal-content">
+          <div class="modal-header">
+            <h2>${t('compliance.settingsTitle')}</h2>
+            <button class="modal-close">×</button>
+          </div>
+          <form class="compliance-settings-form">
+            <div class="modal-body">
+              <div class="form-errors" hidden></div>
+              <div class="form-row">
+                <label class="form-field">
+                  <span>${t('compliance.minimum', { unit })}</span>
+                  <input name="minTemp" type="number" step="0.5" value="${toDisplay(settings.minTemp)}" required />
+                </label>
+                <label class="form-field">
+                  <span>${t('compliance.maximum', { unit })}</span>
+                  <input name="maxTemp" type="number" step="0.5" value="${toDisplay(settings.maxTemp)}" required />
+                </label>
+              </div>
+              <label class="form-field">
+                <span>${t('compliance.checkpointTimes')}</span>
+                <input name="checkpointTimes" type="text" value="${settings.checkpointTimes.join(', ')}" placeholder="08:00, 12:00, 16:00, 20:00" required />
+              </label>
+              <p class="form-hint">${t('compliance.checkpointHint')}</p>
+              <label class="form-field">
+                <span>${t('compliance.retention')}</span>
+                <input name="retentionDays" type="number" min="1" step="1" value="${settings.retentionDays}" required />
+              </label>
+            </div>
+            <div class="modal-footer">
+              <button type="button" class="btn-secondary compliance-cancel-btn">${t('form.back')}</button>
+              <button type="submit" class="btn-primary">${t('form.save')}</button>
+            </div>
+          </form>
+        </div>
+      `;
+      
+      modal.querySelectorAll('.modal-close, .modal-backdrop').forEach(el => el.addEventListener('click', close));
+      modal.querySelector('.compliance-cancel-btn')?.addEventListener('click', () => renderLog());
+      
+      const form = modal.querySelector('.compliance-settings-form') as HTMLFormElement;
+      form.addEventListener('submit', (e) => {
+        e.preventDefault();
+        
+        const data = new FormData(form);
+        const errors = this.compliance.saveSettings({
+          minTemp: toCelsius(parseFloat(String(data.get('minTemp'))), unit),
+          maxTemp: toCelsius(parseFloat(String(data.get('maxTemp'))), unit),
+          checkpointTimes: String(data.get('checkpointTimes') || '').split(',').map(time => time.trim()).filter(Boolean),
+          retentionDays: parseInt(String(data.get('retentionDays')), 10)
+        });
+        
+        if (errors.length > 0) {
+          showErrors(errors);
+          return;
+        }
+        
+        renderLog();
+      });
+    };
+    
+    renderLog();
+  }
+
+  private showRulesEditor(): void {
+    const modal = document.createElement('div');
+    modal.className = 'alert-modal rules-modal';
+    document.body.appendChild(modal);
+    
+    const close = () => {
+      if (document.body.contains(modal)) {
+        document.body.removeChild(modal);
+      }
+    };
+    
+    // Rules are kept in °C. Temperature thresholds are shown and entered in
+    // the configured unit; rate limits are changes, so they only scale.
+    const unit = this.settingsService.getSettings().temperatureUnit;
+    const toDisplay = (rule: Pick<AlertRule, 'sensor' | 'operator'>, value: number): number => {
+      if (rule.sensor === 'fill') return value;
+      const converted = isRateRule(rule) ? convertTemperature(value, unit) - convertTemperature(0, unit) : convertTemperature(value, unit);
+      return Math.round(converted * 10) / 10;
+    };
+    const fromDisplay = (rule: Pick<AlertRule, 'sensor' | 'operator'>, value: number): number => {
+      if (rule.sensor === 'fill') return value;
+      return isRateRule(rule) ? toCelsius(value, unit) - toCelsius(0, unit) : toCelsius(value, unit);
+    };
+    
+    const describeRule = (rule: AlertRule): string => {
+      const store = rule.storeId ? this.storeRegistry.getStore(rule.storeId)?.name || rule.storeId : t('rules.allStores');
+      const params = {
+        operator: t(RULE_OPERATOR_LABELS[rule.operator]),
+        threshold: toDisplay(rule, rule.threshold),
+        thresholdHigh: rule.thresholdHigh === undefined ? '' : toDisplay(rule, rule.thresholdHigh),
+        unit: rule.sensor === 'fill' ? '%' : `°${unit}`,
+        window: Math.round((rule.windowMs || 0) / 60000)
+      };
+      const duration = rule.minDurationMs > 0 ? ` ${t('rules.forDuration', { minutes: Math.round(rule.minDurationMs / 60000) })}` : '';
+      const hours = rule.activeHours ? `, ${t('rules.activeHours', { ...rule.activeHours })}` : '';
+      const condition = rule.operator === 'outside'
+        ? t('rules.condition.range', params)
+        : isRateRule(rule)
+          ? t('rules.condition.rate', params)
+          : t('rules.condition.level', params);
+      return escapeHtml(`${store} · ${rule.componentPattern} ${condition}${duration}${hours}`);
+    };
+    
+    const renderList = () => {
+      const rules = this.rulesEngine.getRules();
+      const forecast = this.forecaster.getSettings();
+      modal.innerHTML = `
+        <div class="modal-backdrop"></div>
+        <div class="modal-content">
+          <div class="modal-header">
+            <h2>${t('alerts.rules')}</h2>
+            <button class="modal-close">×</button>
+          </div>
+          <div class="modal-body">
+            <form class="forecast-form">
+              <h3 class="trend-section-title">${t('rules.forecast')}</h3>
+              <div class="form-row">
+                <label class="form-field">
+                  <span>${t('rules.leadTime')}</span>
+                  <input name="leadTimeMinutes" type="number" min="1" step="1" value="${forecast.leadTimeMinutes}" />
+                </label>
+                <label class="form-field">
+                  <span>${t('rules.trendWindow')}</span>
+                  <input name="windowMinutes" type="number" min="5" step="1" value="${forecast.windowMinutes}" />
+                </label>
+              </div>
+              <label class="form-checkbox">
+                <input name="enabled" type="checkbox" ${forecast.enabled ? 'checked' : ''} />
+                <span>${t('rules.forecastEnabled')}</span>
+              </label>
+            </form>
+            <h3 class="trend-section-title">${t('rules.thresholdRules')}</h3>
+            <div class="rules-list">
+              ${rules.length > 0 ? rules.map(rule => `
+                <div class="rule-item ${rule.enabled ? '' : 'disabled'}">
+                  <div class="rule-info">
+                    <div class="rule-name">${escapeHtml(rule.name)}</div>
+                    <div class="rule-summary">${describeRule(rule)}</div>
+                  </div>
+                  <button class="btn-secondary rule-edit-btn" data-rule-id="${escapeHtml(rule.id)}">${t('form.edit')}</button>
+                </div>
+              `).join('') : `<div class="no-alerts">${t('rules.empty')}</div>`}
+            </div>
+          </div>
+          <div class="modal-footer">
+            <button class="btn-secondary rules-reset-btn">${t('rules.reset')}</button>
+            <button class="btn-primary rule-add-btn">${t('rules.add')}</button>
+          </div>
+        </div>
+      `;
+      
+      modal.querySelectorAll('.modal-close, .modal-backdrop').forEach(el => el.addEventListener('click', close));
+      modal.querySelector('.rule-add-btn')?.addEventListener('click', () => renderForm());
+      modal.querySelector('.forecast-form')?.addEventListener('change', (e) => {
+        const form = e.currentTarget as HTMLFormElement;
+        const data = new FormData(form);
+        const leadTimeMinutes = parseInt(String(data.get('leadTimeMinutes')), 10);
+        const windowMinutes = parseInt(String(data.get('windowMinutes')), 10);
+        this.forecaster.updateSettings({
+          enabled: data.get('enabled') === 'on',
+          ...(leadTimeMinutes > 0 ? { leadTimeMinutes } : {}),
+          ...(windowMinutes >= 5 ? { windowMinutes } : {})
+        });
+      });
+      modal.querySelector('.rules-reset-btn')?.addEventListener('click', () => {
+        if (confirm(t('rules.confirmReset'))) {
+          this.rulesEngine.resetToDefaults();
+          renderList();
+        }
+      });
+      modal.querySelectorAll('.rule-edit-btn').forEach(btn => {
+        btn.addEventListener('click', () => renderForm(this.rulesEngine.getRule(btn.getAttribute('data-rule-id') || '')));
+      });
+    };
+    
+    const renderForm = (rule?: AlertRule) => {
+      const option = (value: string, label: string, selected: boolean) =>
+        `<option value="${escapeHtml(value)}" ${selected ? 'selected' : ''}>${escapeHtml(label)}</option>`;
+      
+      modal.innerHTML = `
+        <div class="modal-backdrop"></div>
+        <div class="modal-content">
+          <div class="modal-header">
+            <h2>${rule ? t('ruleEditor.editTitle') : t('rules.add')}</h2>
+            <button class="modal-close">×</button>
+          </div>
+          <form class="rule-form">
+            <div class="modal-body">
+              <div class="form-errors" hidden></div>
+              <label class="form-field">
+                <span>${t('form.name')}</span>
+                <input name="name" type="text" value="${escapeHtml(rule?.name || '')}" placeholder="${t('ruleEditor.namePlaceholder')}" required />
+              </label>
+              <div class="form-row">
+                <label class="form-field">
+                  <span>${t('ruleEditor.sensor')}</span>
+                  <select name="sensor">
+                    ${option('fill', t('ruleEditor.sensorFill'), rule?.sensor !== 'temperature')}
+                    ${option('temperature', t('ruleEditor.sensorTemperature', { unit }), rule?.sensor === 'temperature')}
+                  </select>
+                </label>
+                <label class="form-field">
+                  <span>${t('form.store')}</span>
+                  <select name="storeId">
+                    ${option('', t('rules.allStores'), !rule?.storeId)}
+                    ${this.state.stores.map(s => option(s.id, s.name, rule?.storeId === s.id)).join('')}
+                  </select>
+                </label>
+              </div>
+              <label class="form-field">
+                <span>${t('ruleEditor.component')}</span>
+                <input name="componentPattern" type="text" value="${escapeHtml(rule?.componentPattern || '*')}" required />
+              </label>
+              <div class="form-row">
+                <label class="form-field">
+                  <span>${t('ruleEditor.operator')}</span>
+                  <select name="operator">
+                    ${RULE_OPERATORS.map(op => option(op, t(RULE_OPERATOR_LABELS[op]), (rule?.operator || '<') === op)).join('')}
+                  </select>
+                </label>
+                <label class="form-field">
+                  <span>${t('ruleEditor.threshold')}</span>
+                  <input name="threshold" type="number" step="any" value="${rule ? toDisplay(rule, rule.threshold) : ''}" required />
+                </label>
+              </div>
+              <div class="form-row">
+                <label class="form-field">
+                  <span>${t('ruleEditor.thresholdHigh')}</span>
+                  <input name="thresholdHigh" type="number" step="any" value="${rule?.thresholdHigh === undefined ? '' : toDisplay(rule, rule.thresholdHigh)}" />
+                </label>
+                <label class="form-field">
+                  <span>${t('ruleEditor.window')}</span>
+                  <input name="window" type="number" min="1" max="${MAX_RATE_WINDOW_MS / 60000}" step="1" value="${rule?.windowMs ? Math.round(rule.windowMs / 60000) : ''}" />
+                </label>
+              </div>
+              <p class="form-hint">${t('ruleEditor.thresholdHint')}</p>
+              <div class="form-row">
+                <label class="form-field">
+                  <span>${t('ruleEditor.minDuration')}</span>
+                  <input name="minDuration" type="number" min="0" step="1" value="${rule ? Math.round(rule.minDurationMs / 60000) : 0}" />
+                </label>
+                <label class="form-field">
+                  <span>${t('ruleEditor.severity')}</span>
+                  <select name="severity">
+                    ${option('', t('ruleEditor.automatic'), !rule?.severity)}
+                    ${(['low', 'medium', 'high', 'critical'] as const).map(sev => option(sev, t(`severity.${sev}`), rule?.severity === sev)).join('')}
+                  </select>
+                </label>
+              </div>
+              <div class="form-row">
+                <label class="form-field">
+                  <span>${t('ruleEditor.activeFrom')}</span>
+                  <input name="activeStart" type="number" min="0" max="23" value="${rule?.activeHours?.start ?? ''}" placeholder="${t('ruleEditor.always')}" />
+                </label>
+                <label class="form-field">
+                  <span>${t('ruleEditor.activeUntil')}</span>
+                  <input name="activeEnd" type="number" min="0" max="23" value="${rule?.activeHours?.end ?? ''}" placeholder="${t('ruleEditor.always')}" />
+                </label>
+              </div>
+              <label class="form-checkbox">
+                <input name="enabled" type="checkbox" ${rule?.enabled === false ? '' : 'checked'} />
+                <span>${t('ruleEditor.enabled')}</span>
+              </label>
+            </div>
+            <div class="modal-footer">
+              ${rule ? `<button type="button" class="btn-danger rule-delete-btn">${t('form.delete')}</button>` : ''}
+              <button type="button" class="btn-secondary rule-cancel-btn">${t('form.back')}</button>
+              <button type="submit" class="btn-primary">${t('form.save')}</button>
+            </div>
+          </form>
+        </div>
+      `;
+      
+      modal.querySelectorAll('.modal-close, .modal-backdrop').forEach(el => el.addEventListener('click', close));
+      modal.querySelector('.rule-cancel-btn')?.addEventListener('click', () => renderList());
+      modal.querySelector('.rule-delete-btn')?.addEventListener('click', () => {
+        if (rule && confirm(t('ruleEditor.confirmDelete', { name: rule.name }))) {
+          this.rulesEngine.deleteRule(rule.id);
+          renderList();
+        }
+      });
+      
+      const form = modal.querySelector('.rule-form') as HTMLFormElement;
+      form.addEventListener('submit', (e) => {
+        e.preventDefault();
+        
+        const data = new FormData(form);
+        const activeStart = String(data.get('activeStart') || '');
+        const activeEnd = String(data.get('activeEnd') || '');
+        const operator = String(data.get('operator')) as RuleOperator;
+        const sensor: RuleSensor = data.get('sensor') === 'temperature' ? 'temperature' : 'fill';
+        const rateRule = isRateRule({ operator });
+        const errors = this.rulesEngine.saveRule({
+          id: rule?.id,
+          name: String(data.get('name') || '').trim(),
+          enabled: data.get('enabled') === 'on',
+          sensor,
+          storeId: String(data.get('storeId') || '') || undefined,
+          componentPattern: String(data.get('componentPattern') || '').trim(),
+          operator,
+          threshold: fromDisplay({ sensor, operator }, parseFloat(String(data.get('threshold')))),
+          thresholdHigh: operator === 'outside' ? fromDisplay({ sensor, operator }, parseFloat(String(data.get('thresholdHigh')))) : undefined,
+          windowMs: rateRule ? (parseFloat(String(data.get('window'))) || 0) * 60000 : undefined,
+          minDurationMs: (parseFloat(String(data.get('minDuration'))) || 0) * 60000,
+          activeHours: activeStart !== '' || activeEnd !== ''
+            ? { start: parseInt(activeStart, 10), end: parseInt(activeEnd, 10) }
+            : undefined,
+          severity: (String(data.get('severity') || '') || undefined) as Alert['severity'] | undefined
+        });
+        
+        if (errors.length > 0) {
+          const container = form.querySelector('.form-errors') as HTMLElement;
+          container.innerHTML = `<ul>${errors.map(error => `<li>${escapeHtml(error)}</li>`).join('')}</ul>`;
+          container.hidden = false;
+          return;
+        }
+        
+        renderList();
+      });
+    };
+    
+    renderList();
+  }
+
+  private async showStoreDetail(store: StoreLocation, range: HistoryRange = '24h'): Promise<void> {
+    document.querySelector('.store-detail-modal')?.remove();
+    
+    const modal = document.createElement('div');
+    modal.className = 'alert-modal store-detail-modal';
+    modal.innerHTML = `
+      <div class="modal-backdrop"></div>
+      <div class="modal-content">
+        <div class="modal-header">
+          <h2>${store.name}</h2>
+          <button class="modal-close">×</button>
+        </div>
+        <div class="modal-body">
+          <div class="range-selector">
+            ${(Object.keys(HISTORY_RANGES) as HistoryRange[]).map(r => `
+              <button class="range-btn ${r === range ? 'active' : ''}" data-range="${r}">${r}</button>
+            `).join('')}
+          </div>
+          <div class="store-trends">
+            <div class="camera-loading">${t('storeDetail.loading')}</div>
+          </div>
+        </div>
+      </div>
+    `;
+    
+    document.body.appendChild(modal);
+    
+    modal.querySelectorAll('.modal-close, .modal-backdrop').forEach(el => {
+      el.addEventListener('click', () => modal.remove());
+    });
+    modal.querySelectorAll('.range-btn').forEach(btn => {
+      btn.addEventListener('click', () => {
+        this.showStoreDetail(store, btn.getAttribute('data-range') as HistoryRange);
+      });
+    });
+    
+    const end = Date.now();
+    const start = end - HISTORY_RANGES[range];
+    const [fillSamples, tempSamples] = await Promise.all(
+      (['fill', 'temperature'] as RuleSensor[]).map(sensor => this.history.query({
+        storeId: store.id,
+        sensor,
+        start: new Date(start),
+        end: new Date(end),
+        maxPoints: 120
+      }))
+    );
+    
+    const container = modal.querySelector('.store-trends');
+    if (!container) return;
+    
+    container.innerHTML = `
+      <h3 class="trend-section-title">${t('storeDetail.fill')}</h3>
+      ${this.renderTrendCharts(store, 'fill', fillSamples, start, end)}
+      <h3 class="trend-section-title">${t('storeDetail.temperature')}</h3>
+      ${this.renderTrendCharts(store, 'temperature', tempSamples, start, end)}
+    `;
+  }
+
+  private renderTrendCharts(
+    store: StoreLocation,
+    sensor: RuleSensor,
+    samples: HistorySample[],
+    start: number,
+    end: number
+  ): string {
+    const byComponent = new Map<string, HistorySample[]>();
+    samples.forEach(sample => {
+      byComponent.set(sample.componentName, [...(byComponent.get(sample.componentName) || []), sample]);
+    });
+    
+    if (byComponent.size === 0) {
+      return `<div class="chart-empty">${t('chart.empty')}</div>`;
+    }
+    
+    const alertTypes: Alert['type'][] = sensor === 'fill' ? ['empty_shelf', 'predicted_empty'] : ['temperature'];
+    const storeAlerts = this.alertManager.getAlerts({ storeId: store.id }).filter(a => alertTypes.includes(a.type));
+    
+    const label = (component: string) => sensor === 'fill' ? this.planogram.describe(store.id, component) : component;
+    const unit = this.settingsService.getSettings().temperatureUnit;
+    const toDisplay = (value: number) => sensor === 'fill' ? value : convertTemperature(value, unit);
+    
+    return Array.from(byComponent.entries())
+      .sort(([a], [b]) => label(a).localeCompare(label(b)))
+      .map(([component, componentSamples]) => {
+        const markers = storeAlerts
+          .filter(a => a.component === component || a.shelves?.includes(component))
+          .map(a => ({ timestamp: new Date(a.timestamp).getTime(), severity: a.severity, label: getAlertTitle(a) }));
+        const thresholds = this.rulesEngine.getApplicableRules(store.id, sensor, component)
+          .flatMap(r => this.rulesEngine.getThresholdLines(r))
+          .map(toDisplay);
+        const latest = componentSamples[componentSamples.length - 1].value;
+        
+        return `
+          <div class="trend-card">
+            <div class="trend-header">
+              <span class="trend-name" title="${escapeHtml(component)}">${escapeHtml(label(component))}</span>
+              <span class="trend-latest">${sensor === 'fill' ? `${formatNumber(latest)}%` : formatTemp(latest)}</span>
+            </div>
+            ${TrendChart.render({
+              samples: componentSamples.map(sample => ({
+                ...sample,
+                value: toDisplay(sample.value),
+                min: sample.min === undefined ? undefined : toDisplay(sample.min),
+                max: sample.max === undefined ? undefined : toDisplay(sample.max)
+              })),
+              start,
+              end,
+              unit: sensor === 'fill' ? '%' : '°',
+              thresholds,
+              markers,
+              yDomain: sensor === 'fill' ? [0, 100] : undefined
+            })}
+          </div>
+        `;
+      }).join('');
+  }
+
+  private openAlert(alertId: string): void {
+    const alert = this.state.alerts.find(a => a.id === alertId);
+    if (alert) {
+      this.alertManager.markAsRead(alertId);
+      this.state.alerts = this.alertManager.getAlerts();
+      this.showAlertDetail(alert);
+      this.render();
+    }
+  }
+
+  private showAlertDetail(alert: Alert): void {
+    const modal = document.createElement('div');
+    modal.className = 'alert-modal';
+    modal.innerHTML = `
+      <div class="modal-backdrop"></div>
+      <div class="modal-content">
+        <div class="modal-header">
+          <h2>${escapeHtml(getAlertTitle(alert))}</h2>
+          <button class="modal-close">×</button>
+        </div>
+        <div class="modal-body">
+          <div class="alert-severity severity-${alert.severity}">
+            ${t(`severity.${alert.severity}`).toUpperCase()}
+          </div>
+          <div class="alert-time">
+            ${formatRelativeTime(alert.timestamp)}
+          </div>
+          <div class="alert-message">
+            ${getAlertMessage(alert).split('\n').map(line => `<p>${escapeHtml(line)}</p>`).join('')}
           </div>
-          ${alert.imageUrl ? `
+          ${this.renderAlertLifecycle(alert)}
+          ${alert.evidenceId ? `
+            <div class="alert-images">
+              <div class="image-container">
+                <h4>${t('alertDetail.cameraView')}</h4>
+                <div class="alert-image-status">${t('alertDetail.loadingImage')}</div>
+              </div>
+            </div>
+          ` : alert.imageUrl ? `
             <div class="alert-images">
               <div class="image-container">
-                <h4>Camera View</h4>
-                <img src="${alert.imageUrl}" alt="Alert image" class="alert-image" />
+                <h4>${t('alertDetail.cameraView')}</h4>
+                <img src="${alert.imageUrl}" alt="${t('alertDetail.imageAlt')}" class="alert-image" />
               </div>
             </div>
           ` : ''}
         </div>
         <div class="modal-footer">
-          <button class="btn-primary modal-close">Close</button>
+          ${alert.status === 'open' ? `<button class="btn-secondary alert-ack-btn">${t('alertDetail.acknowledge')}</button>` : ''}
+          ${alert.status !== 'resolved' ? `
+            <button class="btn-secondary alert-assign-btn">${t('alertDetail.assign')}</button>
+            <button class="btn-secondary alert-resolve-btn">${t('alertDetail.resolve')}</button>
+          ` : ''}
+          <button class="btn-primary modal-close">${t('alertDetail.close')}</button>
         </div>
       </div>
     `;
     
     document.body.appendChild(modal);
     
+    let imageUrl: string | null = null;
+    const close = () => {
+      if (document.body.contains(modal)) {
+        document.body.removeChild(modal);
+      }
+      if (imageUrl) {
+        this.evidence.release(imageUrl);
+        imageUrl = null;
+      }
+    };
+    
     // Close modal handlers
     modal.querySelectorAll('.modal-close, .modal-backdrop').forEach(el => {
-      el.addEventListener('click', () => {
-        document.body.removeChild(modal);
+      el.addEventListener('click', close);
+    });
+    
+    // Evidence is read from IndexedDB once the modal is open
+    if (alert.evidenceId) {
+      this.evidence.getImageUrl(alert.evidenceId).then(url => {
+        const status = modal.querySelector('.alert-image-status');
+        if (!document.body.contains(modal) || !status) {
+          if (url) this.evidence.release(url);
+          return;
+        }
+        
+        if (url) {
+          imageUrl = url;
+          status.outerHTML = `<img src="${url}" alt="${t('alertDetail.imageAlt')}" class="alert-image" />`;
+        } else {
+          status.textContent = t('alertDetail.imageGone');
+        }
       });
+    }
+    
+    // Lifecycle actions re-open the modal with the updated alert
+    const runAction = (action: (operator: string) => boolean) => {
+      const operator = this.requireOperatorName();
+      if (!operator || !action(operator)) return;
+      
+      close();
+      this.render();
+      const updated = this.alertManager.getAlerts().find(a => a.id === alert.id);
+      if (updated) {
+        this.showAlertDetail(updated);
+      }
+    };
+    
+    modal.querySelector('.alert-ack-btn')?.addEventListener('click', () => {
+      runAction(operator => this.alertManager.acknowledge(alert.id, operator));
+    });
+    modal.querySelector('.alert-assign-btn')?.addEventListener('click', () => {
+      const assignee = prompt(t('alertDetail.assignPrompt'), alert.assignedTo || '')?.trim();
+      if (assignee) {
+        runAction(operator => this.alertManager.assign(alert.id, assignee, operator));
+      }
+    });
+    modal.querySelector('.alert-resolve-btn')?.addEventListener('click', () => {
+      const note = prompt(t('alertDetail.resolvePrompt'));
+      if (note !== null) {
+        runAction(operator => this.alertManager.resolve(alert.id, operator, note.trim() || undefined));
+      }
+    });
+  }
+
+  private renderAlertLifecycle(alert: Alert): string {
+    const rows: Array<[string, string]> = [[t('lifecycle.status'), t(`status.${alert.status}`)]];
+    
+    if (alert.acknowledgedAt) {
+      rows.push([t('lifecycle.acknowledged'), `${alert.acknowledgedBy || t('lifecycle.unknown')} · ${formatRelativeTime(alert.acknowledgedAt)}`]);
+    }
+    if (alert.assignedTo) {
+      rows.push([t('lifecycle.assignedTo'), `${alert.assignedTo}${alert.assignedAt ? ` · ${formatRelativeTime(alert.assignedAt)}` : ''}`]);
+    }
+    if (alert.resolvedAt) {
+      const by = alert.resolvedBy === 'system' ? t('lifecycle.automatically') : alert.resolvedBy || t('lifecycle.unknown');
+      rows.push([t('lifecycle.resolved'), `${by} · ${formatRelativeTime(alert.resolvedAt)}`]);
+    }
+    if (alert.resolutionNote) {
+      rows.push([t('lifecycle.note'), alert.resolutionNote]);
+    }
+    const task = this.taskManager.getTaskForAlert(alert.id);
+    if (task) {
+      rows.push([t('lifecycle.restockTask'), `${t(`taskStatus.${task.status}`)}${task.assignedTo ? ` · ${task.assignedTo}` : ''}`]);
+    }
+    (alert.escalations || []).forEach(escalation => {
+      rows.push([
+        t('lifecycle.escalation', { level: escalation.level }),
+        `${t(`role.${escalation.role}`)} · ${t(`severity.${escalation.severity}`)} · ${formatRelativeTime(escalation.timestamp)}`
+      ]);
     });
+    
+    return `
+      <dl class="alert-lifecycle">
+        ${rows.map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value)}</dd>`).join('')}
+      </dl>
+    `;
+  }
+
+  private showEscalationEditor(): void {
+    const modal = document.createElement('div');
+    modal.className = 'alert-modal escalation-modal';
+    document.body.appendChild(modal);
+    
+    const close = () => {
+      if (document.body.contains(modal)) {
+        document.body.removeChild(modal);
+      }
+    };
+    
+    const roles = (Object.keys(ESCALATION_ROLES) as EscalationRole[]).map(role => [role, t(ESCALATION_ROLES[role])] as [EscalationRole, string]);
+    const alertTypes: Alert['type'][] = ['empty_shelf', 'predicted_empty', 'temperature', 'equipment_failure'];
+    
+    const describePolicy = (policy: EscalationPolicy): string => {
+      const store = policy.storeId ? this.storeRegistry.getStore(policy.storeId)?.name || policy.storeId : t('form.allStores');
+      const types = policy.alertTypes.length > 0
+        ? policy.alertTypes.map(type => t(`alertType.${type}`)).join(', ')
+        : t('escalation.allTypes');
+      const steps = policy.steps
+        .map(step => t('escalation.step', { minutes: step.afterMinutes, role: t(ESCALATION_ROLES[step.role]) }))
+        .join(', ');
+      return escapeHtml(t('escalation.summary', { store, types, severity: t(`severity.${policy.minSeverity}`), steps }));
+    };
+    
+    const renderList = () => {
+      const policies = this.escalationManager.getPolicies();
+      modal.innerHTML = `
+        <div class="modal-backdrop"></div>
+        <div class="modal-content">
+          <div class="modal-header">
+            <h2>${t('alerts.escalation')}</h2>
+            <button class="modal-close">×</button>
+          </div>
+          <div class="modal-body">
+            <form class="roles-form">
+              <h3 class="trend-section-title">${t('escalation.receives')}</h3>
+              ${roles.map(([role, label]) => `
+                <label class="form-checkbox">
+                  <input name="role" type="checkbox" value="${role}" ${this.escalationManager.isReceiving(role) ? 'checked' : ''} />
+                  <span>${label}</span>
+                </label>
+              `).join('')}
+            </form>
+            <h3 class="trend-section-title">${t('escalation.policies')}</h3>
+            <div class="rules-list">
+              ${policies.length > 0 ? policies.map(policy => `
+                <div class="rule-item ${policy.enabled ? '' : 'disabled'}">
+                  <div class="rule-info">
+                    <div class="rule-name">${escapeHtml(policy.name)}</div>
+                    <div class="rule-summary">${describePolicy(policy)}</div>
+                  </div>
+                  <button class="btn-secondary policy-edit-btn" data-policy-id="${escapeHtml(policy.id)}">${t('form.edit')}</button>
+                </div>
+              `).join('') : `<div class="no-alerts">${t('escalation.empty')}</div>`}
+            </div>
+          </div>
+          <div class="modal-footer">
+            <button class="btn-primary policy-add-btn">${t('escalation.add')}</button>
+          </div>
+        </div>
+      `;
+      
+      modal.querySelectorAll('.modal-close, .modal-backdrop').forEach(el => el.addEventListener('click', close));
+      modal.querySelector('.policy-add-btn')?.addEventListener('click', () => renderForm());
+      modal.querySelector('.roles-form')?.addEventListener('change', (e) => {
+        const data = new FormData(e.currentTarget as HTMLFormElement);
+        this.escalationManager.setReceivingRoles(data.getAll('role').map(String) as EscalationRole[]);
+      });
+      modal.querySelectorAll('.policy-edit-btn').forEach(btn => {
+        btn.addEventListener('click', () => renderForm(this.escalationManager.getPolicy(btn.getAttribute('data-policy-id') || '')));
+      });
+    };
+    
+    const renderForm = (policy?: EscalationPolicy) => {
+      const option = (value: string, label: string, selected: boolean) =>
+        `<option value="${escapeHtml(value)}" ${selected ? 'selected' : ''}>${escapeHtml(label)}</option>`;
+      const steps = [0, 1, 2].map(i => policy?.steps[i]);
+      
+      modal.innerHTML = `
+        <div class="modal-backdrop"></div>
+        <div class="modal-content">
+          <div class="modal-header">
+            <h2>${policy ? t('escalation.editTitle') : t('escalation.add')}</h2>
+            <button class="modal-close">×</button>
+          </div>
+          <form class="policy-form">
+            <div class="modal-body">
+              <div class="form-errors" hidden></div>
+              <label class="form-field">
+                <span>${t('form.name')}</span>
+                <input name="name" type="text" value="${escapeHtml(policy?.name || '')}" required />
+              </label>
+              <div class="form-row">
+                <label class="form-field">
+                  <span>${t('form.store')}</span>
+                  <select name="storeId">
+                    ${option('', t('form.allStores'), !policy?.storeId)}
+                    ${this.state.stores.map(s => option(s.id, s.name, policy?.storeId === s.id)).join('')}
+                  </select>
+                </label>
+                <label class="form-field">
+                  <span>${t('escalation.minSeverity')}</span>
+                  <select name="minSeverity">
+                    ${(['low', 'medium', 'high', 'critical'] as const).map(sev => option(sev, t(`severity.${sev}`), (policy?.minSeverity || 'high') === sev)).join('')}
+                  </select>
+                </label>
+              </div>
+              <span class="form-label">${t('escalation.alertTypes')}</span>
+              ${alertTypes.map(type => `
+                <label class="form-checkbox">
+                  <input name="alertTypes" type="checkbox" value="${type}" ${policy?.alertTypes.includes(type) ? 'checked' : ''} />
+                  <span>${t(`alertType.${type}`)}</span>
+                </label>
+              `).join('')}
+              ${steps.map((step, i) => `
+                <div class="form-row">
+                  <label class="form-field">
+                    <span>${t('escalation.stepAfter', { step: i + 1 })}</span>
+                    <input name="afterMinutes" type="number" min="1" step="1" value="${step?.afterMinutes ?? ''}" placeholder="${t('escalation.stepOff')}" />
+                  </label>
+                  <label class="form-field">
+                    <span>${t('escalation.notify')}</span>
+                    <select name="stepRole">
+                      ${roles.map(([role, label]) => option(role, label, (step?.role || roles[Math.min(i, roles.length - 1)][0]) === role)).join('')}
+                    </select>
+                  </label>
+                </div>
+                <label class="form-checkbox">
+                  <input name="raiseSeverity${i}" type="checkbox" ${step?.raiseSeverity ? 'checked' : ''} />
+                  <span>${t('escalation.raiseSeverity', { step: i + 1 })}</span>
+                </label>
+              `).join('')}
+              <label class="form-checkbox">
+                <input name="enabled" type="checkbox" ${policy?.enabled === false ? '' : 'checked'} />
+                <span>${t('form.enabled')}</span>
+              </label>
+            </div>
+            <div class="modal-footer">
+              ${policy ? `<button type="button" class="btn-danger policy-delete-btn">${t('form.delete')}</button>` : ''}
+              <button type="button" class="btn-secondary policy-cancel-btn">${t('form.back')}</button>
+              <button type="submit" class="btn-primary">${t('form.save')}</button>
+            </div>
+          </form>
+        </div>
+      `;
+      
+      modal.querySelectorAll('.modal-close, .modal-backdrop').forEach(el => el.addEventListener('click', close));
+      modal.querySelector('.policy-cancel-btn')?.addEventListener('click', () => renderList());
+      modal.querySelector('.policy-delete-btn')?.addEventListener('click', () => {
+        if (policy && confirm(t('escalation.confirmDelete', { name: policy.name }))) {
+          this.escalationManager.deletePolicy(policy.id);
+          renderList();
+        }
+      });
+      
+      const form = modal.querySelector('.policy-form') as HTMLFormElement;
+      form.addEventListener('submit', (e) => {
+        e.preventDefault();
+        
+        const data = new FormData(form);
+        const stepRoles = data.getAll('stepRole').map(String) as EscalationRole[];
+        const steps = data.getAll('afterMinutes')
+          .map((value, i) => ({
+            afterMinutes: parseFloat(String(value)),
+            role: stepRoles[i],
+            raiseSeverity: data.get(`raiseSeverity${i}`) === 'on'
+          }))
+          .filter(step => !Number.isNaN(step.afterMinutes));
+        
+        const errors = this.escalationManager.savePolicy({
+          id: policy?.id,
+          name: String(data.get('name') || '').trim(),
+          enabled: data.get('enabled') === 'on',
+          storeId: String(data.get('storeId') || '') || undefined,
+          alertTypes: data.getAll('alertTypes').map(String) as Alert['type'][],
+          minSeverity: String(data.get('minSeverity')) as Alert['severity'],
+          steps
+        });
+        
+        if (errors.length > 0) {
+          const container = form.querySelector('.form-errors') as HTMLElement;
+          container.innerHTML = `<ul>${errors.map(error => `<li>${escapeHtml(error)}</li>`).join('')}</ul>`;
+          container.hidden = false;
+          return;
+        }
+        
+        renderList();
+      });
+    };
+    
+    renderList();
+  }
+
+  private requireOperatorName(): string | null {
+    let name = this.alertManager.getOperatorName();
+    if (!name) {
+      name = prompt(t('alerts.operatorPrompt'))?.trim() || null;
+      if (name) {
+        this.alertManager.setOperatorName(name);
+      }
+    }
+    return name;
   }
 
   private showError(message: string): void {
@@ -701,7 +2762,8 @@ class InventoryMonitorApp {
       const saved = localStorage.getItem('pret-app-state');
       if (saved) {
         const state = JSON.parse(saved);
-        this.state.selectedStores = new Set(state.selectedStores || []);
+        const knownIds = (state.selectedStores || []).filter((id: string) => this.storeRegistry.getStore(id));
+        this.state.selectedStores = new Set(knownIds);
         this.state.currentView = state.currentView || 'stores';
       }
     } catch (error) {
@@ -720,24 +2782,32 @@ class InventoryMonitorApp {
         ${this.renderContent()}
       </div>
     `;
+    
+    if (this.state.currentView === 'camera') {
+      this.mountCameraFeeds();
+    }
   }
 
   private renderHeader(): string {
     const unreadCount = this.alertManager.getUnreadCount();
     const onlineStores = this.state.stores.filter(s => s.status === 'online').length;
+    const quiet = this.settingsService.getSettings().notificationsEnabled ? this.describeQuiet() : null;
     
     return `
       <header class="top-nav">
         <div class="nav-brand">
           <div class="brand-logo">🥪</div>
           <span class="brand-text">Pret Monitor</span>
+          ${this.simulated ? `<span class="sim-badge" title="${t('header.simulatedHint')}">${t('header.simulated')}</span>` : ''}
         </div>
         <div class="nav-status">
           <div class="connection-status ${this.state.isOnline ? 'online' : 'offline'}">
             <span class="status-dot"></span>
-            <span class="status-text">${onlineStores}/${this.state.stores.length} stores</span>
+            <span class="status-text">${t('header.stores', { online: onlineStores, total: this.state.stores.length })}</span>
           </div>
           ${unreadCount > 0 ? `<div class="alert-badge">${unreadCount}</div>` : ''}
+          ${quiet ? `<span class="quiet-badge" title="${quiet}" aria-label="${quiet}">🔕</span>` : ''}
+          <button class="settings-btn ${this.state.currentView === 'settings' ? 'active' : ''}" title="${t('header.settings')}" aria-label="${t('header.settings')}">⚙️</button>
         </div>
       </header>
     `;
@@ -745,25 +2815,31 @@ class InventoryMonitorApp {
 
   private renderTabNavigation(): string {
     const unreadCount = this.alertManager.getUnreadCount();
+    const activeTasks = this.taskManager.getStatistics().active;
     
     return `
       <nav class="tab-navigation">
         <button class="tab-btn ${this.state.currentView === 'stores' ? 'active' : ''}" data-tab="stores">
           <span class="tab-icon">🏪</span>
-          <span class="tab-label">Stores</span>
+          <span class="tab-label">${t('tab.stores')}</span>
         </button>
         <button class="tab-btn ${this.state.currentView === 'map' ? 'active' : ''}" data-tab="map">
           <span class="tab-icon">🗺️</span>
-          <span class="tab-label">Map</span>
+          <span class="tab-label">${t('tab.map')}</span>
         </button>
         <button class="tab-btn ${this.state.currentView === 'alerts' ? 'active' : ''}" data-tab="alerts">
           <span class="tab-icon">🚨</span>
-          <span class="tab-label">Alerts</span>
+          <span class="tab-label">${t('tab.alerts')}</span>
           ${unreadCount > 0 ? `<span class="badge">${unreadCount}</span>` : ''}
         </button>
+        <button class="tab-btn ${this.state.currentView === 'tasks' ? 'active' : ''}" data-tab="tasks">
+          <span class="tab-icon">📋</span>
+          <span class="tab-label">${t('tab.tasks')}</span>
+          ${activeTasks > 0 ? `<span class="badge">${activeTasks}</span>` : ''}
+        </button>
         <button class="tab-btn ${this.state.currentView === 'camera' ? 'active' : ''}" data-tab="camera">
           <span class="tab-icon">📹</span>
-          <span class="tab-label">Live Feed</span>
+          <span class="tab-label">${t('tab.camera')}</span>
         </button>
       </nav>
     `;
@@ -777,8 +2853,12 @@ class InventoryMonitorApp {
         return this.renderMapView();
       case 'alerts':
         return this.renderAlertsView();
+      case 'tasks':
+        return this.renderTasksView();
       case 'camera':
         return this.renderCameraView();
+      case 'settings':
+        return this.renderSettingsView();
       default:
         return this.renderStoresView();
     }
@@ -788,16 +2868,25 @@ class InventoryMonitorApp {
     return `
       <main class="content-area">
         <div class="stores-header">
-          <h2>Store Locations</h2>
-          <p class="stores-subtitle">Select stores to monitor</p>
+          <div>
+            <h2>${t('stores.title')}</h2>
+            <p class="stores-subtitle">${t('stores.subtitle')}</p>
+          </div>
+          <div class="alerts-actions">
+            <button class="btn-secondary planogram-btn">${t('stores.planogram')}</button>
+            <button class="btn-secondary compliance-btn">${t('stores.compliance')}</button>
+            <button class="btn-secondary credentials-btn">${t('stores.credentials')}</button>
+            <button class="btn-secondary store-add-btn">${t('stores.add')}</button>
+          </div>
         </div>
         <div class="stores-list">
-          ${this.state.stores.map(store => this.renderStoreCard(store)).join('')}
+          ${this.state.stores.length > 0 ? this.state.stores.map(store => this.renderStoreCard(store)).join('') :
+            `<div class="no-alerts">${t('stores.empty')}</div>`}
         </div>
         ${this.state.selectedStores.size > 0 ? `
           <div class="stores-summary">
-            <h3>Monitoring ${this.state.selectedStores.size} stores</h3>
-            <p class="last-sync">Last updated: ${formatRelativeTime(this.state.lastSync)}</p>
+            <h3>${t('stores.monitoring', { count: this.state.selectedStores.size })}</h3>
+            <p class="last-sync">${t('stores.lastUpdated', { time: formatRelativeTime(this.state.lastSync) })}</p>
           </div>
         ` : ''}
       </main>
@@ -807,22 +2896,32 @@ class InventoryMonitorApp {
   private renderStoreCard(store: StoreLocation): string {
     const isSelected = this.state.selectedStores.has(store.id);
     const storeAlerts = this.state.alerts.filter(a => a.storeId === store.id && !a.read);
+    const lowShelves = Array.from(new Set(this.state.alerts
+      .filter(a => a.storeId === store.id && a.status !== 'resolved' && a.component &&
+        (a.type === 'empty_shelf' || a.type === 'predicted_empty'))
+      .map(a => a.component!)))
+      .map(region => this.planogram.describe(store.id, region));
     
     return `
       <div class="store-card ${isSelected ? 'selected' : ''}" data-store-id="${store.id}">
         <div class="store-toggle" data-store-id="${store.id}">
           <div class="store-info">
             <div class="store-header">
-              <h3 class="store-name">${store.name}</h3>
+              <h3 class="store-name">${escapeHtml(store.name)}</h3>
               <div class="store-status status-${store.status}">
                 <span class="status-dot"></span>
-                <span class="status-text">${store.status}</span>
+                <span class="status-text">${t(`storeStatus.${store.status}`)}</span>
               </div>
             </div>
-            <p class="store-address">${store.address}</p>
-            <div class="store-region">${store.region}</div>
+            <p class="store-address">${escapeHtml(store.address)}</p>
+            <div class="store-region">${escapeHtml(store.region)}</div>
+            ${this.renderStoreHours(store)}
+            ${lowShelves.length > 0 ? `<div class="store-shelves">${t('store.needsRestocking', { shelves: escapeHtml(lowShelves.join('; ')) })}</div>` : ''}
+            ${this.renderConnectionDetail(store.id)}
           </div>
           <div class="store-actions">
+            <button class="store-edit-btn store-detail-btn" data-store-id="${store.id}" title="${t('store.trends')}">📈</button>
+            <button class="store-edit-btn" data-store-id="${store.id}" title="${t('store.edit')}">✏️</button>
             <div class="toggle-switch ${isSelected ? 'active' : ''}">
               <div class="toggle-thumb"></div>
             </div>
@@ -833,26 +2932,42 @@ class InventoryMonitorApp {
     `;
   }
 
+  /**
+   * Whether a store is open and its local time, since stores can be in
+   * another time zone from the viewer
+   */
+  private renderStoreHours(store: StoreLocation): string {
+    const local = getStoreTime(store);
+    const closure = getExceptionOn(store, local.date);
+    const status = isStoreActive(store)
+      ? t('store.openNow', { time: local.time })
+      : closure?.name && !closure.hours
+        ? t('store.closedFor', { name: escapeHtml(closure.name), time: local.time })
+        : t('store.closedNow', { time: local.time });
+    
+    return `<div class="store-hours">${status}</div>`;
+  }
+
   private renderMapView(): string {
     return `
       <main class="content-area">
         <div class="map-header">
-          <h2>Store Locations</h2>
-          <p class="map-subtitle">Interactive map view</p>
+          <h2>${t('stores.title')}</h2>
+          <p class="map-subtitle">${t('map.subtitle')}</p>
         </div>
         <div id="map-container" class="map-container"></div>
         <div class="map-legend">
           <div class="legend-item">
             <span class="legend-dot online"></span>
-            <span>Online</span>
+            <span>${t('storeStatus.online')}</span>
           </div>
           <div class="legend-item">
             <span class="legend-dot offline"></span>
-            <span>Offline</span>
+            <span>${t('storeStatus.offline')}</span>
           </div>
           <div class="legend-item">
             <span class="legend-dot alert"></span>
-            <span>Has Alerts</span>
+            <span>${t('map.hasAlerts')}</span>
           </div>
         </div>
       </main>
@@ -860,50 +2975,313 @@ class InventoryMonitorApp {
   }
 
   private renderAlertsView(): string {
-    const alerts = this.state.alerts.slice(0, 50); // Limit to recent 50
+    const statusFilter = this.state.alertStatusFilter;
+    const alerts = this.state.alerts
+      .filter(a => statusFilter === 'all' || a.status === statusFilter)
+      .slice(0, 50); // Limit to recent 50
+    this.evidence.loadThumbnails(alerts.filter(a => a.evidenceId).map(a => a.evidenceId!));
+    const stats = this.alertManager.getStatistics();
+    const filters: Array<[AlertStatus | 'all', string, number]> = [
+      ['all', t('alerts.all'), stats.total],
+      ['open', t('status.open'), stats.byStatus.open],
+      ['acknowledged', t('status.acknowledged'), stats.byStatus.acknowledged],
+      ['resolved', t('status.resolved'), stats.byStatus.resolved]
+    ];
     
     return `
       <main class="content-area">
         <div class="alerts-header">
-          <h2>Alert History</h2>
+          <h2>${t('alerts.title')}</h2>
           <div class="alerts-actions">
+            <button class="btn-secondary rules-btn">${t('alerts.rules')}</button>
+            <button class="btn-secondary escalation-btn">${t('alerts.escalation')}</button>
             <button class="btn-secondary" onclick="app.alertManager.markAllAsRead(); app.render();">
-              Mark All Read
+              ${t('alerts.markAllRead')}
             </button>
           </div>
         </div>
+        <div class="status-filters">
+          ${filters.map(([status, label, count]) => `
+            <button class="status-filter-btn ${statusFilter === status ? 'active' : ''}" data-status="${status}">
+              ${label} <span class="filter-count">${count}</span>
+            </button>
+          `).join('')}
+        </div>
+        ${stats.meanTimeToResolveMs !== null ? `
+          <p class="alerts-stats">
+            ${t('alerts.meanTimeToResolve', { time: formatShortDuration(stats.meanTimeToResolveMs) })} · ${t('alerts.autoResolved', { count: stats.autoResolved })}
+          </p>
+        ` : ''}
         <div class="alerts-list">
           ${alerts.length > 0 ? alerts.map(alert => this.renderAlertCard(alert)).join('') : 
-            '<div class="no-alerts">No alerts yet. Monitoring is active.</div>'}
+            `<div class="no-alerts">${t('alerts.empty')}</div>`}
         </div>
       </main>
     `;
   }
 
   private renderAlertCard(alert: Alert): string {
+    const preview = alert.evidenceId ? this.evidence.getThumbnailUrl(alert.evidenceId) : alert.imageUrl;
+    
     return `
-      <div class="alert-item ${alert.read ? 'read' : 'unread'}" data-alert-id="${alert.id}">
+      <div class="alert-item ${alert.read ? 'read' : 'unread'} status-${alert.status}" data-alert-id="${alert.id}">
         <div class="alert-content">
           <div class="alert-header">
-            <div class="alert-severity severity-${alert.severity}">
-              <span class="severity-dot"></span>
-              ${alert.severity}
+            <div class="alert-badges">
+              <div class="alert-severity severity-${alert.severity}">
+                <span class="severity-dot"></span>
+                ${t(`severity.${alert.severity}`)}
+              </div>
+              <div class="alert-status-badge">${t(`status.${alert.status}`)}${alert.assignedTo ? ` · ${escapeHtml(alert.assignedTo)}` : ''}</div>
             </div>
             <div class="alert-time">${formatRelativeTime(alert.timestamp)}</div>
           </div>
-          <h3 class="alert-title">${alert.title}</h3>
-          <p class="alert-message">${alert.message.split('\n')[0]}</p>
-          <div class="alert-location">${alert.location || alert.storeName}</div>
+          <h3 class="alert-title">${escapeHtml(getAlertTitle(alert))}</h3>
+          <p class="alert-message">${escapeHtml(getAlertMessage(alert).split('\n')[0])}</p>
+          <div class="alert-location">${escapeHtml(alert.location || alert.storeName)}</div>
         </div>
-        ${alert.imageUrl ? `
+        ${preview ? `
           <div class="alert-image-preview">
-            <img src="${alert.imageUrl}" alt="Alert preview" />
+            <img src="${preview}" alt="${t('alerts.previewAlt')}" />
+          </div>
+        ` : ''}
+      </div>
+    `;
+  }
+
+  private renderTasksView(): string {
+    const now = Date.now();
+    const active = this.taskManager.getTasks({ active: true })
+      .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+    const finished = this.taskManager.getTasks({ active: false }).slice(0, 10);
+    const stats = this.taskManager.getStatistics();
+    
+    return `
+      <main class="content-area">
+        <div class="alerts-header">
+          <h2>${t('tasks.title')}</h2>
+        </div>
+        <p class="alerts-stats">
+          ${t('tasks.toDo', { count: stats.active })}${stats.overdue > 0 ? ` · <span class="task-overdue-count">${t('tasks.overdue', { count: stats.overdue })}</span>` : ''} · ${t('tasks.restockedToday', { count: stats.completedToday })}${stats.meanTimeToRestockMs !== null ? ` · ${t('tasks.meanTimeToRestock', { time: formatShortDuration(stats.meanTimeToRestockMs) })}` : ''}
+        </p>
+        <div class="tasks-list">
+          ${active.length > 0 ? active.map(task => this.renderTaskCard(task, now)).join('') :
+            `<div class="no-alerts">${t('tasks.empty')}</div>`}
+        </div>
+        ${finished.length > 0 ? `
+          <h3 class="trend-section-title">${t('tasks.recentlyClosed')}</h3>
+          <div class="tasks-list">
+            ${finished.map(task => this.renderTaskCard(task, now)).join('')}
+          </div>
+        ` : ''}
+      </main>
+    `;
+  }
+
+  private renderTaskCard(task: RestockTask, now: number): string {
+    const active = this.taskManager.isActive(task);
+    const dueMs = new Date(task.dueAt).getTime() - now;
+    const action = (name: 'start' | 'assign' | 'done' | 'cancel') =>
+      `<button class="btn-secondary task-action-btn" data-task-id="${task.id}" data-action="${name}">${t(`task.${name}`)}</button>`;
+    
+    let timing: string;
+    if (active) {
+      timing = dueMs >= 0
+        ? t('task.dueIn', { time: formatShortDuration(dueMs) })
+        : t('task.overdueBy', { time: formatShortDuration(-dueMs) });
+    } else if (task.status === 'done') {
+      const by = task.completedBy === 'system'
+        ? t('task.sensorReads', { fill: Math.round(task.fillAtCompletion ?? 0) })
+        : task.completedBy || '';
+      timing = t('task.restockedIn', { time: formatShortDuration(task.timeToRestockMs || 0), by });
+    } else {
+      timing = t('task.cancelledBy', { by: task.completedBy || '', time: formatRelativeTime(task.completedAt!) });
+    }
+    
+    return `
+      <div class="task-item status-${task.status} ${active && dueMs < 0 ? 'overdue' : ''}" data-task-id="${task.id}">
+        <div class="alert-header">
+          <div class="alert-badges">
+            <div class="alert-severity severity-${task.severity}">
+              <span class="severity-dot"></span>
+              ${t(`severity.${task.severity}`)}
+            </div>
+            <div class="alert-status-badge">${t(`taskStatus.${task.status}`)}${task.assignedTo ? ` · ${escapeHtml(task.assignedTo)}` : ''}</div>
+          </div>
+          <div class="alert-time">${formatRelativeTime(task.createdAt)}</div>
+        </div>
+        <h3 class="alert-title">${escapeHtml(t('task.title', { shelf: task.shelf }))}</h3>
+        <div class="alert-location">${escapeHtml(task.storeName)}</div>
+        <div class="task-timing">${escapeHtml(timing)}</div>
+        ${active ? `
+          <ul class="task-checklist">
+            ${task.checklist.map((item, i) => `
+              <li>
+                <label class="form-checkbox">
+                  <input type="checkbox" class="task-check" data-task-id="${task.id}" data-index="${i}" ${item.done ? 'checked' : ''} />
+                  ${escapeHtml(item.key ? localize({ key: item.key }) : item.label)}
+                </label>
+              </li>
+            `).join('')}
+          </ul>
+          <div class="task-actions">
+            ${task.status === 'open' ? action('start') : ''}
+            ${action('assign')}
+            ${action('done')}
+            ${action('cancel')}
           </div>
         ` : ''}
       </div>
     `;
   }
 
+  /**
+   * Run a task queue button, recording the operator like alert actions do
+   */
+  private runTaskAction(taskId: string, action: string): void {
+    const operator = this.requireOperatorName();
+    if (!operator) return;
+    
+    switch (action) {
+      case 'start':
+        this.taskManager.start(taskId, operator);
+        break;
+      case 'assign': {
+        const task = this.taskManager.getTasks().find(t => t.id === taskId);
+        const assignee = prompt(t('task.assignPrompt'), task?.assignedTo || '')?.trim();
+        if (assignee) {
+          this.taskManager.assign(taskId, assignee);
+        }
+        break;
+      }
+      case 'done':
+        this.taskManager.complete(taskId, operator);
+        break;
+      case 'cancel':
+        if (confirm(t('task.confirmCancel'))) {
+          this.taskManager.cancel(taskId, operator);
+        }
+        break;
+    }
+  }
+
+  private renderSettingsView(): string {
+    const settings = this.settingsService.getSettings();
+    const polling = this.scheduler.getSettings();
+    const permission = this.notificationManager.getPermission();
+    const schedule = this.notificationManager.getSchedule();
+    const quiet = this.describeQuiet();
+    const heldCount = this.notificationManager.getHeldCount();
+    const option = (value: string, label: string, selected: boolean) =>
+      `<option value="${value}" ${selected ? 'selected' : ''}>${label}</option>`;
+    
+    return `
+      <main class="content-area">
+        <div class="alerts-header">
+          <h2>${t('settings.title')}</h2>
+        </div>
+        <div class="settings-form">
+          <div class="form-errors" hidden></div>
+          <h3 class="trend-section-title">${t('settings.notifications')}</h3>
+          <label class="form-checkbox">
+            <input name="notificationsEnabled" type="checkbox" ${settings.notificationsEnabled ? 'checked' : ''} />
+            <span>${t('settings.push')}</span>
+          </label>
+          ${permission === 'denied' ? `<p class="form-hint">${t('settings.pushBlocked')}</p>` : ''}
+          ${permission === 'unsupported' ? `<p class="form-hint">${t('settings.pushUnsupported')}</p>` : ''}
+          <label class="form-checkbox">
+            <input name="soundEnabled" type="checkbox" ${settings.soundEnabled ? 'checked' : ''} />
+            <span>${t('settings.sound')}</span>
+          </label>
+          <span class="form-label">${t('settings.quietHours')}</span>
+          <div class="form-row">
+            <label class="form-field">
+              <span>${t('settings.quietFrom')}</span>
+              <input name="quietStart" type="time" value="${schedule.quietHours?.start || ''}" />
+            </label>
+            <label class="form-field">
+              <span>${t('settings.quietUntil')}</span>
+              <input name="quietEnd" type="time" value="${schedule.quietHours?.end || ''}" />
+            </label>
+          </div>
+          <span class="form-label">${t('settings.daysOff')}</span>
+          <div class="days-off">
+            ${(Object.keys(WEEKDAYS) as Weekday[]).map(day => `
+              <label class="form-checkbox">
+                <input name="dayOff" type="checkbox" value="${day}" ${schedule.daysOff.includes(day) ? 'checked' : ''} />
+                <span>${formatWeekday(day)}</span>
+              </label>
+            `).join('')}
+          </div>
+          <label class="form-checkbox">
+            <input name="criticalOverride" type="checkbox" ${schedule.criticalOverride ? 'checked' : ''} />
+            <span>${t('settings.criticalOverride')}</span>
+          </label>
+          <p class="form-hint">${t('settings.scheduleHint')}</p>
+          <div class="quiet-status">
+            ${quiet ? `<span>🔕 ${quiet}</span>` : ''}
+            ${heldCount > 0 ? `<span>${t('quiet.held', { count: heldCount })}</span>` : ''}
+            <button type="button" class="btn-secondary snooze-btn">
+              ${this.notificationManager.getQuietReason() === 'snoozed' ? t('settings.resume') : t('settings.snooze')}
+            </button>
+          </div>
+          
+          <h3 class="trend-section-title">${t('settings.monitoring')}</h3>
+          <label class="form-field">
+            <span>${t('settings.pollInterval')}</span>
+            <input name="updateInterval" type="number" min="${MIN_UPDATE_INTERVAL / 1000}" max="${MAX_UPDATE_INTERVAL / 1000}" step="1" value="${Math.round(settings.updateInterval / 1000)}" />
+          </label>
+          <p class="form-hint">${t('settings.pollIntervalHint')}</p>
+          <div class="form-row">
+            <label class="form-field">
+              <span>${t('settings.alertInterval')}</span>
+              <input name="alertInterval" type="number" min="${MIN_POLLING_INTERVAL / 1000}" max="${MAX_POLLING_INTERVAL / 1000}" step="1" value="${Math.round(polling.alertIntervalMs / 1000)}" />
+            </label>
+            <label class="form-field">
+              <span>${t('settings.closedInterval')}</span>
+              <input name="closedInterval" type="number" min="1" max="${MAX_POLLING_INTERVAL / 60000}" step="1" value="${Math.round(polling.closedIntervalMs / 60000)}" />
+            </label>
+          </div>
+          <div class="form-row">
+            <label class="form-field">
+              <span>${t('settings.jitter')}</span>
+              <input name="jitter" type="number" min="0" max="${MAX_JITTER * 100}" step="1" value="${Math.round(polling.jitter * 100)}" />
+            </label>
+            <label class="form-field">
+              <span>${t('settings.maxConcurrent')}</span>
+              <input name="maxConcurrent" type="number" min="1" max="${MAX_CONCURRENT_POLLS}" step="1" value="${polling.maxConcurrent}" />
+            </label>
+          </div>
+          <p class="form-hint">${t('settings.pollingHint')}</p>
+          
+          <h3 class="trend-section-title">${t('settings.display')}</h3>
+          <div class="form-row">
+            <label class="form-field">
+              <span>${t('settings.theme')}</span>
+              <select name="theme">
+                ${THEMES.map(value => option(value, t(`theme.${value}`), settings.theme === value)).join('')}
+              </select>
+            </label>
+            <label class="form-field">
+              <span>${t('settings.language')}</span>
+              <select name="language">
+                ${Object.entries(LOCALES).map(([value, label]) => option(value, label, settings.language === value)).join('')}
+              </select>
+            </label>
+          </div>
+          <label class="form-field">
+            <span>${t('settings.temperatureUnit')}</span>
+            <select name="temperatureUnit">
+              ${option('C', t('settings.celsius'), settings.temperatureUnit === 'C')}
+              ${option('F', t('settings.fahrenheit'), settings.temperatureUnit === 'F')}
+            </select>
+          </label>
+          <p class="form-hint">${t('settings.temperatureUnitHint')}</p>
+        </div>
+      </main>
+    `;
+  }
+
   private renderCameraView(): string {
     const selectedStores = Array.from(this.state.selectedStores);
     
@@ -911,8 +3289,8 @@ class InventoryMonitorApp {
       return `
         <main class="content-area">
           <div class="camera-empty">
-            <h2>No Stores Selected</h2>
-            <p>Select stores from the Stores tab to view live camera feeds.</p>
+            <h2>${t('camera.noStores')}</h2>
+            <p>${t('camera.selectStores')}</p>
           </div>
         </main>
       `;
@@ -921,8 +3299,8 @@ class InventoryMonitorApp {
     return `
       <main class="content-area">
         <div class="camera-header">
-          <h2>Live Camera Feeds</h2>
-          <p class="camera-subtitle">Real-time view with CV overlays</p>
+          <h2>${t('camera.title')}</h2>
+          <p class="camera-subtitle">${t('camera.subtitle')}</p>
         </div>
         <div class="camera-grid">
           ${selectedStores.map(storeId => {
@@ -935,20 +3313,60 @@ class InventoryMonitorApp {
   }
 
   private renderCameraFeed(store: StoreLocation): string {
+    const stream = this.cameraManager.getCameraStream(store.id);
+    const live = stream?.video === 'live';
+    const message = store.status === 'online'
+      ? escapeHtml(stream?.lastError || t('camera.loading'))
+      : t('camera.offline');
+    const quality = stream?.videoQuality || 'auto';
+    
     return `
-      <div class="camera-feed">
+      <div class="camera-feed" data-store-id="${store.id}">
         <div class="camera-header">
-          <h3>${store.name}</h3>
+          <h3>${escapeHtml(store.name)}</h3>
           <div class="camera-status status-${store.status}">
             <span class="status-dot"></span>
-            ${store.status}
+            ${t(`storeStatus.${store.status}`)}
           </div>
         </div>
         <div class="camera-container" id="camera-${store.id}">
-          <div class="camera-loading">Loading camera feed...</div>
+          ${live ? `
+            <video class="camera-frame camera-video" autoplay muted playsinline></video>
+            <span class="camera-live">${t('camera.live')}</span>
+          ` : stream?.lastFrame ? `
+            <img class="camera-frame" src="${stream.lastFrame}" alt="${escapeHtml(t('camera.frameAlt', { store: store.name }))}" />
+            <canvas class="camera-overlay"></canvas>
+            ${stream.video === 'starting' ? `<span class="camera-paused">${t('camera.startingVideo')}</span>` : ''}
+            ${stream.paused ? `<span class="camera-paused">${t('camera.paused')}</span>` : ''}
+          ` : `
+            <div class="camera-loading">${stream?.video === 'starting' ? t('camera.startingVideo') : message}</div>
+          `}
         </div>
+        ${stream?.videoError ? `
+          <div class="camera-notice">${escapeHtml(t('camera.videoUnavailable', { error: stream.videoError }))}</div>
+        ` : ''}
+        ${!this.simulated && !store.visionService && stream?.lastFrame && !live ? `
+          <div class="camera-notice">${t('camera.noVisionService')}</div>
+        ` : ''}
         <div class="camera-info">
-          <span class="camera-location">${store.address}</span>
+          <span class="camera-location">${escapeHtml(store.address)}</span>
+          ${stream?.lastFrameAt && !live ? `
+            <span class="camera-age" data-store-id="${store.id}">${this.formatFrameAge(stream.lastFrameAt)}</span>
+          ` : ''}
+          ${stream?.videoRequested ? `
+            <select class="camera-quality-select" data-store-id="${store.id}" aria-label="${t('camera.quality')}">
+              ${(Object.keys(VIDEO_QUALITIES) as VideoQuality[]).map(q => `
+                <option value="${q}" ${q === quality ? 'selected' : ''}>${t(`camera.quality.${q}`)}</option>
+              `).join('')}
+            </select>
+          ` : `
+            <button class="camera-pause-btn" data-store-id="${store.id}" ${stream?.lastFrame ? '' : 'disabled'}>
+              ${stream?.paused ? t('camera.resume') : t('camera.pause')}
+            </button>
+          `}
+          <button class="camera-live-btn ${stream?.videoRequested ? 'active' : ''}" data-store-id="${store.id}" ${store.status === 'online' || stream?.videoRequested ? '' : 'disabled'}>
+            ${stream?.videoRequested ? t('camera.stopVideo') : t('camera.liveVideo')}
+          </button>
         </div>
       </div>
     `;
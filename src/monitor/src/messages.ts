@@ -0,0 +1,1637 @@
+// src/messages.ts - Message catalogs for the UI and alert text
+//
+// Placeholders are {name} or {name, format}, where format is one of number,
+// percent, temperature, temperatureChange, date, time, datetime or duration
+// (milliseconds). Messages that depend on a count give one form per plural
+// category of the language, chosen by the `count` param.
+
+/** Forms of a message by plural category; `other` is always required */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+
+export const en = {
+  // Relative times and durations
+  'time.justNow': 'Just now',
+  'time.secondsAgo': '{count}s ago',
+  'time.minutesAgo': '{count}m ago',
+  'time.hoursAgo': '{count}h ago',
+  'time.daysAgo': '{count}d ago',
+  'time.weeksAgo': '{count}w ago',
+  'time.underMinute': 'less than a minute',
+  'time.minutes': { one: '{count} minute', other: '{count} minutes' },
+  'time.hours': { one: '{count} hour', other: '{count} hours' },
+  'time.short.seconds': '{count}s',
+  'time.short.minutes': '{count}m',
+  'time.short.hoursMinutes': '{hours}h {minutes}m',
+
+  // Shared labels
+  'severity.critical': 'critical',
+  'severity.high': 'high',
+  'severity.medium': 'medium',
+  'severity.low': 'low',
+  'status.open': 'Open',
+  'status.acknowledged': 'Acknowledged',
+  'status.resolved': 'Resolved',
+  'storeStatus.online': 'Online',
+  'storeStatus.offline': 'Offline',
+  'storeStatus.reconnecting': 'Reconnecting',
+  'storeStatus.unknown': 'Unknown',
+  'taskStatus.open': 'Open',
+  'taskStatus.in_progress': 'In progress',
+  'taskStatus.done': 'Done',
+  'taskStatus.cancelled': 'Cancelled',
+  'role.store_staff': 'Store staff',
+  'role.area_manager': 'Area manager',
+  'role.regional_manager': 'Regional manager',
+  'alertType.empty_shelf': 'Empty shelf',
+  'alertType.predicted_empty': 'Predicted empty',
+  'alertType.temperature': 'Temperature',
+  'alertType.equipment_failure': 'Equipment failure',
+  'priority.high': 'High',
+  'priority.normal': 'Normal',
+  'priority.low': 'Low',
+
+  // Header and tabs
+  'header.simulated': 'Simulated',
+  'header.simulatedHint': 'Readings come from simulated machines',
+  'header.stores': '{online}/{total} stores',
+  'header.settings': 'Settings',
+  'tab.stores': 'Stores',
+  'tab.map': 'Map',
+  'tab.alerts': 'Alerts',
+  'tab.tasks': 'Tasks',
+  'tab.camera': 'Live Feed',
+
+  // Stores
+  'stores.title': 'Store Locations',
+  'stores.subtitle': 'Select stores to monitor',
+  'stores.planogram': 'Planogram',
+  'stores.compliance': 'Compliance',
+  'stores.credentials': 'Credentials',
+  'stores.add': 'Add Store',
+  'stores.empty': 'No stores configured. Add a store to start monitoring.',
+  'stores.monitoring': { one: 'Monitoring {count} store', other: 'Monitoring {count} stores' },
+  'stores.lastUpdated': 'Last updated: {time}',
+  'store.needsRestocking': 'Needs restocking: {shelves}',
+  'store.trends': 'Trends',
+  'store.edit': 'Edit store',
+  'store.openNow': 'Open · {time} store time',
+  'store.closedNow': 'Closed · {time} store time',
+  'store.closedFor': 'Closed for {name} · {time} store time',
+  'connection.paused': 'Updates paused',
+  'connection.every': 'Updates every {interval}',
+  'connection.reason.alerts': 'open alerts',
+  'connection.reason.closed': 'store closed',
+  'connection.reason.hidden': 'in background',
+  'connection.reason.low_battery': 'low battery',
+  'connection.lastPoll': 'last poll {seconds}s',
+  'connection.timedOut': '{call} timed out',
+  'connection.failed': '{call} failed',
+  'connection.offlineSince': 'Offline since {time}',
+  'connection.failedAttempts': { one: '{count} failed attempt', other: '{count} failed attempts' },
+  'connection.retry': 'Retry now',
+  'chart.empty': 'No readings recorded in this range',
+
+  // Map
+  'map.subtitle': 'Interactive map view',
+  'map.hasAlerts': 'Has Alerts',
+  'map.status': 'Status:',
+  'map.activeAlerts': { one: '{count} active alert', other: '{count} active alerts' },
+
+  // Alerts
+  'alerts.title': 'Alert History',
+  'alerts.rules': 'Alert Rules',
+  'alerts.escalation': 'Escalation',
+  'alerts.markAllRead': 'Mark All Read',
+  'alerts.all': 'All',
+  'alerts.meanTimeToResolve': 'Avg. time to resolve: {time}',
+  'alerts.autoResolved': { one: '{count} resolved automatically', other: '{count} resolved automatically' },
+  'alerts.empty': 'No alerts yet. Monitoring is active.',
+  'alerts.previewAlt': 'Alert preview',
+  'alertDetail.cameraView': 'Camera View',
+  'alertDetail.loadingImage': 'Loading image...',
+  'alertDetail.imageGone': 'Image no longer available',
+  'alertDetail.imageAlt': 'Alert image',
+  'alertDetail.acknowledge': 'Acknowledge',
+  'alertDetail.assign': 'Assign',
+  'alertDetail.resolve': 'Resolve',
+  'alertDetail.close': 'Close',
+  'alertDetail.assignPrompt': 'Assign to:',
+  'alertDetail.resolvePrompt': 'Resolution note (optional):',
+  'alerts.operatorPrompt': 'Your name (recorded on alert actions):',
+  'lifecycle.status': 'Status',
+  'lifecycle.acknowledged': 'Acknowledged',
+  'lifecycle.assignedTo': 'Assigned to',
+  'lifecycle.resolved': 'Resolved',
+  'lifecycle.automatically': 'Automatically',
+  'lifecycle.unknown': 'Unknown',
+  'lifecycle.note': 'Note',
+  'lifecycle.restockTask': 'Restock task',
+  'lifecycle.escalation': 'Escalation {level}',
+
+  // Restock tasks
+  'tasks.title': 'Restock Tasks',
+  'tasks.toDo': '{count} to do',
+  'tasks.overdue': '{count} overdue',
+  'tasks.restockedToday': { one: '{count} restocked today', other: '{count} restocked today' },
+  'tasks.meanTimeToRestock': 'Avg. time to restock: {time}',
+  'tasks.empty': 'No shelves waiting to be restocked.',
+  'tasks.recentlyClosed': 'Recently closed',
+  'task.title': 'Restock {shelf}',
+  'task.dueIn': 'Due in {time}',
+  'task.overdueBy': 'Overdue by {time}',
+  'task.sensorReads': 'sensor reads {fill, percent}',
+  'task.restockedIn': 'Restocked in {time} · {by}',
+  'task.cancelledBy': 'Cancelled by {by} · {time}',
+  'task.start': 'Start',
+  'task.assign': 'Assign',
+  'task.done': 'Done',
+  'task.cancel': 'Cancel',
+  'task.assignPrompt': 'Assign to:',
+  'task.confirmCancel': 'Cancel this restock task?',
+  'task.checklist.fetch': 'Fetch stock from the back room',
+  'task.checklist.rotate': 'Rotate older stock to the front',
+  'task.checklist.fill': 'Fill the shelf to the planogram',
+  'task.checklist.remove': 'Remove damaged or out-of-date items',
+
+  // Live camera feeds
+  'camera.noStores': 'No Stores Selected',
+  'camera.selectStores': 'Select stores from the Stores tab to view live camera feeds.',
+  'camera.title': 'Live Camera Feeds',
+  'camera.subtitle': 'Real-time view with CV overlays',
+  'camera.loading': 'Loading camera feed...',
+  'camera.offline': 'Camera offline',
+  'camera.noFrame': 'No frame from camera',
+  'camera.live': 'Live',
+  'camera.frameAlt': 'Camera view of {store}',
+  'camera.startingVideo': 'Starting video...',
+  'camera.paused': 'Paused',
+  'camera.videoUnavailable': 'Live video unavailable ({error}), showing snapshots',
+  'camera.videoEnded': 'Video stream ended',
+  'camera.quality': 'Video quality',
+  'camera.quality.auto': 'Auto',
+  'camera.quality.low': 'Low (240p)',
+  'camera.quality.medium': 'Medium (480p)',
+  'camera.quality.high': 'High (720p)',
+  'camera.pause': '⏸ Pause',
+  'camera.resume': '▶ Resume',
+  'camera.liveVideo': '● Live video',
+  'camera.stopVideo': '■ Stop video',
+  'camera.noVisionService': 'No vision service set for this store, so shelf, person and alert boxes are not drawn',
+  'camera.annotation.empty': '{shelf} empty',
+  'camera.annotation.low': '{shelf} running low',
+
+  // Settings
+  'settings.title': 'Settings',
+  'settings.notifications': 'Notifications',
+  'settings.push': 'Push notifications for new alerts',
+  'settings.pushBlocked': 'Notifications are blocked in this browser. Allow them in the site settings to receive alerts.',
+  'settings.pushUnsupported': 'This browser does not support notifications.',
+  'settings.sound': 'Sound for high and critical alerts',
+  'settings.monitoring': 'Monitoring',
+  'settings.pollInterval': 'Poll interval (seconds)',
+  'settings.pollIntervalHint': 'How often open stores without alerts are polled. Stores with alerts poll faster, closed stores slower.',
+  'settings.alertInterval': 'With open alerts (seconds)',
+  'settings.closedInterval': 'While closed (minutes)',
+  'settings.jitter': 'Jitter (%)',
+  'settings.maxConcurrent': 'Stores polled at once',
+  'settings.pollingHint': "Jitter varies each interval at random so stores don't all poll together. Stores over the limit wait for a free slot.",
+  'polling.error.interval': 'Poll intervals must be between {min} seconds and {max} minutes',
+  'polling.error.hiddenBehavior': 'Polling while hidden must pause or throttle',
+  'polling.error.lowBatteryLevel': 'Low battery level must be between 0 and 1',
+  'polling.error.lowBatteryMultiplier': 'Low battery slowdown must be at least 1',
+  'polling.error.jitter': 'Jitter must be between 0% and {max, percent}',
+  'polling.error.maxConcurrent': 'Stores polled at once must be a whole number from 1 to {max}',
+  'polling.error.timeouts': 'Timeouts must be at least 1 second, and a call timeout no longer than the poll timeout',
+  'settings.display': 'Display',
+  'settings.theme': 'Theme',
+  'settings.language': 'Language',
+  'settings.temperatureUnit': 'Temperature unit',
+  'settings.celsius': 'Celsius (°C)',
+  'settings.fahrenheit': 'Fahrenheit (°F)',
+  'settings.temperatureUnitHint': 'Readings, charts, alerts, alert rules and the compliance log use this unit.',
+  'theme.auto': 'Match device',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+
+  // Notification schedule
+  'settings.quietHours': 'Quiet hours',
+  'settings.quietFrom': 'From',
+  'settings.quietUntil': 'Until',
+  'settings.daysOff': 'Days off',
+  'settings.criticalOverride': 'Critical alerts still notify during quiet hours, days off and snoozes',
+  'settings.scheduleHint': 'Alerts held back while notifications are paused are sent as one summary when they resume. Leave the times empty for no quiet hours.',
+  'settings.snooze': 'Snooze all for 1 hour',
+  'settings.resume': 'Resume notifications',
+  'quiet.snoozed': 'Notifications snoozed until {until, time}',
+  'quiet.quietHours': 'Quiet hours until {until}',
+  'quiet.dayOff': 'Day off: notifications paused',
+  'quiet.held': { one: '{count} alert held for the summary', other: '{count} alerts held for the summary' },
+  'quiet.error.times': 'Quiet hours need both a start and an end time',
+  'quiet.error.sameTime': 'Quiet hours must start and end at different times',
+  'quiet.error.daysOff': 'Days off must be days of the week',
+  'notify.view': 'View Details',
+  'notify.dismiss': 'Dismiss',
+  'notify.summary.title': { one: '{count} alert while notifications were paused', other: '{count} alerts while notifications were paused' },
+  'notify.summary.resolved': 'All of them have been resolved',
+  'notify.summary.more': { one: '…and {count} more', other: '…and {count} more' },
+  'notify.test.title': 'Pret Monitor Test',
+  'notify.test.body': 'This is a test notification',
+
+  // Alert titles and message lines
+  'alert.emptyShelf.title': 'Empty Shelves: {shelf} - {store}',
+  'alert.emptyShelf.body': 'The following shelves are empty: {shelf}',
+  'alert.emptyShelf.image': 'See the attached image for review.',
+  'alert.predicted.title': 'Shelf Running Low: {shelf} - {store}',
+  'alert.predicted.body': '{shelf} is projected to be empty in ~{minutes} min',
+  'alert.predicted.fill': 'Fill level: {fill, percent} (falling {rate, number}%/min)',
+  'alert.temperature.title': 'Temperature Alert: {sensor} - {store}',
+  'alert.machine.title': 'Machine Offline - {store}',
+  'alert.camera.title': 'Camera Failure - {store}',
+  'alert.temperatureSensor.title': 'Sensor Not Reporting: {component} - {store}',
+  'alert.fillSensor.title': 'Fill Sensor Stuck: {shelf} - {store}',
+  'alert.escalated.title': 'Escalated to {role}: {title}',
+  'alert.stock': 'Stock: about {units} of {capacity} units left',
+  'alert.sensor': 'Sensor: {sensor}',
+  'alert.location': 'Location: {address}',
+  'alert.time': 'Time: {time, datetime}',
+  'alert.since': 'Since: {since, datetime}',
+
+  // Rule conditions
+  'rule.fill.threshold': 'Fill level: {value, percent} (Threshold: {operator} {threshold, percent})',
+  'rule.fill.range': 'Fill level: {value, percent} (Range: {threshold, percent} to {thresholdHigh, percent})',
+  'rule.fill.rate': 'Fill level: {value, percent} (Limit: {threshold, percent} in {window} min)',
+  'rule.temperature.threshold': 'Temperature: {value, temperature} (Threshold: {operator} {threshold, temperature}); out of range for {duration, duration}',
+  'rule.temperature.range': 'Temperature: {value, temperature} (Range: {threshold, temperature} to {thresholdHigh, temperature}); out of range for {duration, duration}',
+  'rule.temperature.rises': 'Temperature: {value, temperature}, up {deviation, temperatureChange} (Limit: {threshold, temperatureChange} in {window} min); rising for {duration, duration}',
+  'rule.temperature.falls': 'Temperature: {value, temperature}, down {deviation, temperatureChange} (Limit: {threshold, temperatureChange} in {window} min); falling for {duration, duration}',
+
+  // Equipment health
+  'health.machine': 'Machine has been offline for {duration, duration}',
+  'health.machineError': 'Machine has been offline for {duration, duration} ({error})',
+  'health.camera': { one: 'No camera frame in the last poll', other: 'No camera frame in the last {count} polls' },
+  'health.temperatureSensor': 'Temperature sensor {sensor} has not reported for {duration, duration}',
+  'health.fillSensor': 'Fill sensor has read {value, percent} for region {region} for {duration, duration} of opening time',
+  'health.recovered.machine': 'Machine back online',
+  'health.recovered.camera': 'Camera frames received again',
+  'health.recovered.temperature_sensor': 'Sensor reporting again',
+  'health.recovered.fill_sensor': 'Fill readings changing again',
+  'health.recovered.other': 'Equipment healthy again',
+  'health.forgotten': 'Store no longer monitored',
+
+  // Automatic resolution notes
+  'resolved.fill': 'Fill level back to {fill, percent}',
+  'resolved.temperature': 'Temperature back to {temperature, temperature}',
+  'resolved.forecast': 'No longer projected to run empty',
+
+  // Shared form labels
+  'form.name': 'Name',
+  'form.store': 'Store',
+  'form.edit': 'Edit',
+  'form.save': 'Save',
+  'form.cancel': 'Cancel',
+  'form.back': 'Back',
+  'form.delete': 'Delete',
+  'form.remove': 'Remove',
+  'form.close': 'Close',
+  'form.enabled': 'Enabled',
+  'form.allStores': 'All stores',
+  'form.import': 'Import',
+  'form.export': 'Export',
+
+  // Store editor
+  'storeEditor.addTitle': 'Add Store',
+  'storeEditor.editTitle': 'Edit {store}',
+  'storeEditor.id': 'Store ID',
+  'storeEditor.address': 'Address',
+  'storeEditor.region': 'Region',
+  'storeEditor.machineId': 'Machine ID',
+  'storeEditor.hostname': 'Machine address (optional)',
+  'storeEditor.hostnamePlaceholder': 'Looked up from the Viam app',
+  'storeEditor.visionService': 'Person detection vision service (optional)',
+  'storeEditor.visionServicePlaceholder': 'e.g. person-detector',
+  'storeEditor.timeZone': 'Time zone (optional)',
+  'storeEditor.timeZoneHint': "IANA time zone such as America/New_York or Asia/Hong_Kong. Opening hours and alert rule hours use store time; this device's time zone is used when empty.",
+  'storeEditor.hours': 'Opening hours',
+  'storeEditor.opens': '{day} opens',
+  'storeEditor.closes': '{day} closes',
+  'storeEditor.hoursHint': 'Leave both times empty on days the store is closed. A closing time at or before the opening time runs past midnight.',
+  'storeEditor.closures': 'Holidays and closures',
+  'storeEditor.closuresHint': 'One per line: a date or range (2026-08-01..2026-08-14), then "closed" or hours such as 07:00-15:00, then an optional name.',
+  'storeEditor.latitude': 'Latitude',
+  'storeEditor.longitude': 'Longitude',
+  'storeEditor.confirmRemove': 'Remove {store} from monitoring?',
+
+  // Store trends
+  'storeDetail.loading': 'Loading history...',
+  'storeDetail.fill': 'Shelf Fill',
+  'storeDetail.temperature': 'Temperature',
+  'chart.threshold': 'Threshold: {value}',
+
+  // Alert rules
+  'rules.forecast': 'Empty Shelf Forecast',
+  'rules.leadTime': 'Alert lead time (minutes)',
+  'rules.trendWindow': 'Trend window (minutes)',
+  'rules.forecastEnabled': 'Alert before shelves run empty',
+  'rules.thresholdRules': 'Threshold Rules',
+  'rules.empty': 'No rules configured. Nothing will alert.',
+  'rules.reset': 'Reset Defaults',
+  'rules.add': 'Add Rule',
+  'rules.confirmReset': 'Replace all rules with the built-in defaults?',
+  'rules.allStores': 'All stores',
+  'rules.condition.level': '{operator} {threshold}{unit}',
+  'rules.condition.range': 'outside {threshold}–{thresholdHigh}{unit}',
+  'rules.condition.rate': '{operator} {threshold}{unit} in {window} min',
+  'rules.forDuration': 'for {minutes} min',
+  'rules.activeHours': '{start}:00–{end}:00',
+  'ruleOperator.lt': '<',
+  'ruleOperator.le': '<=',
+  'ruleOperator.gt': '>',
+  'ruleOperator.ge': '>=',
+  'ruleOperator.outside': 'outside range',
+  'ruleOperator.rises_by': 'rises by',
+  'ruleOperator.falls_by': 'falls by',
+  'ruleEditor.editTitle': 'Edit Rule',
+  'ruleEditor.namePlaceholder': 'Chilled cabinet',
+  'ruleEditor.sensor': 'Sensor',
+  'ruleEditor.sensorFill': 'Shelf fill (%)',
+  'ruleEditor.sensorTemperature': 'Temperature (°{unit})',
+  'ruleEditor.component': 'Component (use * as a wildcard)',
+  'ruleEditor.operator': 'Operator',
+  'ruleEditor.threshold': 'Threshold',
+  'ruleEditor.thresholdHigh': 'Upper threshold (range)',
+  'ruleEditor.window': 'Rate window (minutes)',
+  'ruleEditor.thresholdHint': 'For a range, Threshold is the lower bound. For "rises by" and "falls by", Threshold is the change within the rate window.',
+  'ruleEditor.minDuration': 'Min. duration (minutes)',
+  'ruleEditor.severity': 'Severity',
+  'ruleEditor.automatic': 'Automatic',
+  'ruleEditor.activeFrom': 'Active from (hour, store time)',
+  'ruleEditor.activeUntil': 'Active until (hour)',
+  'ruleEditor.always': 'Always',
+  'ruleEditor.enabled': 'Enabled',
+  'ruleEditor.confirmDelete': 'Delete rule "{name}"?',
+
+  // Temperature compliance log
+  'compliance.title': 'Temperature Compliance',
+  'compliance.from': 'From',
+  'compliance.to': 'To',
+  'compliance.rangeHint': "Safe range from each sensor's temperature rule, otherwise {min} to {max} · checks at {times} store time",
+  'compliance.noDays': 'No days to show. Pick a store and a date range up to today.',
+  'compliance.sensor': 'Sensor',
+  'compliance.range': '{min} to {max}',
+  'compliance.missed': 'Missed',
+  'compliance.noSensors': 'No sensors reporting.',
+  'compliance.excursion': '{sensor} out of range · peak {peak}',
+  'compliance.ongoing': 'ongoing',
+  'compliance.noAction': 'No corrective action recorded',
+  'compliance.addAction': 'Add action',
+  'compliance.editAction': 'Edit action',
+  'compliance.actionPrompt': 'Corrective action taken (e.g. stock moved, engineer called, food discarded):',
+  'compliance.signedOffBy': 'Signed off by {name}',
+  'compliance.signOffDay': 'Sign off day',
+  'compliance.signOffPrompt': 'Sign off as {name}. Note (optional):',
+  'compliance.exportCsv': 'Export CSV',
+  'compliance.print': 'Print',
+  'compliance.allowPopups': 'Allow pop-ups for this site to print the report',
+  'compliance.settingsTitle': 'Compliance Settings',
+  'compliance.minimum': 'Minimum (°{unit})',
+  'compliance.maximum': 'Maximum (°{unit})',
+  'compliance.checkpointTimes': 'Checkpoint times',
+  'compliance.checkpointHint': 'A reading is logged for every sensor at each time in store time, within an hour of it. The range applies to sensors without a temperature rule.',
+  'compliance.retention': 'Keep records for (days)',
+
+  // Printed and exported compliance reports
+  'report.title': 'Temperature compliance - {store} - {from} to {to}',
+  'report.heading': 'Temperature compliance log — {store}',
+  'report.meta': "{from} to {to}, store time · Safe range from each sensor's temperature rule, otherwise {min} to {max} · Checks at {times} · Generated {generated}",
+  'report.excursions': 'Out-of-range periods',
+  'report.period': 'Period',
+  'report.peak': 'Peak',
+  'report.correctiveAction': 'Corrective action',
+  'report.noneRecorded': 'None recorded',
+  'report.signedOff': 'Signed off by {name} at {time}',
+  'report.notSignedOff': 'Not signed off',
+  'report.noDays': 'No days in range.',
+  'report.csv.date': 'Date',
+  'report.csv.record': 'Record',
+  'report.csv.scheduled': 'Scheduled',
+  'report.csv.time': 'Time',
+  'report.csv.temperature': 'Temperature (°{unit})',
+  'report.csv.range': 'Safe range (°{unit})',
+  'report.csv.status': 'Status',
+  'report.csv.note': 'Corrective action / note',
+  'report.csv.by': 'By',
+  'report.csv.checkpoint': 'Checkpoint',
+  'report.csv.excursion': 'Out of range',
+  'report.csv.signOff': 'Sign-off',
+  'report.csv.ok': 'OK',
+  'report.csv.outOfRange': 'Out of range',
+  'report.csv.outOfRangeFor': 'Out of range {duration}',
+  'report.csv.signedOff': 'Signed off',
+
+  // Escalation policies
+  'escalation.receives': 'This device receives',
+  'escalation.policies': 'Policies',
+  'escalation.empty': 'No escalation policies. Alerts will not escalate.',
+  'escalation.add': 'Add Policy',
+  'escalation.editTitle': 'Edit Policy',
+  'escalation.allTypes': 'all types',
+  'escalation.summary': '{store} · {types} · {severity}+ · {steps}',
+  'escalation.step': '{minutes}m → {role}',
+  'escalation.minSeverity': 'Minimum severity',
+  'escalation.alertTypes': 'Alert types (none selected applies to all)',
+  'escalation.stepAfter': 'Step {step} after (minutes)',
+  'escalation.stepOff': 'Off',
+  'escalation.notify': 'Notify',
+  'escalation.raiseSeverity': 'Raise severity at step {step}',
+  'escalation.confirmDelete': 'Delete policy "{name}"?',
+
+  // Planogram
+  'planogram.title': 'Planogram',
+  'planogram.hint': 'Map fill-sensor regions to the products on each shelf. Entries for all stores apply wherever a store has no entry of its own.',
+  'planogram.summary': '{location} · {region} · {capacity} units · {priority} priority',
+  'planogram.location': '{fixture} shelf {shelf}',
+  'planogram.empty': 'No shelves mapped. Alerts show sensor region names.',
+  'planogram.add': 'Add Shelf',
+  'planogram.editTitle': 'Edit Shelf',
+  'planogram.confirmImport': 'Replace the whole planogram with the imported file?',
+  'planogram.confirmRemove': 'Remove {product} from the planogram?',
+  'planogram.region': 'Sensor region',
+  'planogram.product': 'Product or category',
+  'planogram.productPlaceholder': 'Chicken Caesar baguette',
+  'planogram.category': 'Category (optional)',
+  'planogram.categoryPlaceholder': 'Baguettes',
+  'planogram.fixture': 'Fixture',
+  'planogram.fixturePlaceholder': 'fridge 2',
+  'planogram.shelf': 'Shelf (1 = top)',
+  'planogram.capacity': 'Capacity (units)',
+  'planogram.priority': 'Priority',
+
+  // Machine credentials
+  'credentials.title': 'Machine Credentials',
+  'credentials.allMachines': 'All machines (location or organization key)',
+  'credentials.sharedLabel': 'Shared key',
+  'credentials.empty': 'No saved keys. Stores use the Viam Apps cookie for their machine when one is available.',
+  'credentials.addTitle': 'Add or replace a key',
+  'credentials.machine': 'Machine',
+  'credentials.label': 'Label',
+  'credentials.labelPlaceholder': 'e.g. London operator key',
+  'credentials.keyId': 'API key ID',
+  'credentials.key': 'API key',
+  'credentials.save': 'Save Key',
+
+  // Validation messages
+  'validation.nameRequired': 'Name is required',
+  'validation.invalidJson': 'Document is not valid JSON',
+  'validation.notObject': 'Document must be a JSON object',
+  'settings.error.interval': 'Poll interval must be between {min} seconds and {max} minutes',
+  'settings.error.theme': 'Theme is not valid',
+  'settings.error.language': 'Language is not supported',
+  'settings.error.temperatureUnit': 'Temperature unit must be °C or °F',
+  'store.error.object': 'Each store must be a JSON object',
+  'store.error.id': 'ID must use lowercase letters, numbers and dashes',
+  'store.error.duplicateId': 'A store with ID "{id}" already exists',
+  'store.error.unknown': 'Unknown store "{id}"',
+  'store.error.address': 'Address is required',
+  'store.error.region': 'Region is required',
+  'store.error.machineId': 'Machine ID must be a Viam machine UUID',
+  'store.error.hostname': 'Hostname must be a machine address such as shop-main.abc123.viam.cloud',
+  'store.error.visionService': 'Vision service must be a resource name such as person-detector',
+  'store.error.timeZone': 'Time zone must be an IANA time zone such as Europe/London',
+  'store.error.latitude': 'Latitude must be between -90 and 90',
+  'store.error.longitude': 'Longitude must be between -180 and 180',
+  'store.error.version': 'Unsupported registry version: {version}',
+  'store.error.stores': 'Document must contain a "stores" array',
+  'store.error.hours': 'Opening hours must list hours for each open day',
+  'store.error.dayHours': '{day} needs both an opening and a closing time (HH:MM)',
+  'store.error.closures': 'Closures must be a list',
+  'store.error.closureObject': 'Each closure must be a JSON object',
+  'store.error.closureDates': 'Closure "{name}" must have dates as YYYY-MM-DD',
+  'store.error.closureOrder': 'Closure "{name}" ends before it starts',
+  'store.error.closureHours': 'Closure "{name}" needs opening and closing times (HH:MM)',
+  'store.error.closureName': 'Closure "{name}" must have a text name',
+  'rule.error.sensor': 'Sensor must be fill or temperature',
+  'rule.error.componentPattern': 'Component pattern is required',
+  'rule.error.operator': 'Operator is not supported',
+  'rule.error.threshold': 'Threshold must be a number',
+  'rule.error.range': 'Range needs an upper threshold above the lower threshold',
+  'rule.error.change': 'Change must be greater than zero',
+  'rule.error.window': 'Rate window must be between 1 and {max} minutes',
+  'rule.error.minDuration': 'Minimum duration cannot be negative',
+  'rule.error.activeHours': 'Active hours must be two different hours between 0 and 23',
+  'policy.error.minSeverity': 'Minimum severity is not valid',
+  'policy.error.steps': 'At least one escalation step is required',
+  'policy.error.role': 'Step {step}: role is not valid',
+  'policy.error.delay': 'Step {step}: delay must be a positive number of minutes',
+  'policy.error.order': 'Step {step}: delay must be longer than step {previous}',
+  'planogram.error.region': 'Sensor region is required',
+  'planogram.error.product': 'Product is required',
+  'planogram.error.fixture': 'Fixture is required',
+  'planogram.error.shelf': 'Shelf must be a whole number from 1',
+  'planogram.error.capacity': 'Capacity must be a whole number of units from 1',
+  'planogram.error.priority': 'Priority is not valid',
+  'planogram.error.version': 'Unsupported planogram version: {version}',
+  'planogram.error.entries': 'Document must contain an "entries" array',
+  'planogram.error.entry': 'Entry {index} ({key}): {error}',
+  'planogram.error.duplicate': 'Entry {index} ({key}): region is listed twice',
+  'credentials.error.machine': 'Choose a machine or the shared key',
+  'credentials.error.keyId': 'API key ID is required',
+  'credentials.error.key': 'API key is required',
+  'credentials.error.sharedHostname': 'A shared key cannot have a hostname; set it on each store instead',
+  'compliance.error.range': 'Safe range needs a minimum and maximum temperature',
+  'compliance.error.rangeOrder': 'Minimum temperature must be below the maximum',
+  'compliance.error.checkpoints': 'At least one checkpoint time is required',
+  'compliance.error.checkpointTime': 'Checkpoint time "{time}" is not HH:MM',
+  'compliance.error.retention': 'Retention must be a whole number of days from 1',
+  'compliance.error.excursionNotFound': 'Out-of-range period not found',
+  'compliance.error.noteRequired': 'Describe the corrective action taken',
+  'compliance.error.alreadySignedOff': 'Already signed off by {name}',
+  'compliance.error.notStarted': 'Days can only be signed off once they have started',
+  'compliance.error.ongoing': '{sensors} still out of range',
+  'compliance.error.unactioned': { one: '{count} out-of-range period needs a corrective action first', other: '{count} out-of-range periods need a corrective action first' },
+
+  // Test alerts
+  'alert.test.temperature.title': 'Temperature Alert - {store}',
+  'alert.test.temperature': 'Temperature: {value, temperature} (Threshold: {threshold, temperature})',
+  'alert.test.equipment.title': 'Equipment Failure - {store}',
+  'alert.test.equipment.body': 'HVAC system offline',
+  'alert.test.rawImage': 'Raw Camera Image',
+  'alert.test.detectedImage': 'Detected Issue'
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+export type Catalog = Record<MessageKey, Message>;
+
+export const fr: Catalog = {
+  'time.justNow': "À l'instant",
+  'time.secondsAgo': 'il y a {count} s',
+  'time.minutesAgo': 'il y a {count} min',
+  'time.hoursAgo': 'il y a {count} h',
+  'time.daysAgo': 'il y a {count} j',
+  'time.weeksAgo': 'il y a {count} sem.',
+  'time.underMinute': "moins d'une minute",
+  'time.minutes': { one: '{count} minute', other: '{count} minutes' },
+  'time.hours': { one: '{count} heure', other: '{count} heures' },
+  'time.short.seconds': '{count} s',
+  'time.short.minutes': '{count} min',
+  'time.short.hoursMinutes': '{hours} h {minutes} min',
+
+  'severity.critical': 'critique',
+  'severity.high': 'élevée',
+  'severity.medium': 'moyenne',
+  'severity.low': 'faible',
+  'status.open': 'Ouverte',
+  'status.acknowledged': 'Prise en compte',
+  'status.resolved': 'Résolue',
+  'storeStatus.online': 'En ligne',
+  'storeStatus.offline': 'Hors ligne',
+  'storeStatus.reconnecting': 'Reconnexion',
+  'storeStatus.unknown': 'Inconnu',
+  'taskStatus.open': 'À faire',
+  'taskStatus.in_progress': 'En cours',
+  'taskStatus.done': 'Terminée',
+  'taskStatus.cancelled': 'Annulée',
+  'role.store_staff': 'Équipe du magasin',
+  'role.area_manager': 'Responsable de secteur',
+  'role.regional_manager': 'Directeur régional',
+  'alertType.empty_shelf': 'Rayon vide',
+  'alertType.predicted_empty': 'Rupture prévue',
+  'alertType.temperature': 'Température',
+  'alertType.equipment_failure': "Panne d'équipement",
+  'priority.high': 'Haute',
+  'priority.normal': 'Normale',
+  'priority.low': 'Basse',
+
+  'header.simulated': 'Simulation',
+  'header.simulatedHint': 'Les relevés proviennent de machines simulées',
+  'header.stores': '{online}/{total} magasins',
+  'header.settings': 'Paramètres',
+  'tab.stores': 'Magasins',
+  'tab.map': 'Carte',
+  'tab.alerts': 'Alertes',
+  'tab.tasks': 'Tâches',
+  'tab.camera': 'Direct',
+
+  'stores.title': 'Magasins',
+  'stores.subtitle': 'Sélectionnez les magasins à surveiller',
+  'stores.planogram': 'Planogramme',
+  'stores.compliance': 'Conformité',
+  'stores.credentials': 'Identifiants',
+  'stores.add': 'Ajouter un magasin',
+  'stores.empty': 'Aucun magasin configuré. Ajoutez un magasin pour commencer la surveillance.',
+  'stores.monitoring': { one: '{count} magasin surveillé', other: '{count} magasins surveillés' },
+  'stores.lastUpdated': 'Dernière mise à jour : {time}',
+  'store.needsRestocking': 'À réapprovisionner : {shelves}',
+  'store.trends': 'Tendances',
+  'store.edit': 'Modifier le magasin',
+  'store.openNow': 'Ouvert · {time} heure locale',
+  'store.closedNow': 'Fermé · {time} heure locale',
+  'store.closedFor': 'Fermé : {name} · {time} heure locale',
+  'connection.paused': 'Mises à jour en pause',
+  'connection.every': 'Mise à jour toutes les {interval}',
+  'connection.reason.alerts': 'alertes ouvertes',
+  'connection.reason.closed': 'magasin fermé',
+  'connection.reason.hidden': 'en arrière-plan',
+  'connection.reason.low_battery': 'batterie faible',
+  'connection.lastPoll': 'dernier relevé {seconds} s',
+  'connection.timedOut': '{call} : délai dépassé',
+  'connection.failed': '{call} : échec',
+  'connection.offlineSince': 'Hors ligne depuis {time}',
+  'connection.failedAttempts': { one: '{count} tentative échouée', other: '{count} tentatives échouées' },
+  'connection.retry': 'Réessayer',
+  'chart.empty': 'Aucun relevé sur cette période',
+
+  'map.subtitle': 'Carte interactive',
+  'map.hasAlerts': 'Alertes en cours',
+  'map.status': 'État :',
+  'map.activeAlerts': { one: '{count} alerte active', other: '{count} alertes actives' },
+
+  'alerts.title': 'Historique des alertes',
+  'alerts.rules': "Règles d'alerte",
+  'alerts.escalation': 'Escalade',
+  'alerts.markAllRead': 'Tout marquer comme lu',
+  'alerts.all': 'Toutes',
+  'alerts.meanTimeToResolve': 'Délai moyen de résolution : {time}',
+  'alerts.autoResolved': { one: '{count} résolue automatiquement', other: '{count} résolues automatiquement' },
+  'alerts.empty': 'Aucune alerte pour le moment. La surveillance est active.',
+  'alerts.previewAlt': "Aperçu de l'alerte",
+  'alertDetail.cameraView': 'Vue caméra',
+  'alertDetail.loadingImage': "Chargement de l'image...",
+  'alertDetail.imageGone': "L'image n'est plus disponible",
+  'alertDetail.imageAlt': "Image de l'alerte",
+  'alertDetail.acknowledge': 'Prendre en compte',
+  'alertDetail.assign': 'Attribuer',
+  'alertDetail.resolve': 'Résoudre',
+  'alertDetail.close': 'Fermer',
+  'alertDetail.assignPrompt': 'Attribuer à :',
+  'alertDetail.resolvePrompt': 'Note de résolution (facultatif) :',
+  'alerts.operatorPrompt': 'Votre nom (enregistré sur les actions des alertes) :',
+  'lifecycle.status': 'Statut',
+  'lifecycle.acknowledged': 'Prise en compte',
+  'lifecycle.assignedTo': 'Attribuée à',
+  'lifecycle.resolved': 'Résolue',
+  'lifecycle.automatically': 'Automatiquement',
+  'lifecycle.unknown': 'Inconnu',
+  'lifecycle.note': 'Note',
+  'lifecycle.restockTask': 'Tâche de réapprovisionnement',
+  'lifecycle.escalation': 'Escalade {level}',
+
+  'tasks.title': 'Réapprovisionnement',
+  'tasks.toDo': '{count} à faire',
+  'tasks.overdue': '{count} en retard',
+  'tasks.restockedToday': { one: "{count} réapprovisionné aujourd'hui", other: "{count} réapprovisionnés aujourd'hui" },
+  'tasks.meanTimeToRestock': 'Délai moyen de réapprovisionnement : {time}',
+  'tasks.empty': 'Aucun rayon en attente de réapprovisionnement.',
+  'tasks.recentlyClosed': 'Récemment clôturées',
+  'task.title': 'Réapprovisionner {shelf}',
+  'task.dueIn': 'À faire dans {time}',
+  'task.overdueBy': 'En retard de {time}',
+  'task.sensorReads': 'capteur à {fill, percent}',
+  'task.restockedIn': 'Réapprovisionné en {time} · {by}',
+  'task.cancelledBy': 'Annulée par {by} · {time}',
+  'task.start': 'Commencer',
+  'task.assign': 'Attribuer',
+  'task.done': 'Terminé',
+  'task.cancel': 'Annuler',
+  'task.assignPrompt': 'Attribuer à :',
+  'task.confirmCancel': 'Annuler cette tâche de réassort ?',
+  'task.checklist.fetch': 'Aller chercher le stock en réserve',
+  'task.checklist.rotate': "Placer l'ancien stock à l'avant",
+  'task.checklist.fill': 'Remplir le rayon selon le planogramme',
+  'task.checklist.remove': 'Retirer les produits abîmés ou périmés',
+
+  'camera.noStores': 'Aucun magasin sélectionné',
+  'camera.selectStores': "Sélectionnez des magasins dans l'onglet Magasins pour voir les caméras en direct.",
+  'camera.title': 'Caméras en direct',
+  'camera.subtitle': 'Vue en temps réel avec détections',
+  'camera.loading': 'Chargement de la caméra...',
+  'camera.offline': 'Caméra hors ligne',
+  'camera.noFrame': 'Aucune image de la caméra',
+  'camera.live': 'Direct',
+  'camera.frameAlt': 'Vue caméra de {store}',
+  'camera.startingVideo': 'Démarrage de la vidéo...',
+  'camera.paused': 'En pause',
+  'camera.videoUnavailable': 'Vidéo en direct indisponible ({error}), affichage des instantanés',
+  'camera.videoEnded': 'Flux vidéo terminé',
+  'camera.quality': 'Qualité vidéo',
+  'camera.quality.auto': 'Auto',
+  'camera.quality.low': 'Basse (240p)',
+  'camera.quality.medium': 'Moyenne (480p)',
+  'camera.quality.high': 'Haute (720p)',
+  'camera.pause': '⏸ Pause',
+  'camera.resume': '▶ Reprendre',
+  'camera.liveVideo': '● Vidéo en direct',
+  'camera.stopVideo': '■ Arrêter la vidéo',
+  'camera.noVisionService': "Aucun service de vision pour ce magasin : les cadres des rayons, des personnes et des alertes ne s'affichent pas",
+  'camera.annotation.empty': '{shelf} vide',
+  'camera.annotation.low': '{shelf} bientôt vide',
+
+  'settings.title': 'Paramètres',
+  'settings.notifications': 'Notifications',
+  'settings.push': 'Notifications pour les nouvelles alertes',
+  'settings.pushBlocked': 'Les notifications sont bloquées dans ce navigateur. Autorisez-les dans les paramètres du site pour recevoir les alertes.',
+  'settings.pushUnsupported': 'Ce navigateur ne prend pas en charge les notifications.',
+  'settings.sound': 'Son pour les alertes élevées et critiques',
+  'settings.monitoring': 'Surveillance',
+  'settings.pollInterval': 'Intervalle de relevé (secondes)',
+  'settings.pollIntervalHint': 'Fréquence de relevé des magasins ouverts sans alerte. Les magasins avec alertes sont relevés plus souvent, les magasins fermés moins souvent.',
+  'settings.alertInterval': 'Avec alertes ouvertes (secondes)',
+  'settings.closedInterval': 'Magasin fermé (minutes)',
+  'settings.jitter': 'Variation aléatoire (%)',
+  'settings.maxConcurrent': 'Magasins relevés en même temps',
+  'settings.pollingHint': 'La variation aléatoire décale chaque intervalle pour que les magasins ne soient pas tous relevés ensemble. Au-delà de la limite, les magasins attendent une place libre.',
+  'polling.error.interval': 'Les intervalles de relevé doivent être compris entre {min} secondes et {max} minutes',
+  'polling.error.hiddenBehavior': 'Le relevé en arrière-plan doit être en pause ou ralenti',
+  'polling.error.lowBatteryLevel': 'Le niveau de batterie faible doit être compris entre 0 et 1',
+  'polling.error.lowBatteryMultiplier': 'Le ralentissement sur batterie faible doit être au moins 1',
+  'polling.error.jitter': 'La variation aléatoire doit être comprise entre 0 % et {max, percent}',
+  'polling.error.maxConcurrent': 'Le nombre de magasins relevés en même temps doit être un entier de 1 à {max}',
+  'polling.error.timeouts': "Les délais doivent être d'au moins 1 seconde, et le délai d'un appel ne peut pas dépasser celui du relevé",
+  'settings.display': 'Affichage',
+  'settings.theme': 'Thème',
+  'settings.language': 'Langue',
+  'settings.temperatureUnit': 'Unité de température',
+  'settings.celsius': 'Celsius (°C)',
+  'settings.fahrenheit': 'Fahrenheit (°F)',
+  'settings.temperatureUnitHint': "Relevés, graphiques, alertes, règles d'alerte et registre de conformité utilisent cette unité.",
+  'theme.auto': "Comme l'appareil",
+  'theme.light': 'Clair',
+  'theme.dark': 'Sombre',
+
+  // Notification schedule
+  'settings.quietHours': 'Heures calmes',
+  'settings.quietFrom': 'De',
+  'settings.quietUntil': "Jusqu'à",
+  'settings.daysOff': 'Jours de repos',
+  'settings.criticalOverride': 'Les alertes critiques notifient quand même pendant les heures calmes, les jours de repos et les pauses',
+  'settings.scheduleHint': "Les alertes retenues pendant la pause des notifications sont envoyées en un seul résumé à la reprise. Laissez les heures vides pour ne pas avoir d'heures calmes.",
+  'settings.snooze': 'Tout suspendre pendant 1 heure',
+  'settings.resume': 'Reprendre les notifications',
+  'quiet.snoozed': "Notifications suspendues jusqu'à {until, time}",
+  'quiet.quietHours': "Heures calmes jusqu'à {until}",
+  'quiet.dayOff': 'Jour de repos : notifications en pause',
+  'quiet.held': { one: '{count} alerte retenue pour le résumé', other: '{count} alertes retenues pour le résumé' },
+  'quiet.error.times': 'Les heures calmes doivent avoir une heure de début et une heure de fin',
+  'quiet.error.sameTime': 'Les heures calmes doivent commencer et finir à des heures différentes',
+  'quiet.error.daysOff': 'Les jours de repos doivent être des jours de la semaine',
+  'notify.view': 'Voir le détail',
+  'notify.dismiss': 'Ignorer',
+  'notify.summary.title': { one: '{count} alerte pendant la pause des notifications', other: '{count} alertes pendant la pause des notifications' },
+  'notify.summary.resolved': 'Toutes ont été résolues',
+  'notify.summary.more': { one: '…et {count} autre', other: '…et {count} autres' },
+  'notify.test.title': 'Test Pret Monitor',
+  'notify.test.body': 'Ceci est une notification de test',
+
+  'alert.emptyShelf.title': 'Rayons vides : {shelf} - {store}',
+  'alert.emptyShelf.body': 'Rayons vides : {shelf}',
+  'alert.emptyShelf.image': "Voir l'image jointe pour vérification.",
+  'alert.predicted.title': 'Rayon bientôt vide : {shelf} - {store}',
+  'alert.predicted.body': '{shelf} devrait être vide dans ~{minutes} min',
+  'alert.predicted.fill': 'Remplissage : {fill, percent} (baisse de {rate, number} %/min)',
+  'alert.temperature.title': 'Alerte température : {sensor} - {store}',
+  'alert.machine.title': 'Machine hors ligne - {store}',
+  'alert.camera.title': 'Panne de caméra - {store}',
+  'alert.temperatureSensor.title': 'Capteur muet : {component} - {store}',
+  'alert.fillSensor.title': 'Capteur de remplissage bloqué : {shelf} - {store}',
+  'alert.escalated.title': 'Escaladée à {role} : {title}',
+  'alert.stock': 'Stock : environ {units} sur {capacity} unités',
+  'alert.sensor': 'Capteur : {sensor}',
+  'alert.location': 'Adresse : {address}',
+  'alert.time': 'Heure : {time, datetime}',
+  'alert.since': 'Depuis : {since, datetime}',
+
+  'rule.fill.threshold': 'Remplissage : {value, percent} (Seuil : {operator} {threshold, percent})',
+  'rule.fill.range': 'Remplissage : {value, percent} (Plage : {threshold, percent} à {thresholdHigh, percent})',
+  'rule.fill.rate': 'Remplissage : {value, percent} (Limite : {threshold, percent} en {window} min)',
+  'rule.temperature.threshold': 'Température : {value, temperature} (Seuil : {operator} {threshold, temperature}) ; hors plage depuis {duration, duration}',
+  'rule.temperature.range': 'Température : {value, temperature} (Plage : {threshold, temperature} à {thresholdHigh, temperature}) ; hors plage depuis {duration, duration}',
+  'rule.temperature.rises': 'Température : {value, temperature}, en hausse de {deviation, temperatureChange} (Limite : {threshold, temperatureChange} en {window} min) ; en hausse depuis {duration, duration}',
+  'rule.temperature.falls': 'Température : {value, temperature}, en baisse de {deviation, temperatureChange} (Limite : {threshold, temperatureChange} en {window} min) ; en baisse depuis {duration, duration}',
+
+  'health.machine': 'Machine hors ligne depuis {duration, duration}',
+  'health.machineError': 'Machine hors ligne depuis {duration, duration} ({error})',
+  'health.camera': { one: 'Aucune image de la caméra au dernier relevé', other: 'Aucune image de la caméra lors des {count} derniers relevés' },
+  'health.temperatureSensor': "Le capteur de température {sensor} n'a rien transmis depuis {duration, duration}",
+  'health.fillSensor': "Le capteur de remplissage indique {value, percent} pour la zone {region} depuis {duration, duration} d'ouverture",
+  'health.recovered.machine': 'Machine de nouveau en ligne',
+  'health.recovered.camera': 'Images de la caméra de nouveau reçues',
+  'health.recovered.temperature_sensor': 'Le capteur transmet de nouveau',
+  'health.recovered.fill_sensor': 'Les relevés de remplissage varient de nouveau',
+  'health.recovered.other': 'Équipement de nouveau opérationnel',
+  'health.forgotten': "Magasin plus surveillé",
+
+  'resolved.fill': 'Remplissage revenu à {fill, percent}',
+  'resolved.temperature': 'Température revenue à {temperature, temperature}',
+  'resolved.forecast': "Le rayon n'est plus prévu vide",
+
+  // Shared form labels
+  'form.name': 'Nom',
+  'form.store': 'Magasin',
+  'form.edit': 'Modifier',
+  'form.save': 'Enregistrer',
+  'form.cancel': 'Annuler',
+  'form.back': 'Retour',
+  'form.delete': 'Supprimer',
+  'form.remove': 'Retirer',
+  'form.close': 'Fermer',
+  'form.enabled': 'Activée',
+  'form.allStores': 'Tous les magasins',
+  'form.import': 'Importer',
+  'form.export': 'Exporter',
+
+  // Store editor
+  'storeEditor.addTitle': 'Ajouter un magasin',
+  'storeEditor.editTitle': 'Modifier {store}',
+  'storeEditor.id': 'Identifiant du magasin',
+  'storeEditor.address': 'Adresse',
+  'storeEditor.region': 'Région',
+  'storeEditor.machineId': 'Identifiant de la machine',
+  'storeEditor.hostname': 'Adresse de la machine (facultatif)',
+  'storeEditor.hostnamePlaceholder': "Récupérée depuis l'application Viam",
+  'storeEditor.visionService': 'Service de vision pour la détection de personnes (facultatif)',
+  'storeEditor.visionServicePlaceholder': 'p. ex. person-detector',
+  'storeEditor.timeZone': 'Fuseau horaire (facultatif)',
+  'storeEditor.timeZoneHint': "Fuseau horaire IANA, p. ex. Europe/Paris ou Asia/Hong_Kong. Les horaires d'ouverture et des règles d'alerte sont en heure du magasin ; vide, le fuseau de cet appareil s'applique.",
+  'storeEditor.hours': "Horaires d'ouverture",
+  'storeEditor.opens': 'Ouverture le {day}',
+  'storeEditor.closes': 'Fermeture le {day}',
+  'storeEditor.hoursHint': "Laissez les deux heures vides les jours de fermeture. Une fermeture à l'heure d'ouverture ou avant se poursuit après minuit.",
+  'storeEditor.closures': 'Jours fériés et fermetures',
+  'storeEditor.closuresHint': 'Une par ligne : une date ou une période (2026-08-01..2026-08-14), puis « closed » ou des horaires comme 07:00-15:00, puis un nom facultatif.',
+  'storeEditor.latitude': 'Latitude',
+  'storeEditor.longitude': 'Longitude',
+  'storeEditor.confirmRemove': 'Ne plus surveiller {store} ?',
+
+  // Store trends
+  'storeDetail.loading': "Chargement de l'historique...",
+  'storeDetail.fill': 'Remplissage des rayons',
+  'storeDetail.temperature': 'Température',
+  'chart.threshold': 'Seuil : {value}',
+
+  // Alert rules
+  'rules.forecast': 'Prévision de rayons vides',
+  'rules.leadTime': "Délai d'alerte (minutes)",
+  'rules.trendWindow': 'Fenêtre de tendance (minutes)',
+  'rules.forecastEnabled': 'Alerter avant que les rayons ne se vident',
+  'rules.thresholdRules': 'Règles de seuil',
+  'rules.empty': 'Aucune règle configurée. Aucune alerte ne sera émise.',
+  'rules.reset': 'Rétablir les valeurs par défaut',
+  'rules.add': 'Ajouter une règle',
+  'rules.confirmReset': 'Remplacer toutes les règles par celles par défaut ?',
+  'rules.allStores': 'Tous les magasins',
+  'rules.condition.level': '{operator} {threshold}{unit}',
+  'rules.condition.range': 'hors de {threshold}–{thresholdHigh}{unit}',
+  'rules.condition.rate': '{operator} {threshold}{unit} en {window} min',
+  'rules.forDuration': 'pendant {minutes} min',
+  'rules.activeHours': '{start} h–{end} h',
+  'ruleOperator.lt': '<',
+  'ruleOperator.le': '<=',
+  'ruleOperator.gt': '>',
+  'ruleOperator.ge': '>=',
+  'ruleOperator.outside': 'hors plage',
+  'ruleOperator.rises_by': 'monte de',
+  'ruleOperator.falls_by': 'baisse de',
+  'ruleEditor.editTitle': 'Modifier la règle',
+  'ruleEditor.namePlaceholder': 'Vitrine réfrigérée',
+  'ruleEditor.sensor': 'Capteur',
+  'ruleEditor.sensorFill': 'Remplissage du rayon (%)',
+  'ruleEditor.sensorTemperature': 'Température (°{unit})',
+  'ruleEditor.component': 'Composant (* comme joker)',
+  'ruleEditor.operator': 'Opérateur',
+  'ruleEditor.threshold': 'Seuil',
+  'ruleEditor.thresholdHigh': 'Seuil haut (plage)',
+  'ruleEditor.window': 'Fenêtre de variation (minutes)',
+  'ruleEditor.thresholdHint': 'Pour une plage, le seuil est la borne basse. Pour « monte de » et « baisse de », le seuil est la variation dans la fenêtre.',
+  'ruleEditor.minDuration': 'Durée min. (minutes)',
+  'ruleEditor.severity': 'Gravité',
+  'ruleEditor.automatic': 'Automatique',
+  'ruleEditor.activeFrom': 'Active à partir de (heure du magasin)',
+  'ruleEditor.activeUntil': "Active jusqu'à (heure)",
+  'ruleEditor.always': 'Toujours',
+  'ruleEditor.enabled': 'Activée',
+  'ruleEditor.confirmDelete': 'Supprimer la règle « {name} » ?',
+
+  // Temperature compliance log
+  'compliance.title': 'Conformité des températures',
+  'compliance.from': 'Du',
+  'compliance.to': 'Au',
+  'compliance.rangeHint': 'Plage sûre selon la règle de température de chaque capteur, sinon {min} à {max} · contrôles à {times} heure du magasin',
+  'compliance.noDays': "Aucun jour à afficher. Choisissez un magasin et une période jusqu'à aujourd'hui.",
+  'compliance.sensor': 'Capteur',
+  'compliance.range': '{min} à {max}',
+  'compliance.missed': 'Manqué',
+  'compliance.noSensors': 'Aucun capteur ne transmet.',
+  'compliance.excursion': '{sensor} hors plage · pic {peak}',
+  'compliance.ongoing': 'en cours',
+  'compliance.noAction': 'Aucune action corrective enregistrée',
+  'compliance.addAction': 'Ajouter une action',
+  'compliance.editAction': "Modifier l'action",
+  'compliance.actionPrompt': 'Action corrective (p. ex. stock déplacé, technicien appelé, produits jetés) :',
+  'compliance.signedOffBy': 'Validé par {name}',
+  'compliance.signOffDay': 'Valider la journée',
+  'compliance.signOffPrompt': 'Valider en tant que {name}. Note (facultative) :',
+  'compliance.exportCsv': 'Exporter en CSV',
+  'compliance.print': 'Imprimer',
+  'compliance.allowPopups': "Autorisez les fenêtres pop-up pour ce site afin d'imprimer le rapport",
+  'compliance.settingsTitle': 'Paramètres de conformité',
+  'compliance.minimum': 'Minimum (°{unit})',
+  'compliance.maximum': 'Maximum (°{unit})',
+  'compliance.checkpointTimes': 'Heures de contrôle',
+  'compliance.checkpointHint': "Un relevé est enregistré pour chaque capteur à chaque heure, en heure du magasin, dans l'heure qui suit. La plage s'applique aux capteurs sans règle de température.",
+  'compliance.retention': 'Conserver les relevés (jours)',
+
+  // Printed and exported compliance reports
+  'report.title': 'Conformité des températures - {store} - du {from} au {to}',
+  'report.heading': 'Registre de conformité des températures — {store}',
+  'report.meta': 'Du {from} au {to}, heure du magasin · Plage sûre selon la règle de température de chaque capteur, sinon {min} à {max} · Contrôles à {times} · Généré le {generated}',
+  'report.excursions': 'Périodes hors plage',
+  'report.period': 'Période',
+  'report.peak': 'Pic',
+  'report.correctiveAction': 'Action corrective',
+  'report.noneRecorded': 'Aucune',
+  'report.signedOff': 'Validé par {name} à {time}',
+  'report.notSignedOff': 'Non validé',
+  'report.noDays': 'Aucun jour dans la période.',
+  'report.csv.date': 'Date',
+  'report.csv.record': 'Enregistrement',
+  'report.csv.scheduled': 'Prévu',
+  'report.csv.time': 'Heure',
+  'report.csv.temperature': 'Température (°{unit})',
+  'report.csv.range': 'Plage sûre (°{unit})',
+  'report.csv.status': 'État',
+  'report.csv.note': 'Action corrective / note',
+  'report.csv.by': 'Par',
+  'report.csv.checkpoint': 'Contrôle',
+  'report.csv.excursion': 'Hors plage',
+  'report.csv.signOff': 'Validation',
+  'report.csv.ok': 'OK',
+  'report.csv.outOfRange': 'Hors plage',
+  'report.csv.outOfRangeFor': 'Hors plage {duration}',
+  'report.csv.signedOff': 'Validé',
+
+  // Escalation policies
+  'escalation.receives': 'Cet appareil reçoit',
+  'escalation.policies': 'Stratégies',
+  'escalation.empty': "Aucune stratégie d'escalade. Les alertes ne seront pas escaladées.",
+  'escalation.add': 'Ajouter une stratégie',
+  'escalation.editTitle': 'Modifier la stratégie',
+  'escalation.allTypes': 'tous les types',
+  'escalation.summary': '{store} · {types} · {severity}+ · {steps}',
+  'escalation.step': '{minutes} min → {role}',
+  'escalation.minSeverity': 'Gravité minimale',
+  'escalation.alertTypes': "Types d'alerte (aucun coché : tous)",
+  'escalation.stepAfter': 'Étape {step} après (minutes)',
+  'escalation.stepOff': 'Désactivée',
+  'escalation.notify': 'Prévenir',
+  'escalation.raiseSeverity': "Augmenter la gravité à l'étape {step}",
+  'escalation.confirmDelete': 'Supprimer la stratégie « {name} » ?',
+
+  // Planogram
+  'planogram.title': 'Planogramme',
+  'planogram.hint': "Associez les zones des capteurs de remplissage aux produits de chaque étagère. Les entrées pour tous les magasins s'appliquent partout où un magasin n'a pas sa propre entrée.",
+  'planogram.summary': '{location} · {region} · {capacity} unités · priorité {priority}',
+  'planogram.location': '{fixture} étagère {shelf}',
+  'planogram.empty': 'Aucune étagère associée. Les alertes affichent le nom des zones des capteurs.',
+  'planogram.add': 'Ajouter une étagère',
+  'planogram.editTitle': "Modifier l'étagère",
+  'planogram.confirmImport': 'Remplacer tout le planogramme par le fichier importé ?',
+  'planogram.confirmRemove': 'Retirer {product} du planogramme ?',
+  'planogram.region': 'Zone du capteur',
+  'planogram.product': 'Produit ou catégorie',
+  'planogram.productPlaceholder': 'Baguette poulet César',
+  'planogram.category': 'Catégorie (facultatif)',
+  'planogram.categoryPlaceholder': 'Baguettes',
+  'planogram.fixture': 'Meuble',
+  'planogram.fixturePlaceholder': 'frigo 2',
+  'planogram.shelf': 'Étagère (1 = haut)',
+  'planogram.capacity': 'Capacité (unités)',
+  'planogram.priority': 'Priorité',
+
+  // Machine credentials
+  'credentials.title': 'Identifiants des machines',
+  'credentials.allMachines': "Toutes les machines (clé de site ou d'organisation)",
+  'credentials.sharedLabel': 'Clé partagée',
+  'credentials.empty': "Aucune clé enregistrée. Les magasins utilisent le cookie Viam Apps de leur machine s'il existe.",
+  'credentials.addTitle': 'Ajouter ou remplacer une clé',
+  'credentials.machine': 'Machine',
+  'credentials.label': 'Libellé',
+  'credentials.labelPlaceholder': 'p. ex. clé opérateur Londres',
+  'credentials.keyId': 'ID de la clé API',
+  'credentials.key': 'Clé API',
+  'credentials.save': 'Enregistrer la clé',
+
+  // Validation messages
+  'validation.nameRequired': 'Le nom est obligatoire',
+  'validation.invalidJson': "Le document n'est pas du JSON valide",
+  'validation.notObject': 'Le document doit être un objet JSON',
+  'settings.error.interval': "L'intervalle de relevé doit être compris entre {min} secondes et {max} minutes",
+  'settings.error.theme': "Le thème n'est pas valide",
+  'settings.error.language': "Cette langue n'est pas prise en charge",
+  'settings.error.temperatureUnit': "L'unité de température doit être °C ou °F",
+  'store.error.object': 'Chaque magasin doit être un objet JSON',
+  'store.error.id': "L'identifiant ne peut contenir que des minuscules, des chiffres et des tirets",
+  'store.error.duplicateId': "Un magasin avec l'identifiant « {id} » existe déjà",
+  'store.error.unknown': 'Magasin « {id} » inconnu',
+  'store.error.address': "L'adresse est obligatoire",
+  'store.error.region': 'La région est obligatoire',
+  'store.error.machineId': "L'ID de machine doit être un UUID de machine Viam",
+  'store.error.hostname': "Le nom d'hôte doit être une adresse de machine comme shop-main.abc123.viam.cloud",
+  'store.error.visionService': 'Le service de vision doit être un nom de ressource comme person-detector',
+  'store.error.timeZone': 'Le fuseau horaire doit être un fuseau IANA comme Europe/Paris',
+  'store.error.latitude': 'La latitude doit être comprise entre -90 et 90',
+  'store.error.longitude': 'La longitude doit être comprise entre -180 et 180',
+  'store.error.version': 'Version de registre non prise en charge : {version}',
+  'store.error.stores': 'Le document doit contenir un tableau « stores »',
+  'store.error.hours': "Les horaires doivent indiquer les heures de chaque jour d'ouverture",
+  'store.error.dayHours': "{day} : il faut une heure d'ouverture et une heure de fermeture (HH:MM)",
+  'store.error.closures': 'Les fermetures doivent être une liste',
+  'store.error.closureObject': 'Chaque fermeture doit être un objet JSON',
+  'store.error.closureDates': 'Les dates de la fermeture « {name} » doivent être au format AAAA-MM-JJ',
+  'store.error.closureOrder': 'La fermeture « {name} » se termine avant de commencer',
+  'store.error.closureHours': "La fermeture « {name} » doit avoir une heure d'ouverture et de fermeture (HH:MM)",
+  'store.error.closureName': 'Le nom de la fermeture « {name} » doit être du texte',
+  'rule.error.sensor': 'Le capteur doit être remplissage ou température',
+  'rule.error.componentPattern': 'Le modèle de composant est obligatoire',
+  'rule.error.operator': 'Opérateur non pris en charge',
+  'rule.error.threshold': 'Le seuil doit être un nombre',
+  'rule.error.range': 'Une plage doit avoir un seuil haut supérieur au seuil bas',
+  'rule.error.change': 'La variation doit être supérieure à zéro',
+  'rule.error.window': 'La fenêtre de variation doit être comprise entre 1 et {max} minutes',
+  'rule.error.minDuration': 'La durée minimale ne peut pas être négative',
+  'rule.error.activeHours': 'Les heures actives doivent être deux heures différentes entre 0 et 23',
+  'policy.error.minSeverity': "La gravité minimale n'est pas valide",
+  'policy.error.steps': "Il faut au moins une étape d'escalade",
+  'policy.error.role': "Étape {step} : le rôle n'est pas valide",
+  'policy.error.delay': 'Étape {step} : le délai doit être un nombre de minutes positif',
+  'policy.error.order': "Étape {step} : le délai doit être plus long qu'à l'étape {previous}",
+  'planogram.error.region': 'La zone du capteur est obligatoire',
+  'planogram.error.product': 'Le produit est obligatoire',
+  'planogram.error.fixture': 'Le meuble est obligatoire',
+  'planogram.error.shelf': "L'étagère doit être un nombre entier à partir de 1",
+  'planogram.error.capacity': "La capacité doit être un nombre entier d'unités à partir de 1",
+  'planogram.error.priority': "La priorité n'est pas valide",
+  'planogram.error.version': 'Version de planogramme non prise en charge : {version}',
+  'planogram.error.entries': 'Le document doit contenir un tableau « entries »',
+  'planogram.error.entry': 'Entrée {index} ({key}) : {error}',
+  'planogram.error.duplicate': 'Entrée {index} ({key}) : la zone apparaît deux fois',
+  'credentials.error.machine': 'Choisissez une machine ou la clé partagée',
+  'credentials.error.keyId': "L'ID de la clé API est obligatoire",
+  'credentials.error.key': 'La clé API est obligatoire',
+  'credentials.error.sharedHostname': "Une clé partagée ne peut pas avoir de nom d'hôte ; indiquez-le sur chaque magasin",
+  'compliance.error.range': 'La plage sûre doit avoir une température minimale et maximale',
+  'compliance.error.rangeOrder': 'La température minimale doit être inférieure à la maximale',
+  'compliance.error.checkpoints': 'Il faut au moins une heure de contrôle',
+  'compliance.error.checkpointTime': "L'heure de contrôle « {time} » n'est pas au format HH:MM",
+  'compliance.error.retention': 'La conservation doit être un nombre entier de jours à partir de 1',
+  'compliance.error.excursionNotFound': 'Période hors plage introuvable',
+  'compliance.error.noteRequired': "Décrivez l'action corrective menée",
+  'compliance.error.alreadySignedOff': 'Déjà validé par {name}',
+  'compliance.error.notStarted': "Une journée ne peut être validée qu'une fois commencée",
+  'compliance.error.ongoing': '{sensors} toujours hors plage',
+  'compliance.error.unactioned': { one: "{count} période hors plage doit d'abord avoir une action corrective", other: "{count} périodes hors plage doivent d'abord avoir une action corrective" },
+
+  // Test alerts
+  'alert.test.temperature.title': 'Alerte température - {store}',
+  'alert.test.temperature': 'Température : {value, temperature} (seuil : {threshold, temperature})',
+  'alert.test.equipment.title': "Panne d'équipement - {store}",
+  'alert.test.equipment.body': 'Système CVC hors ligne',
+  'alert.test.rawImage': 'Image brute de la caméra',
+  'alert.test.detectedImage': 'Problème détecté'
+};
+
+export const zhHK: Catalog = {
+  'time.justNow': '剛剛',
+  'time.secondsAgo': '{count} 秒前',
+  'time.minutesAgo': '{count} 分鐘前',
+  'time.hoursAgo': '{count} 小時前',
+  'time.daysAgo': '{count} 日前',
+  'time.weeksAgo': '{count} 星期前',
+  'time.underMinute': '不足一分鐘',
+  'time.minutes': { other: '{count} 分鐘' },
+  'time.hours': { other: '{count} 小時' },
+  'time.short.seconds': '{count} 秒',
+  'time.short.minutes': '{count} 分鐘',
+  'time.short.hoursMinutes': '{hours} 小時 {minutes} 分鐘',
+
+  'severity.critical': '嚴重',
+  'severity.high': '高',
+  'severity.medium': '中',
+  'severity.low': '低',
+  'status.open': '未處理',
+  'status.acknowledged': '已確認',
+  'status.resolved': '已解決',
+  'storeStatus.online': '在線',
+  'storeStatus.offline': '離線',
+  'storeStatus.reconnecting': '重新連接中',
+  'storeStatus.unknown': '不明',
+  'taskStatus.open': '待處理',
+  'taskStatus.in_progress': '進行中',
+  'taskStatus.done': '已完成',
+  'taskStatus.cancelled': '已取消',
+  'role.store_staff': '分店員工',
+  'role.area_manager': '區域經理',
+  'role.regional_manager': '地區經理',
+  'alertType.empty_shelf': '貨架空置',
+  'alertType.predicted_empty': '預計售罄',
+  'alertType.temperature': '溫度',
+  'alertType.equipment_failure': '設備故障',
+  'priority.high': '高',
+  'priority.normal': '一般',
+  'priority.low': '低',
+
+  'header.simulated': '模擬',
+  'header.simulatedHint': '讀數來自模擬機器',
+  'header.stores': '{online}/{total} 間分店',
+  'header.settings': '設定',
+  'tab.stores': '分店',
+  'tab.map': '地圖',
+  'tab.alerts': '警報',
+  'tab.tasks': '任務',
+  'tab.camera': '即時影像',
+
+  'stores.title': '分店位置',
+  'stores.subtitle': '選擇要監察的分店',
+  'stores.planogram': '貨架圖',
+  'stores.compliance': '合規紀錄',
+  'stores.credentials': '憑證',
+  'stores.add': '新增分店',
+  'stores.empty': '尚未設定分店。新增分店以開始監察。',
+  'stores.monitoring': { other: '正在監察 {count} 間分店' },
+  'stores.lastUpdated': '最後更新：{time}',
+  'store.needsRestocking': '需要補貨：{shelves}',
+  'store.trends': '趨勢',
+  'store.edit': '編輯分店',
+  'store.openNow': '營業中 · 當地時間 {time}',
+  'store.closedNow': '已關門 · 當地時間 {time}',
+  'store.closedFor': '休息（{name}）· 當地時間 {time}',
+  'connection.paused': '已暫停更新',
+  'connection.every': '每 {interval} 更新',
+  'connection.reason.alerts': '有未處理警報',
+  'connection.reason.closed': '分店已關門',
+  'connection.reason.hidden': '在背景執行',
+  'connection.reason.low_battery': '電量不足',
+  'connection.lastPoll': '上次讀取 {seconds} 秒',
+  'connection.timedOut': '{call} 逾時',
+  'connection.failed': '{call} 失敗',
+  'connection.offlineSince': '自 {time} 起離線',
+  'connection.failedAttempts': { other: '{count} 次嘗試失敗' },
+  'connection.retry': '立即重試',
+  'chart.empty': '此時段沒有讀數紀錄',
+
+  'map.subtitle': '互動地圖',
+  'map.hasAlerts': '有警報',
+  'map.status': '狀態：',
+  'map.activeAlerts': { other: '{count} 個警報' },
+
+  'alerts.title': '警報紀錄',
+  'alerts.rules': '警報規則',
+  'alerts.escalation': '上報',
+  'alerts.markAllRead': '全部標為已讀',
+  'alerts.all': '全部',
+  'alerts.meanTimeToResolve': '平均解決時間：{time}',
+  'alerts.autoResolved': { other: '{count} 個已自動解決' },
+  'alerts.empty': '暫時沒有警報。監察進行中。',
+  'alerts.previewAlt': '警報預覽',
+  'alertDetail.cameraView': '鏡頭畫面',
+  'alertDetail.loadingImage': '正在載入圖片...',
+  'alertDetail.imageGone': '圖片已不再提供',
+  'alertDetail.imageAlt': '警報圖片',
+  'alertDetail.acknowledge': '確認',
+  'alertDetail.assign': '指派',
+  'alertDetail.resolve': '解決',
+  'alertDetail.close': '關閉',
+  'alertDetail.assignPrompt': '指派給：',
+  'alertDetail.resolvePrompt': '解決備註（選填）：',
+  'alerts.operatorPrompt': '你的名字（記錄在警報操作上）：',
+  'lifecycle.status': '狀態',
+  'lifecycle.acknowledged': '已確認',
+  'lifecycle.assignedTo': '指派給',
+  'lifecycle.resolved': '已解決',
+  'lifecycle.automatically': '自動',
+  'lifecycle.unknown': '不明',
+  'lifecycle.note': '備註',
+  'lifecycle.restockTask': '補貨任務',
+  'lifecycle.escalation': '第 {level} 級上報',
+
+  'tasks.title': '補貨任務',
+  'tasks.toDo': '{count} 項待辦',
+  'tasks.overdue': '{count} 項逾期',
+  'tasks.restockedToday': { other: '今日已補貨 {count} 次' },
+  'tasks.meanTimeToRestock': '平均補貨時間：{time}',
+  'tasks.empty': '沒有貨架等待補貨。',
+  'tasks.recentlyClosed': '最近完成',
+  'task.title': '補貨：{shelf}',
+  'task.dueIn': '{time}內完成',
+  'task.overdueBy': '已逾期 {time}',
+  'task.sensorReads': '感應器讀數 {fill, percent}',
+  'task.restockedIn': '用了 {time} 補貨 · {by}',
+  'task.cancelledBy': '由 {by} 取消 · {time}',
+  'task.start': '開始',
+  'task.assign': '指派',
+  'task.done': '完成',
+  'task.cancel': '取消',
+  'task.assignPrompt': '指派給：',
+  'task.confirmCancel': '取消這項補貨工作？',
+  'task.checklist.fetch': '從貨倉取貨',
+  'task.checklist.rotate': '將較舊的貨品移到前面',
+  'task.checklist.fill': '按貨架圖補滿貨架',
+  'task.checklist.remove': '移除損壞或過期貨品',
+
+  'camera.noStores': '未選擇分店',
+  'camera.selectStores': '請在「分店」分頁選擇分店以查看即時鏡頭畫面。',
+  'camera.title': '即時鏡頭畫面',
+  'camera.subtitle': '附電腦視覺標示的即時畫面',
+  'camera.loading': '正在載入鏡頭畫面...',
+  'camera.offline': '鏡頭離線',
+  'camera.noFrame': '鏡頭沒有傳回畫面',
+  'camera.live': '直播',
+  'camera.frameAlt': '{store} 的鏡頭畫面',
+  'camera.startingVideo': '正在啟動影片...',
+  'camera.paused': '已暫停',
+  'camera.videoUnavailable': '無法播放即時影片（{error}），改為顯示截圖',
+  'camera.videoEnded': '影片串流已結束',
+  'camera.quality': '影片質素',
+  'camera.quality.auto': '自動',
+  'camera.quality.low': '低（240p）',
+  'camera.quality.medium': '中（480p）',
+  'camera.quality.high': '高（720p）',
+  'camera.pause': '⏸ 暫停',
+  'camera.resume': '▶ 繼續',
+  'camera.liveVideo': '● 即時影片',
+  'camera.stopVideo': '■ 停止影片',
+  'camera.noVisionService': '此分店未設定視覺服務，因此不會顯示貨架、人物及警報方框',
+  'camera.annotation.empty': '{shelf} 已清空',
+  'camera.annotation.low': '{shelf} 即將清空',
+
+  'settings.title': '設定',
+  'settings.notifications': '通知',
+  'settings.push': '新警報推送通知',
+  'settings.pushBlocked': '此瀏覽器已封鎖通知。請在網站設定中允許通知以接收警報。',
+  'settings.pushUnsupported': '此瀏覽器不支援通知。',
+  'settings.sound': '高及嚴重警報發出聲音',
+  'settings.monitoring': '監察',
+  'settings.pollInterval': '讀取間隔（秒）',
+  'settings.pollIntervalHint': '營業中且沒有警報的分店的讀取頻率。有警報的分店讀取得更頻密，已關門的分店則較疏。',
+  'settings.alertInterval': '有未處理警報時（秒）',
+  'settings.closedInterval': '關門時（分鐘）',
+  'settings.jitter': '隨機偏差（%）',
+  'settings.maxConcurrent': '同時讀取的分店數目',
+  'settings.pollingHint': '隨機偏差會令每次間隔略有不同，避免所有分店同時讀取。超出上限的分店會排隊等候。',
+  'polling.error.interval': '讀取間隔必須介乎 {min} 秒至 {max} 分鐘',
+  'polling.error.hiddenBehavior': '背景讀取只可暫停或減慢',
+  'polling.error.lowBatteryLevel': '低電量水平必須介乎 0 至 1',
+  'polling.error.lowBatteryMultiplier': '低電量減慢倍數最少為 1',
+  'polling.error.jitter': '隨機偏差必須介乎 0% 至 {max, percent}',
+  'polling.error.maxConcurrent': '同時讀取的分店數目必須是 1 至 {max} 的整數',
+  'polling.error.timeouts': '逾時最少為 1 秒，而每次呼叫的逾時不可長於整次讀取的逾時',
+  'settings.display': '顯示',
+  'settings.theme': '主題',
+  'settings.language': '語言',
+  'settings.temperatureUnit': '溫度單位',
+  'settings.celsius': '攝氏（°C）',
+  'settings.fahrenheit': '華氏（°F）',
+  'settings.temperatureUnitHint': '讀數、圖表、警報、警報規則及合規記錄均使用此單位。',
+  'theme.auto': '跟隨裝置',
+  'theme.light': '淺色',
+  'theme.dark': '深色',
+
+  // Notification schedule
+  'settings.quietHours': '靜音時段',
+  'settings.quietFrom': '由',
+  'settings.quietUntil': '至',
+  'settings.daysOff': '休息日',
+  'settings.criticalOverride': '靜音時段、休息日及暫停期間仍通知緊急警報',
+  'settings.scheduleHint': '通知暫停期間保留的警報，會在恢復通知時以一則摘要發送。時間留空即不設靜音時段。',
+  'settings.snooze': '全部暫停 1 小時',
+  'settings.resume': '恢復通知',
+  'quiet.snoozed': '通知已暫停至 {until, time}',
+  'quiet.quietHours': '靜音時段至 {until}',
+  'quiet.dayOff': '休息日：通知已暫停',
+  'quiet.held': { other: '{count} 個警報待摘要發送' },
+  'quiet.error.times': '靜音時段需要開始及結束時間',
+  'quiet.error.sameTime': '靜音時段的開始及結束時間不能相同',
+  'quiet.error.daysOff': '休息日必須是星期中的某一天',
+  'notify.view': '查看詳情',
+  'notify.dismiss': '關閉',
+  'notify.summary.title': { other: '通知暫停期間有 {count} 個警報' },
+  'notify.summary.resolved': '全部已解決',
+  'notify.summary.more': { other: '…另有 {count} 個' },
+  'notify.test.title': 'Pret Monitor 測試',
+  'notify.test.body': '這是一則測試通知',
+
+  'alert.emptyShelf.title': '貨架清空：{shelf} - {store}',
+  'alert.emptyShelf.body': '以下貨架已清空：{shelf}',
+  'alert.emptyShelf.image': '請查看附上的圖片。',
+  'alert.predicted.title': '貨架存貨不足：{shelf} - {store}',
+  'alert.predicted.body': '{shelf} 預計約 {minutes} 分鐘後清空',
+  'alert.predicted.fill': '存貨水平：{fill, percent}（每分鐘下降 {rate, number}%）',
+  'alert.temperature.title': '溫度警報：{sensor} - {store}',
+  'alert.machine.title': '機器離線 - {store}',
+  'alert.camera.title': '鏡頭故障 - {store}',
+  'alert.temperatureSensor.title': '感應器沒有回報：{component} - {store}',
+  'alert.fillSensor.title': '存貨感應器卡住：{shelf} - {store}',
+  'alert.escalated.title': '已上報至{role}：{title}',
+  'alert.stock': '存貨：約剩 {units}/{capacity} 件',
+  'alert.sensor': '感應器：{sensor}',
+  'alert.location': '地點：{address}',
+  'alert.time': '時間：{time, datetime}',
+  'alert.since': '開始時間：{since, datetime}',
+
+  'rule.fill.threshold': '存貨水平：{value, percent}（門檻：{operator} {threshold, percent}）',
+  'rule.fill.range': '存貨水平：{value, percent}（範圍：{threshold, percent} 至 {thresholdHigh, percent}）',
+  'rule.fill.rate': '存貨水平：{value, percent}（上限：{window} 分鐘內 {threshold, percent}）',
+  'rule.temperature.threshold': '溫度：{value, temperature}（門檻：{operator} {threshold, temperature}）；超出範圍 {duration, duration}',
+  'rule.temperature.range': '溫度：{value, temperature}（範圍：{threshold, temperature} 至 {thresholdHigh, temperature}）；超出範圍 {duration, duration}',
+  'rule.temperature.rises': '溫度：{value, temperature}，上升 {deviation, temperatureChange}（上限：{window} 分鐘內 {threshold, temperatureChange}）；持續上升 {duration, duration}',
+  'rule.temperature.falls': '溫度：{value, temperature}，下降 {deviation, temperatureChange}（上限：{window} 分鐘內 {threshold, temperatureChange}）；持續下降 {duration, duration}',
+
+  'health.machine': '機器已離線 {duration, duration}',
+  'health.machineError': '機器已離線 {duration, duration}（{error}）',
+  'health.camera': { other: '最近 {count} 次讀取都沒有鏡頭畫面' },
+  'health.temperatureSensor': '溫度感應器 {sensor} 已 {duration, duration} 沒有回報',
+  'health.fillSensor': '區域 {region} 的存貨感應器在營業時間內 {duration, duration} 一直顯示 {value, percent}',
+  'health.recovered.machine': '機器已重新上線',
+  'health.recovered.camera': '已重新收到鏡頭畫面',
+  'health.recovered.temperature_sensor': '感應器已恢復回報',
+  'health.recovered.fill_sensor': '存貨讀數已恢復變化',
+  'health.recovered.other': '設備已恢復正常',
+  'health.forgotten': '分店已停止監察',
+
+  'resolved.fill': '存貨水平已回復至 {fill, percent}',
+  'resolved.temperature': '溫度已回復至 {temperature, temperature}',
+  'resolved.forecast': '已不再預計清空',
+
+  // Shared form labels
+  'form.name': '名稱',
+  'form.store': '分店',
+  'form.edit': '編輯',
+  'form.save': '儲存',
+  'form.cancel': '取消',
+  'form.back': '返回',
+  'form.delete': '刪除',
+  'form.remove': '移除',
+  'form.close': '關閉',
+  'form.enabled': '啟用',
+  'form.allStores': '所有分店',
+  'form.import': '匯入',
+  'form.export': '匯出',
+
+  // Store editor
+  'storeEditor.addTitle': '新增分店',
+  'storeEditor.editTitle': '編輯{store}',
+  'storeEditor.id': '分店編號',
+  'storeEditor.address': '地址',
+  'storeEditor.region': '地區',
+  'storeEditor.machineId': '機器編號',
+  'storeEditor.hostname': '機器地址（選填）',
+  'storeEditor.hostnamePlaceholder': '從 Viam 應用程式查詢',
+  'storeEditor.visionService': '人體偵測視覺服務（選填）',
+  'storeEditor.visionServicePlaceholder': '例如 person-detector',
+  'storeEditor.timeZone': '時區（選填）',
+  'storeEditor.timeZoneHint': 'IANA 時區，例如 Asia/Hong_Kong 或 America/New_York。營業時間及警報規則時段均以分店時間計算；留空則使用此裝置的時區。',
+  'storeEditor.hours': '營業時間',
+  'storeEditor.opens': '{day}開門',
+  'storeEditor.closes': '{day}關門',
+  'storeEditor.hoursHint': '休息日請將兩個時間留空。關門時間早於或等於開門時間即跨越午夜。',
+  'storeEditor.closures': '假期及暫停營業',
+  'storeEditor.closuresHint': '每行一項：日期或日期範圍（2026-08-01..2026-08-14），然後是「closed」或營業時間如 07:00-15:00，最後可加名稱。',
+  'storeEditor.latitude': '緯度',
+  'storeEditor.longitude': '經度',
+  'storeEditor.confirmRemove': '停止監察{store}？',
+
+  // Store trends
+  'storeDetail.loading': '正在載入記錄...',
+  'storeDetail.fill': '貨架存量',
+  'storeDetail.temperature': '溫度',
+  'chart.threshold': '閾值：{value}',
+
+  // Alert rules
+  'rules.forecast': '貨架清空預測',
+  'rules.leadTime': '提前警報時間（分鐘）',
+  'rules.trendWindow': '趨勢時段（分鐘）',
+  'rules.forecastEnabled': '在貨架清空前發出警報',
+  'rules.thresholdRules': '閾值規則',
+  'rules.empty': '未設定規則，將不會發出任何警報。',
+  'rules.reset': '還原預設',
+  'rules.add': '新增規則',
+  'rules.confirmReset': '以內置預設規則取代所有規則？',
+  'rules.allStores': '所有分店',
+  'rules.condition.level': '{operator} {threshold}{unit}',
+  'rules.condition.range': '超出 {threshold}–{thresholdHigh}{unit}',
+  'rules.condition.rate': '{window} 分鐘內{operator} {threshold}{unit}',
+  'rules.forDuration': '持續 {minutes} 分鐘',
+  'rules.activeHours': '{start}:00–{end}:00',
+  'ruleOperator.lt': '<',
+  'ruleOperator.le': '<=',
+  'ruleOperator.gt': '>',
+  'ruleOperator.ge': '>=',
+  'ruleOperator.outside': '超出範圍',
+  'ruleOperator.rises_by': '上升',
+  'ruleOperator.falls_by': '下降',
+  'ruleEditor.editTitle': '編輯規則',
+  'ruleEditor.namePlaceholder': '冷藏櫃',
+  'ruleEditor.sensor': '感應器',
+  'ruleEditor.sensorFill': '貨架存量（%）',
+  'ruleEditor.sensorTemperature': '溫度（°{unit}）',
+  'ruleEditor.component': '組件（可用 * 作萬用字元）',
+  'ruleEditor.operator': '運算符',
+  'ruleEditor.threshold': '閾值',
+  'ruleEditor.thresholdHigh': '上限閾值（範圍）',
+  'ruleEditor.window': '變化時段（分鐘）',
+  'ruleEditor.thresholdHint': '範圍規則的閾值為下限。「上升」及「下降」規則的閾值為變化時段內的變化量。',
+  'ruleEditor.minDuration': '最短持續時間（分鐘）',
+  'ruleEditor.severity': '嚴重程度',
+  'ruleEditor.automatic': '自動',
+  'ruleEditor.activeFrom': '生效開始（小時，分店時間）',
+  'ruleEditor.activeUntil': '生效結束（小時）',
+  'ruleEditor.always': '全日',
+  'ruleEditor.enabled': '啟用',
+  'ruleEditor.confirmDelete': '刪除規則「{name}」？',
+
+  // Temperature compliance log
+  'compliance.title': '溫度合規',
+  'compliance.from': '由',
+  'compliance.to': '至',
+  'compliance.rangeHint': '安全範圍按各感應器的溫度規則，否則為 {min} 至 {max} · 於分店時間 {times} 檢查',
+  'compliance.noDays': '沒有可顯示的日子。請選擇分店及截至今天的日期範圍。',
+  'compliance.sensor': '感應器',
+  'compliance.range': '{min} 至 {max}',
+  'compliance.missed': '遺漏',
+  'compliance.noSensors': '沒有感應器回報。',
+  'compliance.excursion': '{sensor} 超出範圍 · 最高 {peak}',
+  'compliance.ongoing': '持續中',
+  'compliance.noAction': '未記錄糾正措施',
+  'compliance.addAction': '新增措施',
+  'compliance.editAction': '編輯措施',
+  'compliance.actionPrompt': '已採取的糾正措施（例如移走存貨、致電技術人員、棄置食物）：',
+  'compliance.signedOffBy': '由 {name} 簽署',
+  'compliance.signOffDay': '簽署當日記錄',
+  'compliance.signOffPrompt': '以 {name} 身份簽署。備註（選填）：',
+  'compliance.exportCsv': '匯出 CSV',
+  'compliance.print': '列印',
+  'compliance.allowPopups': '請允許此網站顯示彈出視窗以列印報告',
+  'compliance.settingsTitle': '合規設定',
+  'compliance.minimum': '最低（°{unit}）',
+  'compliance.maximum': '最高（°{unit}）',
+  'compliance.checkpointTimes': '檢查時間',
+  'compliance.checkpointHint': '每個感應器會在各檢查時間（分店時間）後一小時內記錄一次讀數。此範圍適用於沒有溫度規則的感應器。',
+  'compliance.retention': '記錄保留（日）',
+
+  // Printed and exported compliance reports
+  'report.title': '溫度合規 - {store} - {from} 至 {to}',
+  'report.heading': '溫度合規記錄 — {store}',
+  'report.meta': '{from} 至 {to}（分店時間）· 安全範圍按各感應器的溫度規則，否則為 {min} 至 {max} · 檢查時間 {times} · 產生於 {generated}',
+  'report.excursions': '超出範圍時段',
+  'report.period': '時段',
+  'report.peak': '最高',
+  'report.correctiveAction': '糾正措施',
+  'report.noneRecorded': '未有記錄',
+  'report.signedOff': '由 {name} 於 {time} 簽署',
+  'report.notSignedOff': '未簽署',
+  'report.noDays': '範圍內沒有日子。',
+  'report.csv.date': '日期',
+  'report.csv.record': '記錄',
+  'report.csv.scheduled': '預定時間',
+  'report.csv.time': '時間',
+  'report.csv.temperature': '溫度（°{unit}）',
+  'report.csv.range': '安全範圍（°{unit}）',
+  'report.csv.status': '狀態',
+  'report.csv.note': '糾正措施／備註',
+  'report.csv.by': '記錄人',
+  'report.csv.checkpoint': '檢查',
+  'report.csv.excursion': '超出範圍',
+  'report.csv.signOff': '簽署',
+  'report.csv.ok': '正常',
+  'report.csv.outOfRange': '超出範圍',
+  'report.csv.outOfRangeFor': '超出範圍 {duration}',
+  'report.csv.signedOff': '已簽署',
+
+  // Escalation policies
+  'escalation.receives': '此裝置接收',
+  'escalation.policies': '上報政策',
+  'escalation.empty': '沒有上報政策，警報不會上報。',
+  'escalation.add': '新增政策',
+  'escalation.editTitle': '編輯政策',
+  'escalation.allTypes': '所有類型',
+  'escalation.summary': '{store} · {types} · {severity}或以上 · {steps}',
+  'escalation.step': '{minutes} 分鐘 → {role}',
+  'escalation.minSeverity': '最低嚴重程度',
+  'escalation.alertTypes': '警報類型（不選即適用於全部）',
+  'escalation.stepAfter': '第 {step} 步（分鐘後）',
+  'escalation.stepOff': '關閉',
+  'escalation.notify': '通知',
+  'escalation.raiseSeverity': '第 {step} 步提高嚴重程度',
+  'escalation.confirmDelete': '刪除政策「{name}」？',
+
+  // Planogram
+  'planogram.title': '貨架圖',
+  'planogram.hint': '把存量感應器的區域對應到每層貨架上的產品。適用於所有分店的項目，會在分店沒有自己的項目時套用。',
+  'planogram.summary': '{location} · {region} · {capacity} 件 · {priority}優先',
+  'planogram.location': '{fixture} 第 {shelf} 層',
+  'planogram.empty': '未對應任何貨架，警報會顯示感應器區域名稱。',
+  'planogram.add': '新增貨架',
+  'planogram.editTitle': '編輯貨架',
+  'planogram.confirmImport': '以匯入的檔案取代整個貨架圖？',
+  'planogram.confirmRemove': '從貨架圖移除{product}？',
+  'planogram.region': '感應器區域',
+  'planogram.product': '產品或類別',
+  'planogram.productPlaceholder': '凱撒雞肉法包',
+  'planogram.category': '類別（選填）',
+  'planogram.categoryPlaceholder': '法包',
+  'planogram.fixture': '貨架',
+  'planogram.fixturePlaceholder': '雪櫃 2',
+  'planogram.shelf': '層數（1 = 最頂）',
+  'planogram.capacity': '容量（件）',
+  'planogram.priority': '優先次序',
+
+  // Machine credentials
+  'credentials.title': '機器憑證',
+  'credentials.allMachines': '所有機器（地點或機構金鑰）',
+  'credentials.sharedLabel': '共用金鑰',
+  'credentials.empty': '未儲存任何金鑰。分店會在有 Viam Apps cookie 時使用其機器的 cookie。',
+  'credentials.addTitle': '新增或取代金鑰',
+  'credentials.machine': '機器',
+  'credentials.label': '標籤',
+  'credentials.labelPlaceholder': '例如：倫敦操作員金鑰',
+  'credentials.keyId': 'API 金鑰 ID',
+  'credentials.key': 'API 金鑰',
+  'credentials.save': '儲存金鑰',
+
+  // Validation messages
+  'validation.nameRequired': '必須填寫名稱',
+  'validation.invalidJson': '文件不是有效的 JSON',
+  'validation.notObject': '文件必須是 JSON 物件',
+  'settings.error.interval': '讀取間隔必須介乎 {min} 秒至 {max} 分鐘',
+  'settings.error.theme': '主題無效',
+  'settings.error.language': '不支援此語言',
+  'settings.error.temperatureUnit': '溫度單位必須是 °C 或 °F',
+  'store.error.object': '每間分店必須是 JSON 物件',
+  'store.error.id': 'ID 只可使用小寫字母、數字及連字號',
+  'store.error.duplicateId': '已有 ID 為「{id}」的分店',
+  'store.error.unknown': '沒有分店「{id}」',
+  'store.error.address': '必須填寫地址',
+  'store.error.region': '必須填寫地區',
+  'store.error.machineId': '機器 ID 必須是 Viam 機器 UUID',
+  'store.error.hostname': '主機名稱必須是機器地址，例如 shop-main.abc123.viam.cloud',
+  'store.error.visionService': '視覺服務必須是資源名稱，例如 person-detector',
+  'store.error.timeZone': '時區必須是 IANA 時區，例如 Asia/Hong_Kong',
+  'store.error.latitude': '緯度必須介乎 -90 至 90',
+  'store.error.longitude': '經度必須介乎 -180 至 180',
+  'store.error.version': '不支援的分店登記版本：{version}',
+  'store.error.stores': '文件必須包含「stores」陣列',
+  'store.error.hours': '營業時間必須列出每個營業日的時間',
+  'store.error.dayHours': '{day}需要開門及關門時間（HH:MM）',
+  'store.error.closures': '休息日必須是清單',
+  'store.error.closureObject': '每個休息日必須是 JSON 物件',
+  'store.error.closureDates': '休息日「{name}」的日期必須是 YYYY-MM-DD',
+  'store.error.closureOrder': '休息日「{name}」的結束日期早於開始日期',
+  'store.error.closureHours': '休息日「{name}」需要開門及關門時間（HH:MM）',
+  'store.error.closureName': '休息日「{name}」的名稱必須是文字',
+  'rule.error.sensor': '感應器必須是存量或溫度',
+  'rule.error.componentPattern': '必須填寫組件模式',
+  'rule.error.operator': '不支援此運算符',
+  'rule.error.threshold': '閾值必須是數字',
+  'rule.error.range': '範圍的上限必須高於下限',
+  'rule.error.change': '變化必須大於零',
+  'rule.error.window': '變化時段必須介乎 1 至 {max} 分鐘',
+  'rule.error.minDuration': '最短持續時間不可為負數',
+  'rule.error.activeHours': '生效時間必須是 0 至 23 之間兩個不同的小時',
+  'policy.error.minSeverity': '最低嚴重程度無效',
+  'policy.error.steps': '最少需要一個上報步驟',
+  'policy.error.role': '第 {step} 步：角色無效',
+  'policy.error.delay': '第 {step} 步：延遲必須是正數分鐘',
+  'policy.error.order': '第 {step} 步：延遲必須長於第 {previous} 步',
+  'planogram.error.region': '必須填寫感應器區域',
+  'planogram.error.product': '必須填寫產品',
+  'planogram.error.fixture': '必須填寫貨架',
+  'planogram.error.shelf': '層數必須是由 1 開始的整數',
+  'planogram.error.capacity': '容量必須是由 1 開始的整數件數',
+  'planogram.error.priority': '優先次序無效',
+  'planogram.error.version': '不支援的貨架圖版本：{version}',
+  'planogram.error.entries': '文件必須包含「entries」陣列',
+  'planogram.error.entry': '第 {index} 項（{key}）：{error}',
+  'planogram.error.duplicate': '第 {index} 項（{key}）：區域重複出現',
+  'credentials.error.machine': '請選擇機器或共用金鑰',
+  'credentials.error.keyId': '必須填寫 API 金鑰 ID',
+  'credentials.error.key': '必須填寫 API 金鑰',
+  'credentials.error.sharedHostname': '共用金鑰不可設定主機名稱，請在每間分店設定',
+  'compliance.error.range': '安全範圍需要最低及最高溫度',
+  'compliance.error.rangeOrder': '最低溫度必須低於最高溫度',
+  'compliance.error.checkpoints': '最少需要一個檢查時間',
+  'compliance.error.checkpointTime': '檢查時間「{time}」不是 HH:MM',
+  'compliance.error.retention': '保留期必須是由 1 開始的整數日數',
+  'compliance.error.excursionNotFound': '找不到超出範圍的時段',
+  'compliance.error.noteRequired': '請說明已採取的糾正措施',
+  'compliance.error.alreadySignedOff': '已由{name}簽署',
+  'compliance.error.notStarted': '當日開始後才可簽署',
+  'compliance.error.ongoing': '{sensors}仍超出範圍',
+  'compliance.error.unactioned': { other: '{count} 個超出範圍的時段需要先記錄糾正措施' },
+
+  // Test alerts
+  'alert.test.temperature.title': '溫度警報 - {store}',
+  'alert.test.temperature': '溫度：{value, temperature}（閾值：{threshold, temperature}）',
+  'alert.test.equipment.title': '設備故障 - {store}',
+  'alert.test.equipment.body': '空調系統離線',
+  'alert.test.rawImage': '原始鏡頭影像',
+  'alert.test.detectedImage': '偵測到的問題'
+};
@@ -0,0 +1,244 @@
+// src/planogram.ts - Maps fill-sensor regions to products and shelf positions
+import type { Alert, PlanogramDocument, PlanogramEntry, ShelfPriority } from './types';
+import { validation } from './utils';
+import { t } from './i18n';
+import type { MessageKey } from './i18n';
+
+export const PLANOGRAM_VERSION = 1;
+
+const STORAGE_KEY = 'pret-planogram';
+const SEVERITY_ORDER: Alert['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+export const SHELF_PRIORITIES: Record<ShelfPriority, MessageKey> = {
+  high: 'priority.high',
+  normal: 'priority.normal',
+  low: 'priority.low'
+};
+
+/**
+ * Planogram Registry - What each fill-sensor region holds and where it is
+ *
+ * Entries without a store apply to every store, so a standard shop layout
+ * only needs to be entered once; store-specific entries override it region
+ * by region. Regions without an entry fall back to their sensor name.
+ */
+export class PlanogramRegistry {
+  private entries: PlanogramEntry[] = [];
+  private listeners: Array<(entries: PlanogramEntry[]) => void> = [];
+
+  constructor() {
+    this.loadFromStorage();
+  }
+
+  /**
+   * Get entries, or the effective layout of one store when a store is given
+   */
+  getEntries(storeId?: string): PlanogramEntry[] {
+    if (storeId === undefined) {
+      return this.entries.map(entry => ({ ...entry }));
+    }
+
+    const own = this.entries.filter(e => e.storeId === storeId);
+    const shared = this.entries.filter(e => !e.storeId && !own.some(o => o.region === e.region));
+    return [...own, ...shared]
+      .map(entry => ({ ...entry }))
+      .sort((a, b) => a.fixture.localeCompare(b.fixture) || a.shelf - b.shelf);
+  }
+
+  /**
+   * Find the entry for a store region, store-specific entries first
+   */
+  getEntry(storeId: string, region: string): PlanogramEntry | undefined {
+    return this.entries.find(e => e.storeId === storeId && e.region === region)
+      || this.entries.find(e => !e.storeId && e.region === region);
+  }
+
+  /**
+   * Describe a region for people, e.g. "Chicken Caesar baguette, fridge 2 shelf 3"
+   */
+  describe(storeId: string, region: string): string {
+    const entry = this.getEntry(storeId, region);
+    return entry ? `${entry.product}, ${this.getLocation(entry)}` : region;
+  }
+
+  getLocation(entry: PlanogramEntry): string {
+    return t('planogram.location', { fixture: entry.fixture, shelf: entry.shelf });
+  }
+
+  /**
+   * Estimate units left on a shelf from its fill level
+   */
+  estimateUnits(entry: PlanogramEntry, fillPercent: number): number {
+    return Math.max(0, Math.round(entry.capacity * fillPercent / 100));
+  }
+
+  /**
+   * Shift a shelf alert's severity by the priority of what the shelf holds
+   */
+  adjustSeverity(storeId: string, region: string, severity: Alert['severity']): Alert['severity'] {
+    const priority = this.getEntry(storeId, region)?.priority;
+    const index = SEVERITY_ORDER.indexOf(severity);
+    const shift = priority === 'high' ? 1 : priority === 'low' ? -1 : 0;
+    return SEVERITY_ORDER[Math.max(0, Math.min(SEVERITY_ORDER.length - 1, index + shift))];
+  }
+
+  /**
+   * Validate an entry. Returns error messages, empty when valid.
+   */
+  validateEntry(entry: Partial<PlanogramEntry>): string[] {
+    const errors: string[] = [];
+
+    if (!entry.region || validation.isEmpty(entry.region)) {
+      errors.push(t('planogram.error.region'));
+    }
+    if (!entry.product || validation.isEmpty(entry.product)) {
+      errors.push(t('planogram.error.product'));
+    }
+    if (!entry.fixture || validation.isEmpty(entry.fixture)) {
+      errors.push(t('planogram.error.fixture'));
+    }
+    if (!Number.isInteger(entry.shelf) || entry.shelf! < 1) {
+      errors.push(t('planogram.error.shelf'));
+    }
+    if (!Number.isInteger(entry.capacity) || entry.capacity! < 1) {
+      errors.push(t('planogram.error.capacity'));
+    }
+    if (!entry.priority || !(entry.priority in SHELF_PRIORITIES)) {
+      errors.push(t('planogram.error.priority'));
+    }
+
+    return errors;
+  }
+
+  /**
+   * Add or replace the entry for a store region. Pass the previous store and
+   * region when an edit moves the entry. Returns validation errors, empty on success.
+   */
+  saveEntry(entry: PlanogramEntry, previous?: { storeId?: string; region: string }): string[] {
+    const errors = this.validateEntry(entry);
+    if (errors.length > 0) return errors;
+
+    const saved = this.normalizeEntry(entry);
+    const replaced = (e: PlanogramEntry, key: { storeId?: string; region: string }) =>
+      (e.storeId || undefined) === (key.storeId || undefined) && e.region === key.region;
+
+    this.entries = this.entries.filter(e => !replaced(e, saved) && !(previous && replaced(e, previous)));
+    this.entries.push(saved);
+
+    this.saveToStorage();
+    this.notifyListeners();
+    return [];
+  }
+
+  deleteEntry(storeId: string | undefined, region: string): void {
+    this.entries = this.entries.filter(e => !((e.storeId || undefined) === storeId && e.region === region));
+    this.saveToStorage();
+    this.notifyListeners();
+  }
+
+  /**
+   * Export the planogram as a versioned JSON document
+   */
+  exportDocument(): string {
+    return JSON.stringify(this.toDocument(), null, 2);
+  }
+
+  /**
+   * Replace the planogram with an imported JSON document.
+   * Returns validation errors, empty on success.
+   */
+  importDocument(jsonData: string): string[] {
+    let data: any;
+    try {
+      data = JSON.parse(jsonData);
+    } catch {
+      return [t('validation.invalidJson')];
+    }
+
+    if (!data || typeof data !== 'object') {
+      return [t('validation.notObject')];
+    }
+    if (typeof data.version !== 'number' || data.version > PLANOGRAM_VERSION) {
+      return [t('planogram.error.version', { version: String(data.version) })];
+    }
+    if (!Array.isArray(data.entries)) {
+      return [t('planogram.error.entries')];
+    }
+
+    const errors: string[] = [];
+    const incoming: PlanogramEntry[] = [];
+    (data.entries as PlanogramEntry[]).forEach((entry, i) => {
+      const entryErrors = this.validateEntry(entry || {});
+      const key = `${entry?.storeId || '*'}/${entry?.region}`;
+      if (entryErrors.length > 0) {
+        errors.push(...entryErrors.map(error => t('planogram.error.entry', { index: i + 1, key, error })));
+      } else if (incoming.some(e => `${e.storeId || '*'}/${e.region}` === key)) {
+        errors.push(t('planogram.error.duplicate', { index: i + 1, key }));
+      } else {
+        incoming.push(this.normalizeEntry(entry));
+      }
+    });
+
+    if (errors.length > 0) return errors;
+
+    this.entries = incoming;
+    this.saveToStorage();
+    this.notifyListeners();
+    return [];
+  }
+
+  /**
+   * Subscribe to planogram changes
+   */
+  subscribe(listener: (entries: PlanogramEntry[]) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private normalizeEntry(entry: PlanogramEntry): PlanogramEntry {
+    return {
+      ...(entry.storeId?.trim() ? { storeId: entry.storeId.trim() } : {}),
+      region: entry.region.trim(),
+      product: entry.product.trim(),
+      ...(entry.category?.trim() ? { category: entry.category.trim() } : {}),
+      fixture: entry.fixture.trim(),
+      shelf: entry.shelf,
+      capacity: entry.capacity,
+      priority: entry.priority
+    };
+  }
+
+  private toDocument(): PlanogramDocument {
+    return {
+      version: PLANOGRAM_VERSION,
+      updatedAt: new Date().toISOString(),
+      entries: this.entries
+    };
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => listener(this.getEntries()));
+  }
+
+  private saveToStorage(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.toDocument()));
+    } catch (error) {
+      console.warn('Failed to save planogram:', error);
+    }
+  }
+
+  private loadFromStorage(): void {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const document: PlanogramDocument = JSON.parse(stored);
+        this.entries = (document.entries || []).filter(entry => entry && this.validateEntry(entry).length === 0);
+      }
+    } catch (error) {
+      console.warn('Failed to load planogram:', error);
+    }
+  }
+}
@@ -0,0 +1,445 @@
+// src/rules.ts - Configurable per-store, per-component alert rules
+import type { Alert, AlertRule, LocalizedText, RuleMatch, RuleOperator, RuleSensor, SensorReading, StoreLocation } from './types';
+import { calculateAlertSeverity, generateId, validation } from './utils';
+import { localize, t, text } from './i18n';
+import { getStoreTime } from './hours';
+import type { MessageKey } from './i18n';
+
+const STORAGE_KEY = 'pret-alert-rules';
+
+export const RULE_OPERATORS: RuleOperator[] = ['<', '<=', '>', '>=', 'outside', 'rises_by', 'falls_by'];
+
+export const RULE_OPERATOR_LABELS: Record<RuleOperator, MessageKey> = {
+  '<': 'ruleOperator.lt',
+  '<=': 'ruleOperator.le',
+  '>': 'ruleOperator.gt',
+  '>=': 'ruleOperator.ge',
+  outside: 'ruleOperator.outside',
+  rises_by: 'ruleOperator.rises_by',
+  falls_by: 'ruleOperator.falls_by'
+};
+
+const RATE_OPERATORS: RuleOperator[] = ['rises_by', 'falls_by'];
+
+/** Longest window a rate rule can look back over; readings are kept this long */
+export const MAX_RATE_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Built-in rules matching the original hardcoded thresholds
+ */
+export const DEFAULT_RULES: AlertRule[] = [
+  {
+    id: 'default-empty-shelf',
+    name: 'Empty shelf',
+    enabled: true,
+    sensor: 'fill',
+    componentPattern: '*',
+    operator: '<',
+    threshold: 15,
+    minDurationMs: 0
+  },
+  {
+    id: 'default-temperature-range',
+    name: 'Chilled range',
+    enabled: true,
+    sensor: 'temperature',
+    componentPattern: '*',
+    operator: 'outside',
+    threshold: 0,
+    thresholdHigh: 5,
+    minDurationMs: 5 * 60 * 1000  // ride out door openings
+  },
+  {
+    id: 'default-temperature-rise',
+    name: 'Rapid temperature rise',
+    enabled: true,
+    sensor: 'temperature',
+    componentPattern: '*',
+    operator: 'rises_by',
+    threshold: 3,
+    windowMs: 10 * 60 * 1000,
+    minDurationMs: 0
+  }
+];
+
+/**
+ * Whether a rule watches the rate of change rather than the level
+ */
+export function isRateRule(rule: Pick<AlertRule, 'operator'>): boolean {
+  return RATE_OPERATORS.includes(rule.operator);
+}
+
+/**
+ * Alert Rules Engine - Evaluates sensor readings against configured rules
+ *
+ * For each reading only the most specific matching rules apply: a rule for
+ * a named store beats an all-stores rule, and an exact component name beats
+ * a wildcard pattern. This lets a chilled cabinet override the shop default
+ * without the default also firing. Level rules and rate rules are ranked
+ * separately, so a freezer with its own range keeps the shop's rate rule.
+ *
+ * Rate rules compare a reading with the lowest (or highest) reading of the
+ * same component within the rule's window.
+ */
+export class AlertRulesEngine {
+  private rules: AlertRule[] = [];
+  private breaches = new Map<string, number>();
+  private recent = new Map<string, Array<{ time: number; value: number }>>();
+
+  constructor() {
+    this.loadFromStorage();
+  }
+
+
+  /**
+   * Get all configured rules
+   */
+  getRules(): AlertRule[] {
+    return this.rules.map(rule => ({ ...rule }));
+  }
+
+  /**
+   * Get a rule by ID
+   */
+  getRule(ruleId: string): AlertRule | undefined {
+    return this.rules.find(r => r.id === ruleId);
+  }
+
+  /**
+   * Validate a rule. Returns error messages, empty when valid.
+   */
+  validateRule(rule: Partial<AlertRule>): string[] {
+    const errors: string[] = [];
+
+    if (!rule.name || validation.isEmpty(rule.name)) {
+      errors.push(t('validation.nameRequired'));
+    }
+    if (rule.sensor !== 'fill' && rule.sensor !== 'temperature') {
+      errors.push(t('rule.error.sensor'));
+    }
+    if (!rule.componentPattern || validation.isEmpty(rule.componentPattern)) {
+      errors.push(t('rule.error.componentPattern'));
+    }
+    if (!rule.operator || !RULE_OPERATORS.includes(rule.operator)) {
+      errors.push(t('rule.error.operator'));
+    }
+    if (typeof rule.threshold !== 'number' || !Number.isFinite(rule.threshold)) {
+      errors.push(t('rule.error.threshold'));
+    } else if (rule.operator === 'outside' &&
+        (typeof rule.thresholdHigh !== 'number' || !Number.isFinite(rule.thresholdHigh) || rule.thresholdHigh <= rule.threshold)) {
+      errors.push(t('rule.error.range'));
+    } else if (rule.operator && RATE_OPERATORS.includes(rule.operator)) {
+      if (rule.threshold <= 0) {
+        errors.push(t('rule.error.change'));
+      }
+      if (typeof rule.windowMs !== 'number' || rule.windowMs <= 0 || rule.windowMs > MAX_RATE_WINDOW_MS) {
+        errors.push(t('rule.error.window', { max: MAX_RATE_WINDOW_MS / 60000 }));
+      }
+    }
+    if (typeof rule.minDurationMs !== 'number' || rule.minDurationMs < 0) {
+      errors.push(t('rule.error.minDuration'));
+    }
+    if (rule.activeHours) {
+      const { start, end } = rule.activeHours;
+      const isHour = (h: number) => Number.isInteger(h) && h >= 0 && h <= 23;
+      if (!isHour(start) || !isHour(end) || start === end) {
+        errors.push(t('rule.error.activeHours'));
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Add or replace a rule. Returns validation errors, empty on success.
+   */
+  saveRule(rule: Omit<AlertRule, 'id'> & { id?: string }): string[] {
+    const errors = this.validateRule(rule);
+    if (errors.length > 0) return errors;
+
+    const saved: AlertRule = { ...rule, id: rule.id || generateId() };
+    const index = this.rules.findIndex(r => r.id === saved.id);
+    if (index === -1) {
+      this.rules.push(saved);
+    } else {
+      this.rules[index] = saved;
+    }
+
+    this.clearBreaches(saved.id);
+    this.saveToStorage();
+    return [];
+  }
+
+  /**
+   * Delete a rule
+   */
+  deleteRule(ruleId: string): void {
+    this.rules = this.rules.filter(r => r.id !== ruleId);
+    this.clearBreaches(ruleId);
+    this.saveToStorage();
+  }
+
+  /**
+   * Restore the built-in rule set
+   */
+  resetToDefaults(): void {
+    this.rules = DEFAULT_RULES.map(rule => ({ ...rule }));
+    this.breaches.clear();
+    this.saveToStorage();
+  }
+
+  /**
+   * Evaluate a reading against the rules for its store and component
+   */
+  evaluate(store: StoreLocation, sensor: RuleSensor, reading: SensorReading, now: Date = new Date()): RuleMatch[] {
+    if (typeof reading.reading !== 'number') return [];
+
+    const value = reading.reading;
+    const matches: RuleMatch[] = [];
+    const recent = this.recordRecent(`${store.id}:${sensor}:${reading.componentName}`, value, now.getTime());
+
+    for (const rule of this.getApplicableRules(store.id, sensor, reading.componentName)) {
+      const breachKey = `${rule.id}:${store.id}:${reading.componentName}`;
+      const deviation = this.getDeviation(rule, value, recent, now.getTime());
+
+      if (!this.isWithinActiveHours(rule, store, now) || deviation === null) {
+        this.breaches.delete(breachKey);
+        continue;
+      }
+
+      const startedAt = this.breaches.get(breachKey) ?? now.getTime();
+      this.breaches.set(breachKey, startedAt);
+
+      const durationMs = now.getTime() - startedAt;
+      if (durationMs < rule.minDurationMs) continue;
+
+      const type: Alert['type'] = sensor === 'fill' ? 'empty_shelf' : 'temperature';
+      matches.push({
+        rule,
+        reading,
+        type,
+        severity: rule.severity || this.getSeverity(rule, type, value, deviation),
+        threshold: rule.operator === 'outside' && value > rule.thresholdHigh! ? rule.thresholdHigh! : rule.threshold,
+        ...this.formatMessage(rule, value, deviation, durationMs),
+        breachStartedAt: new Date(startedAt).toISOString()
+      });
+    }
+
+    return matches;
+  }
+
+  /**
+   * Check whether a reading is back within every rule for its component.
+   * False while any of those rules is outside its active hours, as it cannot
+   * vouch for the reading then. Call after evaluate, which records the
+   * reading for rate rules.
+   */
+  isInRange(store: StoreLocation, sensor: RuleSensor, reading: SensorReading, now: Date = new Date()): boolean {
+    if (typeof reading.reading !== 'number') return false;
+
+    const value = reading.reading;
+    const recent = this.recent.get(`${store.id}:${sensor}:${reading.componentName}`) || [];
+    return this.getApplicableRules(store.id, sensor, reading.componentName).every(rule =>
+      this.isWithinActiveHours(rule, store, now) &&
+      this.getDeviation(rule, value, recent, now.getTime()) === null
+    );
+  }
+
+  /**
+   * Get the most specific enabled level rules and rate rules for a store component
+   */
+  getApplicableRules(storeId: string, sensor: RuleSensor, componentName: string): AlertRule[] {
+    const candidates = this.rules.filter(rule =>
+      rule.enabled &&
+      rule.sensor === sensor &&
+      (!rule.storeId || rule.storeId === storeId) &&
+      this.matchesPattern(rule.componentPattern, componentName)
+    );
+
+    const mostSpecific = (rules: AlertRule[]) => {
+      if (rules.length === 0) return [];
+      const best = Math.max(...rules.map(rule => this.getSpecificity(rule)));
+      return rules.filter(rule => this.getSpecificity(rule) === best);
+    };
+
+    return [
+      ...mostSpecific(candidates.filter(rule => !isRateRule(rule))),
+      ...mostSpecific(candidates.filter(rule => isRateRule(rule)))
+    ];
+  }
+
+  /**
+   * The safe range a component's level rules allow, e.g. 0 to 5 for a
+   * chilled range or only a maximum for a '>' rule. Where rules tie, the
+   * tightest limits win.
+   */
+  getLimits(storeId: string, sensor: RuleSensor, componentName: string): { min?: number; max?: number } {
+    const limits: { min?: number; max?: number } = {};
+    const raiseMin = (min: number) => { limits.min = Math.max(min, limits.min ?? min); };
+    const lowerMax = (max: number) => { limits.max = Math.min(max, limits.max ?? max); };
+
+    for (const rule of this.getApplicableRules(storeId, sensor, componentName)) {
+      switch (rule.operator) {
+        case 'outside':
+          raiseMin(rule.threshold);
+          lowerMax(rule.thresholdHigh!);
+          break;
+        case '<':
+        case '<=':
+          raiseMin(rule.threshold);
+          break;
+        case '>':
+        case '>=':
+          lowerMax(rule.threshold);
+          break;
+      }
+    }
+    return limits;
+  }
+
+  /**
+   * Levels to draw on a chart for a rule; rate rules have none
+   */
+  getThresholdLines(rule: AlertRule): number[] {
+    if (isRateRule(rule)) return [];
+    return rule.operator === 'outside' ? [rule.threshold, rule.thresholdHigh!] : [rule.threshold];
+  }
+
+  private getSpecificity(rule: AlertRule): number {
+    let score = rule.storeId ? 2 : 0;
+    if (!rule.componentPattern.includes('*')) {
+      score += 2;
+    } else if (rule.componentPattern !== '*') {
+      score += 1;
+    }
+    return score;
+  }
+
+  private matchesPattern(pattern: string, componentName: string): boolean {
+    const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`^${escaped.join('.*')}$`).test(componentName);
+  }
+
+  /**
+   * How far a reading breaches a rule: past the threshold for level rules,
+   * the change over the window for rate rules. Null when not breaching.
+   */
+  private getDeviation(rule: AlertRule, value: number, recent: Array<{ time: number; value: number }>, now: number): number | null {
+    const { threshold } = rule;
+    switch (rule.operator) {
+      case '<': return value < threshold ? threshold - value : null;
+      case '<=': return value <= threshold ? threshold - value : null;
+      case '>': return value > threshold ? value - threshold : null;
+      case '>=': return value >= threshold ? value - threshold : null;
+      case 'outside':
+        if (value < threshold) return threshold - value;
+        if (value > rule.thresholdHigh!) return value - rule.thresholdHigh!;
+        return null;
+      case 'rises_by':
+      case 'falls_by': {
+        const window = recent.filter(sample => sample.time >= now - rule.windowMs!).map(sample => sample.value);
+        const change = rule.operator === 'rises_by' ? value - Math.min(...window) : Math.max(...window) - value;
+        return change >= threshold ? change : null;
+      }
+      default: return null;
+    }
+  }
+
+  /**
+   * Severity for range and rate rules grows with the deviation rather than
+   * the reading, so a freezer at -18°C is judged against its own range
+   */
+  private getSeverity(rule: AlertRule, type: Alert['type'], value: number, deviation: number): Alert['severity'] {
+    if (rule.operator !== 'outside' && !isRateRule(rule)) {
+      return calculateAlertSeverity(type, type === 'empty_shelf' ? { fillPercent: value } : { temperature: value });
+    }
+    if (deviation > 5) return 'critical';
+    if (deviation > 3) return 'high';
+    if (deviation > 1) return 'medium';
+    return 'low';
+  }
+
+  /**
+   * Keep a component's readings for rate rules. Returns the readings within
+   * MAX_RATE_WINDOW_MS, including this one.
+   */
+  private recordRecent(key: string, value: number, now: number): Array<{ time: number; value: number }> {
+    const recent = (this.recent.get(key) || []).filter(sample => sample.time >= now - MAX_RATE_WINDOW_MS);
+    recent.push({ time: now, value });
+    this.recent.set(key, recent);
+    return recent;
+  }
+
+  /**
+   * Active hours are in the store's time zone
+   */
+  private isWithinActiveHours(rule: AlertRule, store: StoreLocation, now: Date): boolean {
+    if (!rule.activeHours) return true;
+
+    const { hour } = getStoreTime(store, now);
+    const { start, end } = rule.activeHours;
+
+    // Windows such as 22 -> 6 wrap past midnight
+    return start < end
+      ? hour >= start && hour < end
+      : hour >= start || hour < end;
+  }
+
+  /**
+   * The match message, as catalog text and rendered in the current language
+   */
+  private formatMessage(rule: AlertRule, value: number, deviation: number, durationMs: number): { message: string; text: LocalizedText } {
+    const params = {
+      value,
+      deviation,
+      duration: durationMs,
+      operator: rule.operator,
+      threshold: rule.threshold,
+      thresholdHigh: rule.thresholdHigh ?? '',
+      window: rule.windowMs ? Math.round(rule.windowMs / 60000) : ''
+    };
+    const condition = rule.operator === 'outside' ? 'range' : isRateRule(rule) ? 'rate' : 'threshold';
+
+    let key: MessageKey;
+    if (rule.sensor === 'fill') {
+      key = `rule.fill.${condition}`;
+    } else if (condition === 'rate') {
+      key = rule.operator === 'rises_by' ? 'rule.temperature.rises' : 'rule.temperature.falls';
+    } else {
+      key = `rule.temperature.${condition}`;
+    }
+
+    const message = text(key, params);
+    return { message: localize(message), text: message };
+  }
+
+  private clearBreaches(ruleId: string): void {
+    for (const key of this.breaches.keys()) {
+      if (key.startsWith(`${ruleId}:`)) {
+        this.breaches.delete(key);
+      }
+    }
+  }
+
+  private saveToStorage(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.rules));
+    } catch (error) {
+      console.warn('Failed to save alert rules:', error);
+    }
+  }
+
+  private loadFromStorage(): void {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const parsed: AlertRule[] = JSON.parse(stored);
+        this.rules = parsed.filter(rule => rule && rule.id && this.validateRule(rule).length === 0);
+        return;
+      }
+    } catch (error) {
+      console.warn('Failed to load alert rules:', error);
+    }
+    this.rules = DEFAULT_RULES.map(rule => ({ ...rule }));
+  }
+}
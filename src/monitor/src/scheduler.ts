@@ -0,0 +1,497 @@
+// src/scheduler.ts - Adaptive per-store polling
+import type { PollOutcome, PollResult, PollingReason, PollingSchedule, PollingSettings } from './types';
+import { withTimeout } from './utils';
+import { t } from './i18n';
+
+const STORAGE_KEY = 'pret-polling-settings';
+
+export const DEFAULT_POLLING_SETTINGS: PollingSettings = {
+  alertIntervalMs: 10000,
+  closedIntervalMs: 5 * 60 * 1000,
+  hiddenBehavior: 'throttle',
+  hiddenIntervalMs: 2 * 60 * 1000,
+  lowBatteryLevel: 0.2,
+  lowBatteryMultiplier: 3,
+  jitter: 0.1,
+  maxConcurrent: 6,
+  callTimeoutMs: 10000,
+  pollTimeoutMs: 30000
+};
+
+/** Bounds for the adaptive polling settings */
+export const MIN_POLLING_INTERVAL = 1000;
+export const MAX_POLLING_INTERVAL = 60 * 60 * 1000;
+export const MAX_JITTER = 0.5;
+export const MAX_CONCURRENT_POLLS = 20;
+const MIN_TIMEOUT_MS = 1000;
+
+/** Delay before the first poll of a newly scheduled store */
+const INITIAL_DELAY_MS = 1000;
+
+export interface StoreConditions {
+  hasActiveAlerts: boolean;
+  isOpen: boolean;
+}
+
+/**
+ * Handed to each poll: machine calls made through `call` get the per-call
+ * timeout, are timed for the poll result and stop when the poll is cancelled
+ */
+export interface PollContext {
+  signal: AbortSignal;
+  call<T>(name: string, fn: () => Promise<T>, fallback: T): Promise<T>;
+}
+
+/** Subset of the Battery Status API we use */
+interface BatteryStatus extends EventTarget {
+  charging: boolean;
+  level: number;
+}
+
+/** The Battery Status API isn't in every browser, nor in the DOM typings */
+interface BatteryNavigator extends Navigator {
+  getBattery?(): Promise<BatteryStatus>;
+}
+
+interface StoreTimer {
+  timer: ReturnType<typeof setTimeout> | null;
+  running: boolean;
+  queuedAt: number | null;
+  controller: AbortController | null;
+  schedule: PollingSchedule;
+}
+
+/**
+ * Polling Scheduler - Polls each store on its own cadence
+ *
+ * The base interval comes from AppSettings.updateInterval. Stores with
+ * unresolved alerts poll faster, closed stores slower, and everything slows
+ * down (or pauses) while the page is hidden or the battery is low.
+ *
+ * At most `maxConcurrent` stores poll at once; the rest queue for a slot.
+ * Each poll is cancelled after `pollTimeoutMs` or when its store is removed,
+ * and gives up its slot right then even if the poll itself never settles,
+ * so one hung machine cannot hold up the others.
+ */
+export class PollingScheduler {
+  private timers = new Map<string, StoreTimer>();
+  private queue: string[] = [];
+  private active = 0;
+  private poll: (storeId: string, context: PollContext) => Promise<void>;
+  private getConditions: (storeId: string) => StoreConditions;
+  private baseIntervalMs: number;
+  private settings: PollingSettings;
+  private hidden = document.visibilityState === 'hidden';
+  private battery: BatteryStatus | null = null;
+  private listening = false;
+
+  constructor(
+    poll: (storeId: string, context: PollContext) => Promise<void>,
+    getConditions: (storeId: string) => StoreConditions,
+    baseIntervalMs: number
+  ) {
+    this.poll = poll;
+    this.getConditions = getConditions;
+    this.baseIntervalMs = baseIntervalMs;
+    this.settings = this.loadSettings();
+  }
+
+  /**
+   * Start polling the given stores
+   */
+  start(storeIds: string[]): void {
+    if (!this.listening) {
+      this.listening = true;
+      document.addEventListener('visibilitychange', () => {
+        this.hidden = document.visibilityState === 'hidden';
+        this.refresh();
+      });
+      this.watchBattery();
+    }
+    this.setStores(storeIds);
+  }
+
+  /**
+   * Stop polling all stores
+   */
+  stop(): void {
+    for (const storeId of Array.from(this.timers.keys())) {
+      this.remove(storeId);
+    }
+  }
+
+  /**
+   * Replace the set of polled stores
+   */
+  setStores(storeIds: string[]): void {
+    for (const storeId of Array.from(this.timers.keys())) {
+      if (!storeIds.includes(storeId)) {
+        this.remove(storeId);
+      }
+    }
+
+    for (const storeId of storeIds) {
+      if (this.timers.has(storeId)) continue;
+
+      this.timers.set(storeId, {
+        timer: null,
+        running: false,
+        queuedAt: null,
+        controller: null,
+        schedule: { storeId, intervalMs: null, reason: 'normal', nextPollAt: null }
+      });
+      this.scheduleIn(storeId, INITIAL_DELAY_MS);
+    }
+  }
+
+  /**
+   * Poll a store immediately and restart its cadence
+   */
+  pollNow(storeId: string): void {
+    const entry = this.timers.get(storeId);
+    if (!entry || entry.running || entry.queuedAt !== null) return;
+
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.timer = null;
+    this.run(storeId);
+  }
+
+  /**
+   * Set the base polling interval (AppSettings.updateInterval)
+   */
+  setBaseInterval(intervalMs: number): void {
+    this.baseIntervalMs = intervalMs;
+    this.refresh();
+  }
+
+  getSettings(): PollingSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Validate polling settings. Returns error messages, empty when valid.
+   */
+  validateSettings(settings: PollingSettings): string[] {
+    const errors: string[] = [];
+    const inRange = (value: number, min: number, max: number) => Number.isFinite(value) && value >= min && value <= max;
+
+    if (![settings.alertIntervalMs, settings.closedIntervalMs, settings.hiddenIntervalMs]
+      .every(value => inRange(value, MIN_POLLING_INTERVAL, MAX_POLLING_INTERVAL))) {
+      errors.push(t('polling.error.interval', { min: MIN_POLLING_INTERVAL / 1000, max: MAX_POLLING_INTERVAL / 60000 }));
+    }
+    if (settings.hiddenBehavior !== 'pause' && settings.hiddenBehavior !== 'throttle') {
+      errors.push(t('polling.error.hiddenBehavior'));
+    }
+    if (!inRange(settings.lowBatteryLevel, 0, 1)) {
+      errors.push(t('polling.error.lowBatteryLevel'));
+    }
+    if (!inRange(settings.lowBatteryMultiplier, 1, Infinity)) {
+      errors.push(t('polling.error.lowBatteryMultiplier'));
+    }
+    if (!inRange(settings.jitter, 0, MAX_JITTER)) {
+      errors.push(t('polling.error.jitter', { max: MAX_JITTER * 100 }));
+    }
+    if (!Number.isInteger(settings.maxConcurrent) || !inRange(settings.maxConcurrent, 1, MAX_CONCURRENT_POLLS)) {
+      errors.push(t('polling.error.maxConcurrent', { max: MAX_CONCURRENT_POLLS }));
+    }
+    if (!inRange(settings.callTimeoutMs, MIN_TIMEOUT_MS, Infinity)
+      || !inRange(settings.pollTimeoutMs, MIN_TIMEOUT_MS, Infinity)
+      || settings.callTimeoutMs > settings.pollTimeoutMs) {
+      errors.push(t('polling.error.timeouts'));
+    }
+
+    return errors;
+  }
+
+  /**
+   * Update polling settings and re-plan every store. Returns validation
+   * errors, empty on success.
+   */
+  updateSettings(updates: Partial<PollingSettings>): string[] {
+    const updated = { ...this.settings, ...updates };
+    const errors = this.validateSettings(updated);
+    if (errors.length > 0) return errors;
+
+    this.settings = updated;
+    this.saveSettings();
+    this.refresh();
+    this.drainQueue();
+    return [];
+  }
+
+  getSchedule(storeId: string): PollingSchedule | undefined {
+    const entry = this.timers.get(storeId);
+    return entry ? { ...entry.schedule } : undefined;
+  }
+
+  /**
+   * Re-evaluate every store's cadence after conditions changed. A store is
+   * brought forward when its new interval is shorter than the time left,
+   * otherwise the new interval applies from its next poll.
+   */
+  refresh(): void {
+    const now = Date.now();
+
+    for (const [storeId, entry] of this.timers) {
+      if (entry.running || entry.queuedAt !== null) continue;
+
+      const { intervalMs, reason } = this.getInterval(storeId);
+      if (intervalMs === null) {
+        if (entry.timer) clearTimeout(entry.timer);
+        entry.timer = null;
+        entry.schedule = { ...entry.schedule, intervalMs, reason, nextPollAt: null };
+        continue;
+      }
+
+      const lastPoll = entry.schedule.lastPollAt ? new Date(entry.schedule.lastPollAt).getTime() : now;
+      const due = lastPoll + intervalMs;
+      const scheduled = entry.schedule.nextPollAt ? new Date(entry.schedule.nextPollAt).getTime() : Infinity;
+
+      if (!entry.timer || due < scheduled) {
+        this.scheduleIn(storeId, Math.max(0, due - now));
+      }
+    }
+  }
+
+  /**
+   * Work out the polling interval for a store right now
+   */
+  getInterval(storeId: string): { intervalMs: number | null; reason: PollingReason } {
+    if (this.hidden && this.settings.hiddenBehavior === 'pause') {
+      return { intervalMs: null, reason: 'paused' };
+    }
+
+    const conditions = this.getConditions(storeId);
+    let intervalMs = this.baseIntervalMs;
+    let reason: PollingReason = 'normal';
+
+    if (conditions.hasActiveAlerts) {
+      intervalMs = Math.min(intervalMs, this.settings.alertIntervalMs);
+      reason = 'alerts';
+    } else if (!conditions.isOpen) {
+      intervalMs = Math.max(intervalMs, this.settings.closedIntervalMs);
+      reason = 'closed';
+    }
+
+    if (this.hidden) {
+      intervalMs = Math.max(intervalMs, this.settings.hiddenIntervalMs);
+      reason = 'hidden';
+    }
+
+    if (this.isLowBattery()) {
+      intervalMs *= this.settings.lowBatteryMultiplier;
+      reason = 'low_battery';
+    }
+
+    return { intervalMs, reason };
+  }
+
+  private run(storeId: string): void {
+    const entry = this.timers.get(storeId);
+    if (!entry || entry.running) return;
+
+    if (this.active >= this.settings.maxConcurrent) {
+      if (entry.queuedAt === null) {
+        entry.queuedAt = Date.now();
+        this.queue.push(storeId);
+      }
+      return;
+    }
+
+    this.execute(storeId, entry);
+  }
+
+  private async execute(storeId: string, entry: StoreTimer): Promise<void> {
+    const startedAt = Date.now();
+    const queuedMs = entry.queuedAt === null ? 0 : startedAt - entry.queuedAt;
+    entry.queuedAt = null;
+    entry.running = true;
+    this.active++;
+
+    const controller = new AbortController();
+    entry.controller = controller;
+    const deadline = setTimeout(() => {
+      controller.abort(new DOMException('Poll timed out', 'TimeoutError'));
+    }, this.settings.pollTimeoutMs);
+    const cancelled = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+    });
+
+    const calls: PollResult['calls'] = {};
+    const context: PollContext = {
+      signal: controller.signal,
+      call: (name, fn, fallback) => this.timeCall(storeId, name, fn, fallback, controller.signal, calls)
+    };
+
+    let error: string | undefined;
+    try {
+      // Stop waiting once the poll is cancelled, whether or not it notices
+      await Promise.race([this.poll(storeId, context), cancelled]);
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      if (!controller.signal.aborted) {
+        console.warn(`Polling failed for ${storeId}:`, err);
+      }
+    } finally {
+      clearTimeout(deadline);
+      entry.running = false;
+      entry.controller = null;
+      this.active--;
+    }
+
+    const callOutcomes = Object.values(calls).map(c => c.outcome);
+    let outcome: PollOutcome = 'ok';
+    if (controller.signal.aborted) {
+      outcome = controller.signal.reason?.name === 'TimeoutError' ? 'timeout' : 'cancelled';
+    } else if (error || callOutcomes.includes('error')) {
+      outcome = 'error';
+    } else if (callOutcomes.includes('timeout')) {
+      outcome = 'timeout';
+    }
+
+    entry.schedule.lastPollAt = new Date().toISOString();
+    entry.schedule.lastResult = {
+      storeId,
+      startedAt: new Date(startedAt).toISOString(),
+      durationMs: Date.now() - startedAt,
+      queuedMs,
+      outcome,
+      calls,
+      error
+    };
+
+    this.drainQueue();
+
+    // Store may have been removed while polling
+    if (this.timers.get(storeId) !== entry) return;
+
+    const { intervalMs } = this.getInterval(storeId);
+    if (intervalMs === null) {
+      this.refresh();
+    } else {
+      this.scheduleIn(storeId, intervalMs);
+    }
+  }
+
+  private scheduleIn(storeId: string, delayMs: number): void {
+    const entry = this.timers.get(storeId);
+    if (!entry) return;
+
+    if (entry.timer) clearTimeout(entry.timer);
+
+    const { intervalMs, reason } = this.getInterval(storeId);
+    if (intervalMs === null) {
+      entry.timer = null;
+      entry.schedule = { ...entry.schedule, intervalMs, reason, nextPollAt: null };
+      return;
+    }
+
+    // Spread polls out so stores don't all hit the network at once
+    const jitter = delayMs * this.settings.jitter * (Math.random() * 2 - 1);
+    const delay = Math.max(0, Math.round(delayMs + jitter));
+
+    entry.timer = setTimeout(() => {
+      entry.timer = null;
+      this.run(storeId);
+    }, delay);
+    entry.schedule = {
+      ...entry.schedule,
+      intervalMs,
+      reason,
+      nextPollAt: new Date(Date.now() + delay).toISOString()
+    };
+  }
+
+  /**
+   * Run a machine call with the per-call timeout. Failures and timeouts
+   * return the fallback so one missing sensor doesn't sink the whole poll;
+   * cancellation rejects so the poll stops.
+   */
+  private async timeCall<T>(
+    storeId: string,
+    name: string,
+    fn: () => Promise<T>,
+    fallback: T,
+    signal: AbortSignal,
+    calls: PollResult['calls']
+  ): Promise<T> {
+    const started = Date.now();
+    try {
+      const result = await withTimeout(fn(), this.settings.callTimeoutMs, `${name} timed out`, signal);
+      calls[name] = { durationMs: Date.now() - started, outcome: 'ok' };
+      return result;
+    } catch (error) {
+      const durationMs = Date.now() - started;
+      if (signal.aborted) {
+        calls[name] = { durationMs, outcome: 'cancelled' };
+        throw error;
+      }
+
+      const timedOut = error instanceof DOMException && error.name === 'TimeoutError';
+      calls[name] = { durationMs, outcome: timedOut ? 'timeout' : 'error' };
+      console.warn(`${name} call failed for ${storeId}:`, error);
+      return fallback;
+    }
+  }
+
+  private drainQueue(): void {
+    while (this.active < this.settings.maxConcurrent && this.queue.length > 0) {
+      const storeId = this.queue.shift()!;
+      const entry = this.timers.get(storeId);
+      if (entry && !entry.running) {
+        this.execute(storeId, entry);
+      }
+    }
+  }
+
+  private remove(storeId: string): void {
+    const entry = this.timers.get(storeId);
+    if (entry?.timer) clearTimeout(entry.timer);
+    entry?.controller?.abort();
+    this.queue = this.queue.filter(id => id !== storeId);
+    this.timers.delete(storeId);
+  }
+
+  private isLowBattery(): boolean {
+    return !!this.battery &&
+      !this.battery.charging &&
+      this.battery.level < this.settings.lowBatteryLevel;
+  }
+
+  private async watchBattery(): Promise<void> {
+    const batteryNavigator: BatteryNavigator = navigator;
+    if (!batteryNavigator.getBattery) return;
+
+    try {
+      this.battery = await batteryNavigator.getBattery();
+      this.battery.addEventListener('levelchange', () => this.refresh());
+      this.battery.addEventListener('chargingchange', () => this.refresh());
+      this.refresh();
+    } catch (error) {
+      console.warn('Battery status unavailable:', error);
+    }
+  }
+
+  private loadSettings(): PollingSettings {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const settings = { ...DEFAULT_POLLING_SETTINGS, ...JSON.parse(stored) };
+        const errors = this.validateSettings(settings);
+        if (errors.length === 0) return settings;
+        console.warn('Stored polling settings are invalid, using defaults:', errors);
+      }
+    } catch (error) {
+      console.warn('Failed to load polling settings:', error);
+    }
+    return { ...DEFAULT_POLLING_SETTINGS };
+  }
+
+  private saveSettings(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.warn('Failed to save polling settings:', error);
+    }
+  }
+}
@@ -0,0 +1,110 @@
+// src/settings.ts - Persisted application settings
+import type { AppSettings } from './types';
+import { LOCALES, matchLocale, t } from './i18n';
+
+const STORAGE_KEY = 'pret-settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  notificationsEnabled: true,
+  soundEnabled: true,
+  updateInterval: 30000,
+  theme: 'auto',
+  language: matchLocale(navigator.languages || [navigator.language]),  // browser language when supported
+  temperatureUnit: 'C'
+};
+
+export const THEMES: AppSettings['theme'][] = ['auto', 'light', 'dark'];
+
+/** Bounds for the base poll interval (ms) */
+export const MIN_UPDATE_INTERVAL = 5000;
+export const MAX_UPDATE_INTERVAL = 10 * 60 * 1000;
+
+/**
+ * Settings Service - Loads, saves and broadcasts AppSettings
+ */
+export class SettingsService {
+  private settings: AppSettings;
+  private listeners: Array<(settings: AppSettings) => void> = [];
+
+  constructor() {
+    this.settings = this.loadFromStorage();
+  }
+
+  /**
+   * Get current settings
+   */
+  getSettings(): AppSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Validate settings. Returns error messages, empty when valid.
+   */
+  validateSettings(settings: AppSettings): string[] {
+    const errors: string[] = [];
+
+    if (!Number.isFinite(settings.updateInterval)
+      || settings.updateInterval < MIN_UPDATE_INTERVAL || settings.updateInterval > MAX_UPDATE_INTERVAL) {
+      errors.push(t('settings.error.interval', { min: MIN_UPDATE_INTERVAL / 1000, max: MAX_UPDATE_INTERVAL / 60000 }));
+    }
+    if (!THEMES.includes(settings.theme)) {
+      errors.push(t('settings.error.theme'));
+    }
+    if (!(settings.language in LOCALES)) {
+      errors.push(t('settings.error.language'));
+    }
+    if (settings.temperatureUnit !== 'C' && settings.temperatureUnit !== 'F') {
+      errors.push(t('settings.error.temperatureUnit'));
+    }
+
+    return errors;
+  }
+
+  /**
+   * Update settings and notify subscribers. Returns validation errors,
+   * empty on success.
+   */
+  updateSettings(updates: Partial<AppSettings>): string[] {
+    const updated = { ...this.settings, ...updates };
+    const errors = this.validateSettings(updated);
+    if (errors.length > 0) return errors;
+
+    this.settings = updated;
+    this.saveToStorage();
+
+    const settings = this.getSettings();
+    this.listeners.forEach(listener => listener(settings));
+    return [];
+  }
+
+  /**
+   * Subscribe to settings changes
+   */
+  subscribe(listener: (settings: AppSettings) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private saveToStorage(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.warn('Failed to save settings:', error);
+    }
+  }
+
+  private loadFromStorage(): AppSettings {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const settings = { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+        return this.validateSettings(settings).length === 0 ? settings : { ...DEFAULT_SETTINGS };
+      }
+    } catch (error) {
+      console.warn('Failed to load settings:', error);
+    }
+    return { ...DEFAULT_SETTINGS };
+  }
+}
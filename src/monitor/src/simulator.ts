@@ -0,0 +1,427 @@
+// src/simulator.ts - Simulated store machines for demos and offline development
+import type { CameraAnnotation, ConnectionStatus, MachineBackend, SensorReading, StoreLocation, VideoQuality } from './types';
+import { VIDEO_QUALITIES } from './camera';
+import { url } from './utils';
+
+export interface SimulationOptions {
+  timeScale: number;               // simulated minutes per real minute
+  regions: string[];
+  temperatureSensors: string[];
+  fillCycleMinutes: number;        // time for a full shelf to run empty
+  restockMinutes: number;          // time a shelf stays empty before restock
+  baseTemperature: number;
+  excursionEveryMinutes: number;
+  excursionMinutes: number;
+  excursionPeak: number;           // degrees above base at the peak
+  disconnectEveryMinutes: number;
+  disconnectMinutes: number;
+  personEveryMinutes: number;      // how often a shopper walks past the camera
+  personMinutes: number;
+  tickMs: number;
+}
+
+const DEFAULT_OPTIONS: SimulationOptions = {
+  timeScale: 1,
+  regions: ['A-1', 'A-2', 'B-1', 'B-2'],
+  temperatureSensors: ['temp-fridge-1', 'temp-fridge-2'],
+  fillCycleMinutes: 45,
+  restockMinutes: 5,
+  baseTemperature: 3,
+  excursionEveryMinutes: 60,
+  excursionMinutes: 12,
+  excursionPeak: 6,
+  disconnectEveryMinutes: 90,
+  disconnectMinutes: 3,
+  personEveryMinutes: 20,
+  personMinutes: 4,
+  tickMs: 5000
+};
+
+const FULL_LEVEL = 95;
+const EMPTY_LEVEL = 15;
+
+// Simulated camera frame layout
+const FRAME_WIDTH = 400;
+const FRAME_HEIGHT = 300;
+const SHELF_TOP = 60;
+const SHELF_HEIGHT = 180;
+
+interface SimulatedConnection {
+  store: StoreLocation;
+  status: ConnectionStatus;
+}
+
+interface SimulatedVideo {
+  stream: MediaStream;
+  timer: ReturnType<typeof setInterval>;
+}
+
+/**
+ * Read the simulation flag: `?simulate` in the URL (`?simulate=10` runs ten
+ * times faster) or `VITE_SIMULATE_MACHINES=true` at build time. Returns the
+ * time scale, or null when simulation is off.
+ */
+export function getSimulationFlag(): number | null {
+  const param = url.getQueryParam('simulate');
+  const value = param ?? (import.meta.env.VITE_SIMULATE_MACHINES === 'true' ? '1' : null);
+  if (value === null || value === '0' || value === 'false') return null;
+
+  const scale = parseFloat(value);
+  return Number.isFinite(scale) && scale > 0 ? scale : 1;
+}
+
+/**
+ * Stable pseudo-random number in [0, 1) for a store and salt, so each store
+ * gets its own phase but the same store behaves the same on every reload
+ */
+function seed(storeId: string, salt: string): number {
+  let hash = 2166136261;
+  for (const char of `${storeId}:${salt}`) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 16777619);
+  }
+  return (hash >>> 0) / 4294967296;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' })[c]!);
+}
+
+/**
+ * Simulated Machine Backend - Scripted stores behind the MachineBackend interface
+ *
+ * Shelves deplete linearly and are restocked after sitting empty, the first
+ * fridge sensor runs a temperature excursion once per cycle, and every store
+ * drops off the network for a few minutes at a time. All scripts run on a
+ * simulated clock so a demo can be sped up with `timeScale`.
+ */
+export class SimulatedMachineBackend implements MachineBackend {
+  private connections = new Map<string, SimulatedConnection>();
+  private videos = new Map<string, SimulatedVideo>();
+  private listeners: Array<(status: ConnectionStatus) => void> = [];
+  private options: SimulationOptions;
+  private startedAt = Date.now();
+  private tickInterval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: Partial<SimulationOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async initialize(): Promise<void> {
+    console.log(`🧪 Using simulated machines (${this.options.timeScale}x speed)`);
+    if (!this.tickInterval) {
+      this.tickInterval = setInterval(() => {
+        this.connections.forEach(connection => this.update(connection));
+      }, this.options.tickMs);
+    }
+  }
+
+  async connectToStore(store: StoreLocation): Promise<boolean> {
+    const existing = this.connections.get(store.id);
+    if (existing) {
+      existing.store = store;
+      return this.update(existing);
+    }
+
+    const connection: SimulatedConnection = {
+      store,
+      status: { storeId: store.id, state: 'connecting', attempts: 0 }
+    };
+    this.connections.set(store.id, connection);
+    this.setStatus(connection, {});
+
+    // Simulated handshake
+    await new Promise(resolve => setTimeout(resolve, 300));
+    if (this.connections.get(store.id) !== connection) return false;
+
+    return this.update(connection);
+  }
+
+  disconnectStore(storeId: string): void {
+    const connection = this.connections.get(storeId);
+    if (!connection) return;
+
+    this.connections.delete(storeId);
+    this.closeVideoStream(storeId);
+    this.setStatus(connection, { state: 'disconnected', nextRetryAt: undefined });
+  }
+
+  async retryNow(storeId: string): Promise<boolean> {
+    const connection = this.connections.get(storeId);
+    if (!connection || connection.status.state !== 'offline') return false;
+
+    if (this.isOutage(storeId, this.minutes(Date.now()))) {
+      this.setStatus(connection, { attempts: connection.status.attempts + 1 });
+      return false;
+    }
+    return this.update(connection);
+  }
+
+  isConnected(storeId: string): boolean {
+    return this.connections.get(storeId)?.status.state === 'connected';
+  }
+
+  getStatus(storeId: string): ConnectionStatus | undefined {
+    const connection = this.connections.get(storeId);
+    return connection ? { ...connection.status } : undefined;
+  }
+
+  subscribe(listener: (status: ConnectionStatus) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  async getSensorData(storeId: string): Promise<SensorReading[]> {
+    if (!this.isReachable(storeId)) return [];
+
+    const now = Date.now();
+    const timestamp = new Date(now).toISOString();
+    return this.options.regions.map(region => ({
+      componentName: region,
+      reading: this.getFillLevel(storeId, region, now),
+      timestamp,
+      machineId: storeId
+    }));
+  }
+
+  async getCameraFrame(storeId: string): Promise<string | null> {
+    const connection = this.connections.get(storeId);
+    if (!connection || !this.isReachable(storeId)) return null;
+
+    return this.renderFrame(connection.store, Date.now());
+  }
+
+  async getCameraAnnotations(storeId: string): Promise<CameraAnnotation[]> {
+    if (!this.isReachable(storeId)) return [];
+
+    const now = Date.now();
+    const t = this.minutes(now);
+    const annotations: CameraAnnotation[] = this.options.regions.flatMap((region, i) => {
+      const fill = this.getFillLevel(storeId, region, now);
+      const bounds = { ...this.getShelfBounds(i), y: SHELF_TOP, height: SHELF_HEIGHT };
+      const confidence = Math.round(88 + 8 * Math.sin(t + seed(storeId, region) * 10));
+      const shelf: CameraAnnotation = { type: 'shelf', bounds, confidence, label: `${region} ${Math.round(fill)}%` };
+
+      return fill < EMPTY_LEVEL
+        ? [shelf, { type: 'alert' as const, bounds, confidence, label: `${region} empty` }]
+        : [shelf];
+    });
+
+    const personX = this.getPersonPosition(storeId, now);
+    if (personX !== null) {
+      annotations.push({
+        type: 'person',
+        bounds: { x: personX, y: 70, width: 50, height: 170 },
+        confidence: Math.round(82 + 10 * Math.sin(t * 3)),
+        label: 'person'
+      });
+    }
+
+    return annotations;
+  }
+
+  /**
+   * Live video of the rendered frames, painted onto a canvas once a second
+   */
+  async openVideoStream(storeId: string, quality: VideoQuality): Promise<MediaStream> {
+    const connection = this.connections.get(storeId);
+    if (!connection || !this.isReachable(storeId)) {
+      throw new Error('Store is not connected');
+    }
+
+    const scale = (VIDEO_QUALITIES[quality].width || 640) / FRAME_WIDTH;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(FRAME_WIDTH * scale);
+    canvas.height = Math.round(FRAME_HEIGHT * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx || typeof canvas.captureStream !== 'function') {
+      throw new Error('Video is not supported in this browser');
+    }
+
+    this.closeVideoStream(storeId);
+
+    const image = new Image();
+    image.onload = () => ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const paint = () => {
+      if (this.isReachable(storeId)) {
+        image.src = this.renderFrame(connection.store, Date.now());
+      }
+    };
+    paint();
+
+    const stream = canvas.captureStream(10);
+    this.videos.set(storeId, { stream, timer: setInterval(paint, 1000) });
+    return stream;
+  }
+
+  closeVideoStream(storeId: string): void {
+    const video = this.videos.get(storeId);
+    if (!video) return;
+
+    clearInterval(video.timer);
+    video.stream.getTracks().forEach(track => track.stop());
+    this.videos.delete(storeId);
+  }
+
+  async getTemperatureData(storeId: string): Promise<SensorReading[]> {
+    if (!this.isReachable(storeId)) return [];
+
+    const now = Date.now();
+    const timestamp = new Date(now).toISOString();
+    return this.options.temperatureSensors.map((sensor, index) => ({
+      componentName: sensor,
+      reading: this.getTemperature(storeId, index, now),
+      timestamp,
+      machineId: storeId
+    }));
+  }
+
+  /**
+   * Scripted fill level for a shelf region at a point in time
+   */
+  getFillLevel(storeId: string, region: string, at: number): number {
+    const t = this.minutes(at);
+    const cycle = this.options.fillCycleMinutes * (0.7 + 0.6 * seed(storeId, region));
+    const period = cycle + this.options.restockMinutes;
+    const phase = (t + seed(storeId, `${region}:phase`) * period) % period;
+
+    const level = phase < cycle ? FULL_LEVEL * (1 - phase / cycle) : 0;
+    const noise = 1.5 * Math.sin(t * 1.7 + seed(storeId, `${region}:noise`) * 10);
+    return Math.round(Math.min(100, Math.max(0, level + noise)) * 10) / 10;
+  }
+
+  /**
+   * Scripted temperature for a sensor at a point in time. Only the first
+   * sensor in each store runs excursions.
+   */
+  getTemperature(storeId: string, sensorIndex: number, at: number): number {
+    const t = this.minutes(at);
+    let value = this.options.baseTemperature + 0.3 * Math.sin(t / 6 + sensorIndex);
+
+    if (sensorIndex === 0) {
+      const every = this.options.excursionEveryMinutes;
+      const phase = (t + seed(storeId, 'excursion') * every) % every;
+      if (phase < this.options.excursionMinutes) {
+        value += this.options.excursionPeak * Math.sin(Math.PI * phase / this.options.excursionMinutes);
+      }
+    }
+
+    return Math.round(value * 10) / 10;
+  }
+
+  /**
+   * Left edge of a shopper walking across the frame, or null when nobody is there
+   */
+  private getPersonPosition(storeId: string, at: number): number | null {
+    const every = this.options.personEveryMinutes;
+    const phase = (this.minutes(at) + seed(storeId, 'person') * every) % every;
+    if (phase >= this.options.personMinutes) return null;
+
+    return Math.round(-50 + (FRAME_WIDTH + 50) * (phase / this.options.personMinutes));
+  }
+
+  private getShelfBounds(index: number): { x: number; width: number } {
+    const width = (FRAME_WIDTH - 40) / this.options.regions.length - 10;
+    return { x: 20 + index * (width + 10), width };
+  }
+
+  private minutes(at: number): number {
+    return (at - this.startedAt) / 60000 * this.options.timeScale;
+  }
+
+  private isOutage(storeId: string, t: number): boolean {
+    return this.getOutagePhase(storeId, t) < this.options.disconnectMinutes;
+  }
+
+  private getOutagePhase(storeId: string, t: number): number {
+    const every = this.options.disconnectEveryMinutes;
+    return (t + seed(storeId, 'network') * every) % every;
+  }
+
+  private isReachable(storeId: string): boolean {
+    const connection = this.connections.get(storeId);
+    return connection ? this.update(connection) : false;
+  }
+
+  /**
+   * Move a connection along its script. Returns whether it is connected.
+   */
+  private update(connection: SimulatedConnection): boolean {
+    const now = Date.now();
+    const t = this.minutes(now);
+    const { storeId } = connection.status;
+
+    if (this.isOutage(storeId, t)) {
+      if (connection.status.state !== 'offline') {
+        const remainingMinutes = this.options.disconnectMinutes - this.getOutagePhase(storeId, t);
+        this.setStatus(connection, {
+          state: 'offline',
+          attempts: connection.status.attempts + 1,
+          offlineSince: connection.status.offlineSince || new Date(now).toISOString(),
+          lastError: 'Simulated network drop',
+          nextRetryAt: new Date(now + remainingMinutes / this.options.timeScale * 60000).toISOString()
+        });
+      }
+      return false;
+    }
+
+    if (connection.status.state === 'connected') {
+      this.setStatus(connection, { lastHeartbeat: new Date(now).toISOString() });
+    } else {
+      this.setStatus(connection, {
+        state: 'connected',
+        attempts: 0,
+        connectedAt: new Date(now).toISOString(),
+        lastHeartbeat: new Date(now).toISOString(),
+        offlineSince: undefined,
+        lastError: undefined,
+        nextRetryAt: undefined
+      });
+    }
+    return true;
+  }
+
+  private renderFrame(store: StoreLocation, at: number): string {
+    const width = FRAME_WIDTH;
+    const height = FRAME_HEIGHT;
+    const shelfBottom = SHELF_TOP + SHELF_HEIGHT;
+
+    const bars = this.options.regions.map((region, i) => {
+      const fill = this.getFillLevel(store.id, region, at);
+      const { x, width: barWidth } = this.getShelfBounds(i);
+      const barHeight = (fill / 100) * SHELF_HEIGHT;
+      const color = fill < EMPTY_LEVEL ? '#ef4444' : fill < 40 ? '#f59e0b' : '#10b981';
+      return `
+        <rect x="${x}" y="${SHELF_TOP}" width="${barWidth}" height="${SHELF_HEIGHT}" fill="#e5e7eb" rx="4" />
+        <rect x="${x}" y="${shelfBottom - barHeight}" width="${barWidth}" height="${barHeight}" fill="${color}" rx="4" />
+        <text x="${x + barWidth / 2}" y="${shelfBottom + 22}" text-anchor="middle" font-size="13" fill="#374151">${region}</text>
+        <text x="${x + barWidth / 2}" y="${Math.min(shelfBottom - 8, shelfBottom - 4 - barHeight)}" text-anchor="middle" font-size="12" fill="#111827">${Math.round(fill)}%</text>
+      `;
+    }).join('');
+
+    const personX = this.getPersonPosition(store.id, at);
+    const person = personX === null ? '' : `
+      <circle cx="${personX + 25}" cy="92" r="18" fill="#6b7280" />
+      <rect x="${personX + 5}" y="112" width="40" height="128" rx="12" fill="#6b7280" />
+    `;
+
+    const svg = `
+      <svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+        <rect width="${width}" height="${height}" fill="#f9fafb" />
+        <text x="20" y="30" font-size="16" font-family="sans-serif" fill="#111827">${escapeXml(store.name)}</text>
+        <text x="20" y="48" font-size="12" font-family="sans-serif" fill="#6b7280">Simulated camera · ${new Date(at).toLocaleTimeString()}</text>
+        <g font-family="sans-serif">${bars}</g>
+        ${person}
+      </svg>
+    `;
+
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  }
+
+  private setStatus(connection: SimulatedConnection, updates: Partial<ConnectionStatus>): void {
+    connection.status = { ...connection.status, ...updates };
+    const status = { ...connection.status };
+    this.listeners.forEach(listener => listener(status));
+  }
+}
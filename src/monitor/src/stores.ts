@@ -0,0 +1,380 @@
+// src/stores.ts - Store registry loaded from a versioned JSON document
+import type { HoursException, StoreHours, StoreLocation, StoreRecord, StoreRegistryDocument, StoreValidationError, Weekday } from './types';
+import { validation } from './utils';
+import { WEEKDAYS, isValidDate, isValidPeriod, isValidTimeZone } from './hours';
+import { formatWeekday, t } from './i18n';
+
+export const STORE_REGISTRY_VERSION = 1;
+
+const STORAGE_KEY = 'pret-store-registry';
+const STORE_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const HOSTNAME_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*(:\d+)?$/i;
+const RESOURCE_NAME_PATTERN = /^[a-z0-9][\w-]*$/i;
+const DEMO_MACHINE_PREFIX = 'demo-';
+
+type UncheckedRecord = { [K in keyof StoreRecord]?: unknown };
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && !validation.isEmpty(value);
+}
+
+function isOptionalText(value: unknown): value is string | undefined {
+  return value === undefined || typeof value === 'string';
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Store Registry - Loads, validates and persists store locations
+ */
+export class StoreRegistry {
+  private stores: StoreLocation[] = [];
+  private demoMachineIds = new Set<string>();   // demo machines named by the seed document
+  private listeners: Array<(stores: StoreLocation[]) => void> = [];
+
+  /**
+   * Load the registry from local storage, falling back to the seed document
+   */
+  async initialize(seedUrl: string = './stores.json'): Promise<void> {
+    const stored = this.loadFromStorage();
+    if (stored) {
+      // Only ever written by this registry, so it may keep seeded demo machines
+      const errors = this.applyDocument(stored, true);
+      if (errors.length === 0) return;
+      console.warn('Stored store registry is invalid, reloading seed:', errors);
+    }
+
+    try {
+      const response = await fetch(seedUrl);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const errors = this.applyDocument(await response.json(), true);
+      if (errors.length > 0) {
+        console.error('Store seed document is invalid:', errors);
+      }
+    } catch (error) {
+      console.error('Failed to load store seed document:', error);
+    }
+  }
+
+  /**
+   * Get all registered stores
+   */
+  getStores(): StoreLocation[] {
+    return [...this.stores];
+  }
+
+  /**
+   * Get a single store by ID
+   */
+  getStore(storeId: string): StoreLocation | undefined {
+    return this.stores.find(s => s.id === storeId);
+  }
+
+  /**
+   * Validate a store record, optionally against the store it replaces.
+   * Records come from forms, imports and storage, so every field is
+   * type-checked. Demo machine IDs are only accepted from the seed document.
+   */
+  validateStore(record: unknown, replacingId?: string, fromSeed: boolean = false): StoreValidationError[] {
+    if (!isObject(record)) {
+      return [{ field: 'store', message: t('store.error.object') }];
+    }
+
+    const { id, name, address, region, machineId, hostname, visionService, timeZone, hours, coords } = record as UncheckedRecord;
+    const errors: StoreValidationError[] = [];
+    const storeId = typeof id === 'string' ? id : undefined;
+    const addError = (field: string, message: string) => errors.push({ storeId, field, message });
+
+    if (typeof id !== 'string' || !STORE_ID_PATTERN.test(id)) {
+      addError('id', t('store.error.id'));
+    } else if (id !== replacingId && this.getStore(id)) {
+      addError('id', t('store.error.duplicateId', { id }));
+    }
+
+    if (!isText(name)) {
+      addError('name', t('validation.nameRequired'));
+    }
+
+    if (!isText(address)) {
+      addError('address', t('store.error.address'));
+    }
+
+    if (!isText(region)) {
+      addError('region', t('store.error.region'));
+    }
+
+    if (!isText(machineId) || (!validation.isUUID(machineId.trim()) && !this.isDemoMachine(machineId.trim(), fromSeed))) {
+      addError('machineId', t('store.error.machineId'));
+    }
+
+    if (!isOptionalText(hostname) || (hostname && !HOSTNAME_PATTERN.test(hostname.trim()))) {
+      addError('hostname', t('store.error.hostname'));
+    }
+
+    if (!isOptionalText(visionService) || (visionService && !RESOURCE_NAME_PATTERN.test(visionService.trim()))) {
+      addError('visionService', t('store.error.visionService'));
+    }
+
+    if (!isOptionalText(timeZone) || (timeZone && !isValidTimeZone(timeZone.trim()))) {
+      addError('timeZone', t('store.error.timeZone'));
+    }
+
+    if (hours !== undefined) {
+      this.validateHours(hours, addError);
+    }
+
+    const { lat, lng } = isObject(coords) ? coords : { lat: undefined, lng: undefined };
+    if (typeof lat !== 'number' || !Number.isFinite(lat) || lat < -90 || lat > 90) {
+      addError('coords.lat', t('store.error.latitude'));
+    }
+    if (typeof lng !== 'number' || !Number.isFinite(lng) || lng < -180 || lng > 180) {
+      addError('coords.lng', t('store.error.longitude'));
+    }
+
+    return errors;
+  }
+
+  /**
+   * Add a new store. Returns validation errors, empty on success.
+   */
+  addStore(record: StoreRecord): StoreValidationError[] {
+    const errors = this.validateStore(record);
+    if (errors.length > 0) return errors;
+
+    this.stores.push({ ...this.normalizeRecord(record), status: 'unknown' });
+    this.saveToStorage();
+    this.notifyListeners();
+    return [];
+  }
+
+  /**
+   * Update an existing store. Returns validation errors, empty on success.
+   */
+  updateStore(storeId: string, record: StoreRecord): StoreValidationError[] {
+    const index = this.stores.findIndex(s => s.id === storeId);
+    if (index === -1) {
+      return [{ storeId, field: 'id', message: t('store.error.unknown', { id: storeId }) }];
+    }
+
+    const errors = this.validateStore(record, storeId);
+    if (errors.length > 0) return errors;
+
+    this.stores[index] = { ...this.normalizeRecord(record), status: this.stores[index].status };
+    this.saveToStorage();
+    this.notifyListeners();
+    return [];
+  }
+
+  /**
+   * Remove a store from the registry
+   */
+  removeStore(storeId: string): boolean {
+    const index = this.stores.findIndex(s => s.id === storeId);
+    if (index === -1) return false;
+
+    this.stores.splice(index, 1);
+    this.saveToStorage();
+    this.notifyListeners();
+    return true;
+  }
+
+  /**
+   * Export the registry as a versioned JSON document
+   */
+  exportDocument(): string {
+    return JSON.stringify(this.toDocument(), null, 2);
+  }
+
+  /**
+   * Replace the registry with an imported JSON document.
+   * Returns validation errors, empty on success.
+   */
+  importDocument(jsonData: string): StoreValidationError[] {
+    let data: unknown;
+    try {
+      data = JSON.parse(jsonData);
+    } catch {
+      return [{ field: 'document', message: t('validation.invalidJson') }];
+    }
+
+    const errors = this.applyDocument(data);
+    if (errors.length === 0) {
+      this.saveToStorage();
+      this.notifyListeners();
+    }
+    return errors;
+  }
+
+  /**
+   * Subscribe to registry changes
+   */
+  subscribe(listener: (stores: StoreLocation[]) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Replace the registry with a document's stores if they are all valid.
+   * Demo machines are accepted from the seed document, or from a stored
+   * copy of it.
+   */
+  private applyDocument(data: unknown, fromSeed: boolean = false): StoreValidationError[] {
+    if (!isObject(data)) {
+      return [{ field: 'document', message: t('validation.notObject') }];
+    }
+
+    const { version, stores } = data as { [K in keyof StoreRegistryDocument]?: unknown };
+    if (typeof version !== 'number' || version > STORE_REGISTRY_VERSION) {
+      return [{ field: 'version', message: t('store.error.version', { version: String(version) }) }];
+    }
+
+    if (!Array.isArray(stores)) {
+      return [{ field: 'stores', message: t('store.error.stores') }];
+    }
+
+    // Validate against the incoming set so duplicate IDs within the document are caught
+    const previous = this.stores;
+    const errors: StoreValidationError[] = [];
+    const incoming: StoreLocation[] = [];
+
+    this.stores = incoming;
+    for (const item of stores as unknown[]) {
+      const recordErrors = this.validateStore(item, undefined, fromSeed);
+      if (recordErrors.length > 0) {
+        errors.push(...recordErrors);
+      } else {
+        const record = item as StoreRecord;
+        const existing = previous.find(s => s.id === record.id);
+        incoming.push({ ...this.normalizeRecord(record), status: existing?.status || 'unknown' });
+      }
+    }
+
+    if (errors.length > 0) {
+      this.stores = previous;
+    } else if (fromSeed) {
+      this.demoMachineIds = new Set(incoming.map(s => s.machineId).filter(id => id.startsWith(DEMO_MACHINE_PREFIX)));
+    }
+    return errors;
+  }
+
+  /**
+   * Whether a machine ID is one of the demo machines named by the seed document
+   */
+  isSeededDemoMachine(machineId: string): boolean {
+    return this.demoMachineIds.has(machineId);
+  }
+
+  /**
+   * Demo machines run on the simulator; they are only valid as the seed
+   * document named them, so an edit cannot point a store at a made-up one
+   */
+  private isDemoMachine(machineId: string, fromSeed: boolean): boolean {
+    return machineId.startsWith(DEMO_MACHINE_PREFIX) && (fromSeed || this.demoMachineIds.has(machineId));
+  }
+
+  private validateHours(hours: unknown, addError: (field: string, message: string) => void): void {
+    if (!isObject(hours) || !isObject(hours.weekly)) {
+      addError('hours', t('store.error.hours'));
+      return;
+    }
+
+    const weekly = hours.weekly;
+    (Object.keys(WEEKDAYS) as Weekday[]).forEach(day => {
+      const period = weekly[day];
+      if (period !== undefined && !isValidPeriod(period)) {
+        addError(`hours.${day}`, t('store.error.dayHours', { day: formatWeekday(day) }));
+      }
+    });
+
+    if (hours.exceptions !== undefined && !Array.isArray(hours.exceptions)) {
+      addError('hours.exceptions', t('store.error.closures'));
+      return;
+    }
+
+    ((hours.exceptions || []) as unknown[]).forEach(entry => {
+      if (!isObject(entry)) {
+        addError('hours.exceptions', t('store.error.closureObject'));
+        return;
+      }
+
+      const exception = entry as { [K in keyof HoursException]?: unknown };
+      const label = typeof exception.name === 'string' && exception.name ? exception.name : String(exception.date);
+      if (!isValidDate(exception.date) || (exception.endDate !== undefined && !isValidDate(exception.endDate))) {
+        addError('hours.exceptions', t('store.error.closureDates', { name: label }));
+      } else if (exception.endDate !== undefined && exception.endDate < exception.date) {
+        addError('hours.exceptions', t('store.error.closureOrder', { name: label }));
+      } else if (exception.hours !== undefined && !isValidPeriod(exception.hours)) {
+        addError('hours.exceptions', t('store.error.closureHours', { name: label }));
+      } else if (!isOptionalText(exception.name)) {
+        addError('hours.exceptions', t('store.error.closureName', { name: label }));
+      }
+    });
+  }
+
+  private normalizeRecord(record: StoreRecord): StoreRecord {
+    return {
+      id: record.id.trim(),
+      name: record.name.trim(),
+      address: record.address.trim(),
+      coords: { lat: record.coords.lat, lng: record.coords.lng },
+      machineId: record.machineId.trim(),
+      ...(record.hostname?.trim() ? { hostname: record.hostname.trim() } : {}),
+      ...(record.visionService?.trim() ? { visionService: record.visionService.trim() } : {}),
+      region: record.region.trim().toLowerCase(),
+      ...(record.timeZone?.trim() ? { timeZone: record.timeZone.trim() } : {}),
+      ...(record.hours ? { hours: this.normalizeHours(record.hours) } : {})
+    };
+  }
+
+  private normalizeHours(hours: StoreHours): StoreHours {
+    const weekly: StoreHours['weekly'] = {};
+    (Object.keys(WEEKDAYS) as Weekday[]).forEach(day => {
+      const period = hours.weekly[day];
+      if (period) {
+        weekly[day] = { open: period.open, close: period.close };
+      }
+    });
+
+    const exceptions = (hours.exceptions || [])
+      .map(({ name, ...e }) => (name?.trim() ? { ...e, name: name.trim() } : e))
+      .sort((a, b) => a.date.localeCompare(b.date));
+    return exceptions.length > 0 ? { weekly, exceptions } : { weekly };
+  }
+
+  private toDocument(): StoreRegistryDocument {
+    return {
+      version: STORE_REGISTRY_VERSION,
+      updatedAt: new Date().toISOString(),
+      stores: this.stores.map(({ status: _status, ...record }) => record)
+    };
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => listener(this.getStores()));
+  }
+
+  private saveToStorage(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.toDocument()));
+    } catch (error) {
+      console.warn('Failed to save store registry:', error);
+    }
+  }
+
+  private loadFromStorage(): unknown {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.warn('Failed to load store registry:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,258 @@
+// src/tasks.ts - Restock tasks raised by empty-shelf alerts
+import type { Alert, ChecklistItem, RestockTask } from './types';
+import { generateId } from './utils';
+import { t } from './i18n';
+import type { MessageKey } from './i18n';
+
+const STORAGE_KEY = 'pret-restock-tasks';
+const MAX_TASKS = 200;
+
+/** Minutes staff have to restock a shelf, by alert severity */
+export const RESTOCK_DUE_MINUTES: Record<Alert['severity'], number> = {
+  critical: 10,
+  high: 15,
+  medium: 30,
+  low: 60
+};
+
+export const RESTOCK_CHECKLIST: MessageKey[] = [
+  'task.checklist.fetch',
+  'task.checklist.rotate',
+  'task.checklist.fill',
+  'task.checklist.remove'
+];
+
+/**
+ * Restock Task Manager - Turns empty shelves into tracked work
+ *
+ * Each empty-shelf alert opens a task for its region, or joins the task
+ * already open there. Tasks close themselves when the fill sensor reads the
+ * region as stocked again, recording how long the restock took.
+ */
+export class RestockTaskManager {
+  private tasks: RestockTask[] = [];
+  private listeners: Array<(tasks: RestockTask[]) => void> = [];
+
+  constructor() {
+    this.loadFromStorage();
+  }
+
+  /**
+   * Open a task for an empty-shelf alert. Returns the task the alert joined.
+   */
+  createFromAlert(alert: Alert, shelf: string): RestockTask {
+    const region = alert.component || alert.shelves?.[0] || 'unknown';
+    const existing = this.tasks.find(t => t.storeId === alert.storeId && t.region === region && this.isActive(t));
+
+    if (existing) {
+      if (!existing.alertIds.includes(alert.id)) {
+        existing.alertIds.push(alert.id);
+      }
+      if (alert.threshold !== undefined) {
+        existing.threshold = Math.max(existing.threshold ?? alert.threshold, alert.threshold);
+      }
+      this.saveToStorage();
+      this.notifyListeners();
+      return existing;
+    }
+
+    const now = new Date();
+    const task: RestockTask = {
+      id: generateId(),
+      storeId: alert.storeId,
+      storeName: alert.storeName,
+      region,
+      shelf,
+      alertIds: [alert.id],
+      severity: alert.severity,
+      threshold: alert.threshold,
+      status: 'open',
+      createdAt: now.toISOString(),
+      dueAt: new Date(now.getTime() + RESTOCK_DUE_MINUTES[alert.severity] * 60 * 1000).toISOString(),
+      checklist: RESTOCK_CHECKLIST.map(key => ({ key, label: t(key), done: false }))
+    };
+
+    this.tasks.unshift(task);
+    this.trim();
+    this.saveToStorage();
+    this.notifyListeners();
+    return task;
+  }
+
+  /**
+   * Get tasks, newest first
+   */
+  getTasks(filter: { storeId?: string; active?: boolean } = {}): RestockTask[] {
+    return this.tasks
+      .filter(t => filter.storeId === undefined || t.storeId === filter.storeId)
+      .filter(t => filter.active === undefined || this.isActive(t) === filter.active)
+      .map(t => ({ ...t, alertIds: [...t.alertIds], checklist: t.checklist.map(item => ({ ...item })) }));
+  }
+
+  /**
+   * Find the task an alert raised or joined
+   */
+  getTaskForAlert(alertId: string): RestockTask | undefined {
+    return this.getTasks().find(t => t.alertIds.includes(alertId));
+  }
+
+  isActive(task: RestockTask): boolean {
+    return task.status === 'open' || task.status === 'in_progress';
+  }
+
+  isOverdue(task: RestockTask, now: number = Date.now()): boolean {
+    return this.isActive(task) && new Date(task.dueAt).getTime() < now;
+  }
+
+  assign(taskId: string, assignee: string): boolean {
+    return this.update(taskId, task => {
+      task.assignedTo = assignee;
+    });
+  }
+
+  /**
+   * Mark a task as being worked on, assigning it to whoever started it
+   */
+  start(taskId: string, by: string): boolean {
+    return this.update(taskId, task => {
+      if (task.status !== 'open') return false;
+      task.status = 'in_progress';
+      task.startedAt = new Date().toISOString();
+      task.assignedTo = task.assignedTo || by;
+    });
+  }
+
+  toggleChecklistItem(taskId: string, index: number): boolean {
+    return this.update(taskId, task => {
+      const item: ChecklistItem | undefined = task.checklist[index];
+      if (!item) return false;
+      item.done = !item.done;
+    });
+  }
+
+  /**
+   * Close a task by hand, e.g. when the sensor is out of action
+   */
+  complete(taskId: string, by: string): boolean {
+    return this.update(taskId, task => this.markDone(task, by));
+  }
+
+  cancel(taskId: string, by: string): boolean {
+    return this.update(taskId, task => {
+      task.status = 'cancelled';
+      task.completedAt = new Date().toISOString();
+      task.completedBy = by;
+    });
+  }
+
+  /**
+   * Close the active tasks for a region once the fill sensor reads above
+   * the level that raised them. Tasks without one use the given threshold.
+   */
+  autoComplete(storeId: string, region: string, fillPercent: number, threshold: number): RestockTask[] {
+    const completed = this.tasks.filter(t =>
+      t.storeId === storeId &&
+      t.region === region &&
+      this.isActive(t) &&
+      fillPercent > (t.threshold ?? threshold)
+    );
+
+    if (completed.length > 0) {
+      completed.forEach(task => this.markDone(task, 'system', fillPercent));
+      this.saveToStorage();
+      this.notifyListeners();
+    }
+
+    return completed;
+  }
+
+  /**
+   * Get queue size and restock times
+   */
+  getStatistics(): {
+    active: number;
+    overdue: number;
+    completedToday: number;
+    meanTimeToRestockMs: number | null;
+  } {
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+
+    const done = this.tasks.filter(t => t.status === 'done' && t.timeToRestockMs !== undefined);
+    const durations = done.map(t => t.timeToRestockMs!);
+
+    return {
+      active: this.tasks.filter(t => this.isActive(t)).length,
+      overdue: this.tasks.filter(t => this.isOverdue(t)).length,
+      completedToday: done.filter(t => new Date(t.completedAt!) >= startOfDay).length,
+      meanTimeToRestockMs: durations.length > 0 ? durations.reduce((sum, d) => sum + d, 0) / durations.length : null
+    };
+  }
+
+  /**
+   * Subscribe to task changes
+   */
+  subscribe(listener: (tasks: RestockTask[]) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private markDone(task: RestockTask, by: string, fillPercent?: number): void {
+    const now = new Date();
+    task.status = 'done';
+    task.completedAt = now.toISOString();
+    task.completedBy = by;
+    task.fillAtCompletion = fillPercent;
+    task.timeToRestockMs = now.getTime() - new Date(task.createdAt).getTime();
+  }
+
+  /**
+   * Apply a change to an active task. The change may return false to reject it.
+   */
+  private update(taskId: string, change: (task: RestockTask) => boolean | void): boolean {
+    const task = this.tasks.find(t => t.id === taskId);
+    if (!task || !this.isActive(task) || change(task) === false) return false;
+
+    this.saveToStorage();
+    this.notifyListeners();
+    return true;
+  }
+
+  /**
+   * Drop the oldest finished tasks beyond MAX_TASKS
+   */
+  private trim(): void {
+    let excess = this.tasks.length - MAX_TASKS;
+    for (let i = this.tasks.length - 1; i >= 0 && excess > 0; i--) {
+      if (!this.isActive(this.tasks[i])) {
+        this.tasks.splice(i, 1);
+        excess--;
+      }
+    }
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => listener(this.getTasks()));
+  }
+
+  private saveToStorage(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.tasks));
+    } catch (error) {
+      console.warn('Failed to save restock tasks:', error);
+    }
+  }
+
+  private loadFromStorage(): void {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        this.tasks = JSON.parse(stored);
+      }
+    } catch (error) {
+      console.warn('Failed to load restock tasks:', error);
+    }
+  }
+}
@@ -6,33 +6,185 @@ export interface StoreLocation {
   address: string;
   coords: { lat: number; lng: number };
   machineId: string;
-  status: 'online' | 'offline' | 'unknown';
+  hostname?: string;  // machine address, looked up from the Viam app when omitted
+  visionService?: string;  // vision service used for person detection
+  status: 'online' | 'offline' | 'reconnecting' | 'unknown';
   region: string;
+  timeZone?: string;  // IANA time zone, e.g. 'America/New_York'; the device's when omitted
+  hours?: StoreHours;  // opening hours in store time; DEFAULT_STORE_HOURS when omitted
+}
+
+// Opening hours types
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export interface OpeningPeriod {
+  open: string;              // 'HH:MM' store time
+  close: string;             // 'HH:MM'; at or before open runs past midnight
+}
+
+export interface StoreHours {
+  weekly: Partial<Record<Weekday, OpeningPeriod>>;  // days left out are closed
+  exceptions?: HoursException[];
+}
+
+export interface HoursException {
+  date: string;              // 'YYYY-MM-DD' store time
+  endDate?: string;          // last day of a closure spanning several days
+  hours?: OpeningPeriod;     // omitted when closed all day
+  name?: string;             // e.g. 'Christmas Day'
+}
+
+// Store registry types
+export type StoreRecord = Omit<StoreLocation, 'status'>;
+
+export interface StoreRegistryDocument {
+  version: number;
+  updatedAt: string;
+  stores: StoreRecord[];
+}
+
+export interface StoreValidationError {
+  storeId?: string;
+  field: string;
+  message: string;
+}
+
+// Planogram types
+export type ShelfPriority = 'high' | 'normal' | 'low';
+
+export interface PlanogramEntry {
+  storeId?: string;          // undefined applies to every store
+  region: string;            // fill-sensor region, e.g. 'B-1'
+  product: string;           // product or category on the shelf
+  category?: string;
+  fixture: string;           // e.g. 'fridge 2'
+  shelf: number;             // 1 is the top shelf
+  capacity: number;          // units when full
+  priority: ShelfPriority;
+}
+
+export interface PlanogramDocument {
+  version: number;
+  updatedAt: string;
+  entries: PlanogramEntry[];
+}
+
+/** A message-catalog key and the values to fill it with, stored as data */
+export interface LocalizedText {
+  key: string;
+  params?: Record<string, string | number>;
 }
 
 export interface Alert {
   id: string;
   storeId: string;
   storeName: string;
-  type: 'empty_shelf' | 'temperature' | 'equipment_failure';
+  type: 'empty_shelf' | 'predicted_empty' | 'temperature' | 'equipment_failure';
   severity: 'low' | 'medium' | 'high' | 'critical';
   title: string;
   message: string;
   timestamp: string;
+  updatedAt?: string;        // last reading that kept the incident open
   read: boolean;
   
+  // Catalog text behind title and message (one entry per message line), so
+  // alerts render in the viewer's language. title and message keep the text
+  // as first rendered, for notifications and exports.
+  titleText?: LocalizedText;
+  messageText?: LocalizedText[];
+  
+  // Lifecycle
+  status: AlertStatus;
+  acknowledgedAt?: string;
+  acknowledgedBy?: string;
+  assignedTo?: string;
+  assignedAt?: string;
+  resolvedAt?: string;
+  resolvedBy?: string;       // 'system' for auto-resolved alerts
+  resolutionNote?: string;
+  
+  // Escalation
+  escalationLevel?: number;  // steps already taken, 0 when not escalated
+  escalations?: AlertEscalation[];
+  
   // Optional context data
   location?: string;
+  component?: string;
+  projectedEmptyAt?: string;
   shelves?: string[];
   temperature?: number;
   threshold?: number;
   confidence?: number;
   
   // Image data
+  evidenceId?: string;       // camera frame kept in the evidence store
   imageUrl?: string;
   annotatedImageUrl?: string;
 }
 
+// Alert rule types
+export type RuleSensor = 'fill' | 'temperature';
+export type RuleOperator = '<' | '<=' | '>' | '>=' | 'outside' | 'rises_by' | 'falls_by';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  sensor: RuleSensor;
+  storeId?: string;          // undefined applies to every store
+  componentPattern: string;  // component name, '*' wildcards allowed
+  operator: RuleOperator;
+  threshold: number;         // lower bound for 'outside', change for 'rises_by' / 'falls_by'
+  thresholdHigh?: number;    // upper bound for 'outside'
+  windowMs?: number;         // how far back 'rises_by' / 'falls_by' look
+  minDurationMs: number;     // condition must hold this long before alerting
+  activeHours?: {
+    start: number;           // hour of day in store time, 0-23
+    end: number;             // exclusive, may wrap past midnight
+  };
+  severity?: Alert['severity']; // undefined derives severity from the reading
+}
+
+export interface RuleMatch {
+  rule: AlertRule;
+  reading: SensorReading;
+  type: Alert['type'];
+  severity: Alert['severity'];
+  threshold: number;
+  message: string;
+  text: LocalizedText;       // message as catalog text
+  breachStartedAt: string;
+}
+
+export type AlertStatus = 'open' | 'acknowledged' | 'resolved';
+
+// Escalation types
+export type EscalationRole = 'store_staff' | 'area_manager' | 'regional_manager';
+
+export interface EscalationStep {
+  afterMinutes: number;      // minutes unacknowledged since the alert was raised
+  role: EscalationRole;
+  raiseSeverity: boolean;
+}
+
+export interface EscalationPolicy {
+  id: string;
+  name: string;
+  enabled: boolean;
+  alertTypes: Alert['type'][];   // empty applies to every type
+  storeId?: string;              // undefined applies to every store
+  minSeverity: Alert['severity'];
+  steps: EscalationStep[];
+}
+
+export interface AlertEscalation {
+  level: number;
+  policyId: string;
+  role: EscalationRole;
+  severity: Alert['severity'];
+  timestamp: string;
+}
+
 export interface SensorReading {
   componentName: string;
   reading: any;
@@ -40,11 +192,163 @@ export interface SensorReading {
   machineId: string;
 }
 
+// Forecast types
+export interface ForecastSettings {
+  enabled: boolean;
+  leadTimeMinutes: number;   // alert when a shelf is projected empty within this time
+  windowMinutes: number;     // readings used to estimate the depletion rate
+  minSamples: number;        // minimum readings before forecasting
+}
+
+export interface ShelfForecast {
+  storeId: string;
+  componentName: string;
+  currentFill: number;
+  emptyLevel: number;
+  ratePerMinute: number;     // negative while depleting
+  minutesToEmpty: number | null;
+  projectedEmptyAt: string | null;
+  confidence: number;        // 0-100, goodness of the linear fit
+}
+
+// Restock task types
+export type RestockTaskStatus = 'open' | 'in_progress' | 'done' | 'cancelled';
+
+export interface ChecklistItem {
+  key?: string;              // catalog key for the label
+  label: string;
+  done: boolean;
+}
+
+export interface RestockTask {
+  id: string;
+  storeId: string;
+  storeName: string;
+  region: string;            // fill-sensor region to restock
+  shelf: string;             // planogram description of the region
+  alertIds: string[];        // empty-shelf alerts that raised or joined the task
+  severity: Alert['severity'];
+  threshold?: number;        // fill level the shelf must rise above to count as restocked
+  status: RestockTaskStatus;
+  createdAt: string;
+  dueAt: string;
+  assignedTo?: string;
+  startedAt?: string;
+  completedAt?: string;
+  completedBy?: string;      // 'system' when the fill sensor closed the task
+  fillAtCompletion?: number;
+  timeToRestockMs?: number;
+  checklist: ChecklistItem[];
+}
+
+// Equipment health types
+export type HealthCheck = 'machine' | 'camera' | 'temperature_sensor' | 'fill_sensor';
+
+export interface HealthIssue {
+  storeId: string;
+  check: HealthCheck;
+  component: string;         // 'machine', 'camera', or the sensor / region name
+  severity: Alert['severity'];
+  message: string;
+  text: LocalizedText;       // message as catalog text
+  since: string;
+}
+
+// Temperature compliance (HACCP) types
+export interface ComplianceSettings {
+  minTemp: number;           // °C, safe range for sensors without a temperature rule
+  maxTemp: number;
+  checkpointTimes: string[]; // local "HH:MM" times a check is recorded
+  retentionDays: number;
+}
+
+export interface TemperatureCheckpoint {
+  id: string;
+  storeId: string;
+  sensor: string;
+  date: string;              // store-local YYYY-MM-DD
+  slot: string;              // scheduled "HH:MM" store time
+  recordedAt: string;
+  temperature: number;
+  inRange: boolean;
+  limits?: ComplianceLimits; // range the reading was checked against
+}
+
+export interface ComplianceLimits {
+  minTemp: number;           // °C
+  maxTemp: number;
+}
+
+export interface TemperatureExcursion {
+  id: string;
+  storeId: string;
+  sensor: string;
+  startedAt: string;
+  endedAt?: string;          // undefined while still out of range
+  peak: number;              // reading furthest outside the range
+  limits?: ComplianceLimits;
+  correctiveAction?: string;
+  actionBy?: string;
+  actionAt?: string;
+}
+
+export interface ComplianceSignOff {
+  storeId: string;
+  date: string;
+  signedBy: string;
+  signedAt: string;
+  note?: string;
+}
+
+export interface ComplianceDay {
+  date: string;
+  sensors: string[];
+  checkpoints: TemperatureCheckpoint[];
+  missed: Array<{ sensor: string; slot: string }>;
+  limits: Record<string, ComplianceLimits>;  // sensor -> safe range that day
+  excursions: TemperatureExcursion[];
+  signOff?: ComplianceSignOff;
+}
+
+export interface ComplianceReport {
+  storeId: string;
+  storeName: string;
+  from: string;
+  to: string;
+  settings: ComplianceSettings;
+  days: ComplianceDay[];
+  generatedAt: string;
+}
+
+// Reading history types
+export interface HistorySample {
+  storeId: string;
+  componentName: string;
+  sensor: RuleSensor;
+  timestamp: number;   // epoch ms; bucket start for downsampled samples
+  value: number;       // mean for downsampled samples
+  min?: number;
+  max?: number;
+  count?: number;      // raw readings represented, undefined for raw samples
+}
+
+export type HistoryRange = '1h' | '24h' | '7d';
+
+export interface HistoryQuery {
+  storeId: string;
+  componentName?: string;
+  sensor?: RuleSensor;
+  start: Date;
+  end: Date;
+  maxPoints?: number;  // downsample to at most this many points per component
+}
+
 export interface AppState {
   stores: StoreLocation[];
   alerts: Alert[];
   selectedStores: Set<string>;
-  currentView: 'stores' | 'alerts' | 'camera' | 'map';
+  currentView: ViewType;
+  alertStatusFilter: AlertStatus | 'all';
   isOnline: boolean;
   lastSync: string;
 }
@@ -55,6 +359,22 @@ export interface ViamCredentials {
   hostname: string;
 }
 
+// Credential store types
+export interface CredentialRecord {
+  machineId: string;  // '*' for a location or organization API key shared by all machines
+  label: string;
+  id: string;         // API key ID
+  key: string;
+  hostname?: string;
+}
+
+export interface ResolvedCredentials {
+  id: string;
+  key: string;
+  hostname?: string;
+  source: 'saved' | 'cookie' | 'shared';
+}
+
 export interface NotificationPayload {
   title: string;
   body: string;
@@ -73,8 +393,18 @@ export interface NotificationAction {
   icon?: string;
 }
 
+export interface NotificationSchedule {
+  quietHours?: {
+    start: string;           // 'HH:MM' on this device
+    end: string;             // exclusive, may wrap past midnight
+  };
+  daysOff: Weekday[];        // no notifications all day
+  snoozedUntil?: string;     // ISO timestamp; notifications resume after it
+  criticalOverride: boolean; // critical alerts still notify while quiet
+}
+
 // Utility types
-export type ViewType = 'stores' | 'alerts' | 'camera' | 'map';
+export type ViewType = 'stores' | 'alerts' | 'tasks' | 'camera' | 'map' | 'settings';
 export type AlertType = Alert['type'];
 export type AlertSeverity = Alert['severity'];
 export type StoreStatus = StoreLocation['status'];
@@ -86,6 +416,48 @@ export interface ViamConnection {
   lastActivity: string;
 }
 
+// Connection supervision types
+// offline: connection lost or failed, next attempt scheduled
+// disconnected: store is no longer being supervised
+export type ConnectionState = 'connecting' | 'connected' | 'offline' | 'disconnected';
+
+export interface ConnectionStatus {
+  storeId: string;
+  state: ConnectionState;
+  attempts: number;           // consecutive failed connection attempts
+  connectedAt?: string;
+  offlineSince?: string;
+  lastHeartbeat?: string;
+  lastError?: string;
+  nextRetryAt?: string;
+}
+
+export interface ConnectionOptions {
+  heartbeatIntervalMs: number;
+  heartbeatTimeoutMs: number;
+  maxMissedHeartbeats: number;  // failures in a row before reconnecting
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+  backoffMultiplier: number;
+}
+
+// Machine backend shared by real Viam connections and the simulator
+export interface MachineBackend {
+  initialize(): Promise<void>;
+  connectToStore(store: StoreLocation): Promise<boolean>;
+  disconnectStore(storeId: string): void;
+  retryNow(storeId: string): Promise<boolean>;
+  isConnected(storeId: string): boolean;
+  getStatus(storeId: string): ConnectionStatus | undefined;
+  subscribe(listener: (status: ConnectionStatus) => void): () => void;
+  getSensorData(storeId: string): Promise<SensorReading[]>;
+  getCameraFrame(storeId: string): Promise<string | null>;
+  getCameraAnnotations(storeId: string): Promise<CameraAnnotation[]>;
+  openVideoStream(storeId: string, quality: VideoQuality): Promise<MediaStream>;
+  closeVideoStream(storeId: string): void;
+  getTemperatureData(storeId: string): Promise<SensorReading[]>;
+}
+
 // Map types
 export interface MapMarker {
   id: string;
@@ -100,6 +472,7 @@ export interface AlertFilter {
   storeId?: string;
   type?: AlertType;
   severity?: AlertSeverity;
+  status?: AlertStatus;
   unreadOnly?: boolean;
   dateRange?: {
     start: string;
@@ -113,9 +486,30 @@ export interface CameraStream {
   streamUrl?: string;
   isActive: boolean;
   lastFrame?: string;
+  lastFrameAt?: string;
+  lastError?: string;
+  paused?: boolean;
+  visible?: boolean;
+  video?: VideoState;
+  videoRequested?: boolean;
+  videoQuality?: VideoQuality;
+  videoError?: string;
   annotations?: CameraAnnotation[];
 }
 
+export type VideoQuality = 'auto' | 'low' | 'medium' | 'high';
+
+export interface EvidenceImage {
+  id: string;
+  storeId: string;
+  capturedAt: number;        // epoch ms
+  size: number;              // bytes, image and thumbnail
+  blob: Blob;                // JPEG
+  thumbnail: Blob;           // JPEG
+}
+
+export type VideoState = 'off' | 'starting' | 'live' | 'failed';
+
 export interface CameraAnnotation {
   type: 'shelf' | 'person' | 'alert';
   bounds: {
@@ -142,12 +536,49 @@ export interface ServiceWorkerMessage {
 export interface AppSettings {
   notificationsEnabled: boolean;
   soundEnabled: boolean;
-  updateInterval: number;
+  updateInterval: number;  // base store polling interval (ms)
   theme: 'light' | 'dark' | 'auto';
   language: string;
   temperatureUnit: 'C' | 'F';
 }
 
+// Polling scheduler types
+export interface PollingSettings {
+  alertIntervalMs: number;        // stores with unresolved alerts
+  closedIntervalMs: number;       // stores outside opening hours
+  hiddenBehavior: 'pause' | 'throttle';
+  hiddenIntervalMs: number;       // throttled interval while the page is hidden
+  lowBatteryLevel: number;        // 0-1; below this, and not charging, polling slows
+  lowBatteryMultiplier: number;
+  jitter: number;                 // ± fraction of each interval
+  maxConcurrent: number;          // stores polled at the same time
+  callTimeoutMs: number;          // limit for each machine call
+  pollTimeoutMs: number;          // limit for a whole store poll
+}
+
+export type PollingReason = 'normal' | 'alerts' | 'closed' | 'hidden' | 'low_battery' | 'paused';
+
+export type PollOutcome = 'ok' | 'timeout' | 'error' | 'cancelled';
+
+export interface PollResult {
+  storeId: string;
+  startedAt: string;
+  durationMs: number;
+  queuedMs: number;               // time spent waiting for a free slot
+  outcome: PollOutcome;
+  calls: Record<string, { durationMs: number; outcome: PollOutcome }>;
+  error?: string;
+}
+
+export interface PollingSchedule {
+  storeId: string;
+  intervalMs: number | null;      // null while paused
+  reason: PollingReason;
+  nextPollAt: string | null;
+  lastPollAt?: string;
+  lastResult?: PollResult;
+}
+
 // Analytics types
 export interface AnalyticsEvent {
   type: 'alert_created' | 'alert_viewed' | 'store_connected' | 'app_opened';
@@ -1,28 +1,5 @@
 import type { Alert, StoreLocation, NotificationPayload } from './types';
-
-/**
- * Format timestamp to relative time (e.g., "2 hours ago")
- */
-export function formatRelativeTime(timestamp: string): string {
-  const date = new Date(timestamp);
-  const now = new Date();
-  const diffMs = now.getTime() - date.getTime();
-  const diffMinutes = Math.floor(diffMs / 60000);
-  
-  if (diffMinutes < 1) return 'Just now';
-  if (diffMinutes < 60) return `${diffMinutes}m ago`;
-  
-  const diffHours = Math.floor(diffMinutes / 60);
-  if (diffHours < 24) return `${diffHours}h ago`;
-  
-  const diffDays = Math.floor(diffHours / 24);
-  if (diffDays < 7) return `${diffDays}d ago`;
-  
-  const diffWeeks = Math.floor(diffDays / 7);
-  if (diffWeeks < 4) return `${diffWeeks}w ago`;
-  
-  return date.toLocaleDateString();
-}
+import { isOpenAt } from './hours';
 
 /**
  * Generate unique ID
@@ -68,6 +45,9 @@ export function calculateAlertSeverity(
       if (context.fillPercent < 25) return 'low';
       return 'low';
       
+    case 'predicted_empty':
+      return 'medium';
+      
     case 'equipment_failure':
       return 'critical';
       
@@ -90,37 +70,25 @@ export function getAlertColor(severity: Alert['severity']): string {
 }
 
 /**
- * Format temperature with proper units
+ * Convert a Celsius reading to the given unit
  */
-export function formatTemperature(temp: number, unit: 'C' | 'F' = 'C'): string {
-  if (unit === 'F') {
-    const fahrenheit = (temp * 9/5) + 32;
-    return `${fahrenheit.toFixed(1)}°F`;
-  }
-  return `${temp.toFixed(1)}°C`;
+export function convertTemperature(temp: number, unit: 'C' | 'F' = 'C'): number {
+  return unit === 'F' ? (temp * 9/5) + 32 : temp;
 }
 
 /**
- * Check if store should trigger alerts based on business hours
+ * Convert a temperature entered in the given unit to Celsius
  */
-export function isStoreActive(store: StoreLocation): boolean {
-  const now = new Date();
-  const hour = now.getHours();
-  const day = now.getDay(); // 0 = Sunday, 6 = Saturday
-  
-  // Basic business hours: 6 AM - 10 PM, Monday to Sunday
-  // Pret locations typically have extended hours
-  const isWeekend = day === 0 || day === 6;
-  const weekdayStart = 6;
-  const weekdayEnd = 22;
-  const weekendStart = 7;
-  const weekendEnd = 21;
-  
-  if (isWeekend) {
-    return hour >= weekendStart && hour <= weekendEnd;
-  } else {
-    return hour >= weekdayStart && hour <= weekdayEnd;
-  }
+export function toCelsius(temp: number, unit: 'C' | 'F' = 'C'): number {
+  return unit === 'F' ? (temp - 32) * 5/9 : temp;
+}
+
+/**
+ * Check if store should trigger alerts based on business hours, in the
+ * store's own time zone
+ */
+export function isStoreActive(store: StoreLocation, now: Date = new Date()): boolean {
+  return isOpenAt(store, now);
 }
 
 /**
@@ -152,6 +120,13 @@ export function safeJSONParse<T>(str: string, fallback: T): T {
   }
 }
 
+/**
+ * Escape text for HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
 /**
  * Create notification sound (Web Audio API)
  */
@@ -264,6 +239,44 @@ export function throttle<T extends (...args: any[]) => void>(
   };
 }
 
+/**
+ * Reject a promise if it does not settle within the given time. Rejects with
+ * a `TimeoutError` DOMException on timeout, or an `AbortError` when the
+ * optional signal aborts first.
+ */
+export function withTimeout<T>(
+  promise: Promise<T>,
+  ms: number,
+  message: string = 'Operation timed out',
+  signal?: AbortSignal
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Operation cancelled', 'AbortError'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Operation cancelled', 'AbortError'));
+    };
+    const settle = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(new DOMException(message, 'TimeoutError'));
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => { settle(); resolve(value); },
+      error => { settle(); reject(error); }
+    );
+  });
+}
+
 /**
  * Format file size
  */
@@ -517,26 +530,29 @@ export const url = {
  * Date/time utilities
  */
 export const datetime = {
+  /** Locale dates are formatted in; undefined uses the browser's */
+  locale: undefined as string | undefined,
+  
   formatDate(date: Date | string, format: 'short' | 'long' | 'time' = 'short'): string {
     const d = typeof date === 'string' ? new Date(date) : date;
     
     switch (format) {
       case 'short':
-        return d.toLocaleDateString();
+        return d.toLocaleDateString(datetime.locale);
       case 'long':
-        return d.toLocaleDateString(undefined, { 
+        return d.toLocaleDateString(datetime.locale, { 
           weekday: 'long', 
           year: 'numeric', 
           month: 'long', 
           day: 'numeric' 
         });
       case 'time':
-        return d.toLocaleTimeString(undefined, { 
+        return d.toLocaleTimeString(datetime.locale, { 
           hour: '2-digit', 
           minute: '2-digit' 
         });
       default:
-        return d.toLocaleDateString();
+        return d.toLocaleDateString(datetime.locale);
     }
   },
   
@@ -551,10 +567,6 @@ export const datetime = {
     const yesterday = new Date();
     yesterday.setDate(yesterday.getDate() - 1);
     return d.toDateString() === yesterday.toDateString();
-  },
-  
-  getTimeAgo(date: Date | string): string {
-    return formatRelativeTime(typeof date === 'string' ? date : date.toISOString());
   }
 };
 
@@ -623,21 +635,23 @@ export const color = {
 };
 
 export default {
-  formatRelativeTime,
   generateId,
   debounce,
   calculateAlertSeverity,
   getAlertColor,
-  formatTemperature,
+  convertTemperature,
+  toCelsius,
   isStoreActive,
   getRegionColor,
   safeJSONParse,
+  escapeHtml,
   playNotificationSound,
   validateMachineConnection,
   calculateDistance,
   formatDistance,
   getCurrentLocation,
   throttle,
+  withTimeout,
   formatFileSize,
   deepClone,
   isPWA,
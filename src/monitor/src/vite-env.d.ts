@@ -6,6 +6,7 @@ interface ImportMetaEnv {
   readonly VITE_APP_VERSION: string
   readonly VITE_BUILD_TIME: string
   readonly VITE_VIAM_API_URL: string
+  readonly VITE_SIMULATE_MACHINES?: string
 }
 
 interface ImportMeta {